@@ -3,26 +3,55 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/components/AuthProvider";
+import { WorkspaceProvider } from "@/components/WorkspaceProvider";
+import { AppLayout } from "@/components/AppLayout";
 import Index from "./pages/Index";
 import Share from "./pages/Share";
+import Auth from "./pages/Auth";
+import History from "./pages/History";
+import Search from "./pages/Search";
+import Batch from "./pages/Batch";
+import Workspace from "./pages/Workspace";
+import Invite from "./pages/Invite";
+import Collections from "./pages/Collections";
+import Collection from "./pages/Collection";
+import SharedCollection from "./pages/SharedCollection";
+import Usage from "./pages/Usage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/share/:id" element={<Share />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <WorkspaceProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route element={<AppLayout />}>
+                <Route path="/" element={<Index />} />
+                <Route path="/history" element={<History />} />
+                <Route path="/search" element={<Search />} />
+                <Route path="/batch/:id" element={<Batch />} />
+                <Route path="/collections" element={<Collections />} />
+                <Route path="/collections/:id" element={<Collection />} />
+                <Route path="/usage" element={<Usage />} />
+                <Route path="/workspace" element={<Workspace />} />
+              </Route>
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/invite/:token" element={<Invite />} />
+              <Route path="/share/:token" element={<Share />} />
+              <Route path="/c/:token" element={<SharedCollection />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </WorkspaceProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
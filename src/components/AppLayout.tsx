@@ -0,0 +1,26 @@
+import { Outlet } from "react-router-dom";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { useAuth } from "@/hooks/use-auth";
+
+// Signed-in pages get the sidebar with the workspace switcher; each page still
+// handles its own redirect to /auth.
+export function AppLayout() {
+  const { user } = useAuth();
+
+  if (!user) {
+    return <Outlet />;
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-12 items-center border-b px-4">
+          <SidebarTrigger />
+        </header>
+        <Outlet />
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,68 @@
+import { BarChart3, FolderTree, History, LogOut, Search, Settings, Sparkles } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+} from "@/components/ui/sidebar";
+import { NavLink } from "@/components/NavLink";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
+import { useAuth } from "@/hooks/use-auth";
+
+const NAV_ITEMS = [
+  { to: "/", label: "Summarize", icon: Sparkles },
+  { to: "/history", label: "History", icon: History },
+  { to: "/search", label: "Search library", icon: Search },
+  { to: "/collections", label: "Collections", icon: FolderTree },
+  { to: "/usage", label: "Usage", icon: BarChart3 },
+  { to: "/workspace", label: "Workspace", icon: Settings },
+];
+
+export function AppSidebar() {
+  const { user, signOut } = useAuth();
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <WorkspaceSwitcher />
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Library</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {NAV_ITEMS.map((item) => (
+                <SidebarMenuItem key={item.to}>
+                  <SidebarMenuButton asChild tooltip={item.label}>
+                    <NavLink to={item.to} end activeClassName="bg-sidebar-accent font-medium text-sidebar-accent-foreground">
+                      <item.icon />
+                      <span>{item.label}</span>
+                    </NavLink>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={signOut} tooltip="Sign out">
+              <LogOut />
+              <span className="truncate">{user?.email}</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+      <SidebarRail />
+    </Sidebar>
+  );
+}
@@ -0,0 +1,99 @@
+import { Link } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { FolderPlus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollections } from "@/hooks/use-collections";
+import { flattenCollectionTree } from "@/lib/collections";
+
+interface CollectionMenuProps {
+  summaryId: string;
+  workspaceId: string;
+  canEdit: boolean;
+}
+
+// Adds a summary to, or takes it out of, the workspace's collections
+export const CollectionMenu = ({ summaryId, workspaceId, canEdit }: CollectionMenuProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: collections = [] } = useCollections(workspaceId);
+
+  const { data: memberOf = [] } = useQuery({
+    queryKey: ["summary-collections", summaryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("collection_summaries")
+        .select("collection_id")
+        .eq("summary_id", summaryId);
+
+      if (error) throw error;
+      return (data || []).map((row) => row.collection_id);
+    },
+  });
+
+  const handleToggle = async (collectionId: string, add: boolean) => {
+    const { error } = add
+      ? await supabase
+          .from("collection_summaries")
+          .insert({ collection_id: collectionId, summary_id: summaryId, added_by: user?.id })
+      : await supabase
+          .from("collection_summaries")
+          .delete()
+          .eq("collection_id", collectionId)
+          .eq("summary_id", summaryId);
+
+    if (error) {
+      console.error("Error updating collection:", error);
+      toast.error("Failed to update collection");
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["summary-collections", summaryId] });
+    queryClient.invalidateQueries({ queryKey: ["collection-summaries", collectionId] });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FolderPlus className="h-4 w-4 mr-2" />
+          Collections
+          {memberOf.length > 0 && <span className="ml-1 text-muted-foreground">({memberOf.length})</span>}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Collections</DropdownMenuLabel>
+        {collections.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">This workspace has no collections yet.</p>
+        )}
+        {flattenCollectionTree(collections).map((collection) => (
+          <DropdownMenuCheckboxItem
+            key={collection.id}
+            checked={memberOf.includes(collection.id)}
+            disabled={!canEdit}
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) => handleToggle(collection.id, checked)}
+          >
+            <span className="truncate" style={{ paddingLeft: `${collection.depth * 12}px` }}>
+              {collection.name}
+            </span>
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/collections">Manage collections</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
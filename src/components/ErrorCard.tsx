@@ -0,0 +1,106 @@
+import { Link } from "react-router-dom";
+import { AlertCircle, BarChart3, LogIn, RefreshCw, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ERROR_REMEDIATION, type ErrorCode } from "@/lib/contract";
+import type { Failure } from "@/lib/errors";
+import { formatWait } from "@/lib/functions";
+
+const TITLES: Partial<Record<ErrorCode, string>> = {
+  invalid_url: "That link doesn't look right",
+  unsupported_source: "This source isn't supported",
+  unauthenticated: "You're signed out",
+  budget_exceeded: "Monthly AI budget reached",
+  forbidden: "You can't add summaries here",
+  rate_limited: "Slow down a little",
+  quota_exceeded: "Daily limit reached",
+  private_video: "This video is private",
+  age_restricted: "This video is age-restricted",
+  no_captions: "No captions to summarize",
+  captions_blocked: "Captions were blocked",
+  ai_quota_exhausted: "The AI service is busy",
+  ai_timeout: "The AI service timed out",
+  ai_request_rejected: "The AI service refused the request",
+  database_error: "We couldn't save that",
+};
+
+// Failures a subtitle file gets around, since it needs nothing from the video site
+const UPLOAD_CODES = new Set<ErrorCode>([
+  "unsupported_source",
+  "private_video",
+  "age_restricted",
+  "no_captions",
+  "captions_blocked",
+]);
+
+// Failures that may go away on their own
+const RETRY_CODES = new Set<ErrorCode>([
+  "invalid_request",
+  "rate_limited",
+  "quota_exceeded",
+  "captions_blocked",
+  "ai_quota_exhausted",
+  "ai_timeout",
+  "database_error",
+  "internal_error",
+]);
+
+interface ErrorCardProps {
+  failure: Failure;
+  // Seconds left before the server wants to hear from us again
+  retryInSeconds: number;
+  canEdit: boolean;
+  onRetry: () => void;
+  onUploadSubtitles: () => void;
+  onDismiss: () => void;
+}
+
+// What went wrong with a summary, what to do about it, and a button to do it
+export const ErrorCard = ({ failure, retryInSeconds, canEdit, onRetry, onUploadSubtitles, onDismiss }: ErrorCardProps) => (
+  <Card className="p-6 mb-8 border-destructive/40 bg-destructive/5 animate-fade-in" role="alert">
+    <div className="flex items-start gap-3">
+      <AlertCircle className="w-5 h-5 mt-0.5 text-destructive shrink-0" />
+      <div className="flex-1 space-y-2">
+        <h3 className="font-semibold">{TITLES[failure.code] ?? "Something went wrong"}</h3>
+        <p className="text-sm text-muted-foreground">{failure.message}</p>
+        <p className="text-sm">
+          {ERROR_REMEDIATION[failure.code]}
+          {retryInSeconds > 0 && ` You can try again in ${formatWait(retryInSeconds)}.`}
+        </p>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {RETRY_CODES.has(failure.code) && (
+            <Button size="sm" onClick={onRetry} disabled={!canEdit || retryInSeconds > 0}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {retryInSeconds > 0 ? `Try again in ${formatWait(retryInSeconds)}` : "Try again"}
+            </Button>
+          )}
+          {UPLOAD_CODES.has(failure.code) && (
+            <Button size="sm" variant="outline" onClick={onUploadSubtitles} disabled={!canEdit}>
+              <Upload className="w-4 h-4 mr-2" />
+              Upload subtitles
+            </Button>
+          )}
+          {failure.code === "unauthenticated" && (
+            <Button size="sm" asChild>
+              <Link to="/auth">
+                <LogIn className="w-4 h-4 mr-2" />
+                Sign in
+              </Link>
+            </Button>
+          )}
+          {failure.code === "budget_exceeded" && (
+            <Button size="sm" variant="outline" asChild>
+              <Link to="/usage">
+                <BarChart3 className="w-4 h-4 mr-2" />
+                View usage
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onDismiss} aria-label="Dismiss">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  </Card>
+);
@@ -0,0 +1,54 @@
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, exportSummary, type ExportableSummary, type ExportFormat } from "@/lib/exports";
+
+interface ExportMenuProps {
+  summary: ExportableSummary;
+}
+
+const download = (filename: string, mimeType: string, data: BlobPart) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+// Downloads a summary in one of the export formats
+export const ExportMenu = ({ summary }: ExportMenuProps) => {
+  const handleExport = (format: ExportFormat) => {
+    try {
+      const file = exportSummary(summary, format);
+      download(file.filename, file.mimeType, file.data);
+    } catch (error) {
+      console.error("Error exporting summary:", error);
+      toast.error("Failed to export summary");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format.id} onSelect={() => handleExport(format.id)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, Eye, Link2, Loader2, Lock, Ban } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  buildShareUrl,
+  SHARE_EXPIRY_OPTIONS,
+  SHARE_VISIBILITIES,
+  shareExpiryDate,
+  shareStatus,
+  type ShareExpiryOption,
+  type ShareVisibility,
+} from "@/lib/shares";
+
+interface ShareDialogProps {
+  summaryId: string | null;
+  canEdit: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_LABELS = { active: "Active", expired: "Expired", revoked: "Revoked" } as const;
+
+const copyLink = async (token: string) => {
+  await navigator.clipboard.writeText(buildShareUrl(token));
+  toast.success("Share link copied to clipboard!");
+};
+
+// Lists a summary's share links and creates new ones
+export const ShareDialog = ({ summaryId, canEdit, onOpenChange }: ShareDialogProps) => {
+  const queryClient = useQueryClient();
+  const [visibility, setVisibility] = useState<ShareVisibility>("unlisted");
+  const [expiry, setExpiry] = useState<ShareExpiryOption>("never");
+  const [password, setPassword] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data: shares = [], isLoading } = useQuery({
+    queryKey: ["summary-shares", summaryId],
+    enabled: !!summaryId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("summary_shares")
+        .select("id, token, visibility, expires_at, revoked_at, view_count, last_viewed_at, legacy_until, created_at")
+        .eq("summary_id", summaryId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const refreshShares = () => queryClient.invalidateQueries({ queryKey: ["summary-shares", summaryId] });
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const { data: token, error } = await supabase.rpc("create_summary_share", {
+      target_summary: summaryId!,
+      share_visibility: visibility,
+      share_password: visibility === "password" ? password : undefined,
+      share_expires_at: shareExpiryDate(expiry) ?? undefined,
+    });
+    setIsCreating(false);
+
+    if (error) {
+      console.error("Error creating share link:", error);
+      toast.error(error.message || "Failed to create share link");
+      return;
+    }
+
+    setPassword("");
+    refreshShares();
+    await copyLink(token);
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    const { error } = await supabase
+      .from("summary_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", shareId);
+
+    if (error) {
+      console.error("Error revoking share link:", error);
+      toast.error("Failed to revoke share link");
+      return;
+    }
+    toast.success("Share link revoked");
+    refreshShares();
+  };
+
+  return (
+    <Dialog open={!!summaryId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share summary</DialogTitle>
+          <DialogDescription>Each link has its own audience and expiry, and can be revoked at any time.</DialogDescription>
+        </DialogHeader>
+
+        {canEdit && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={visibility} onValueChange={(value) => setVisibility(value as ShareVisibility)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_VISIBILITIES.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={expiry} onValueChange={(value) => setExpiry(value as ShareExpiryOption)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {SHARE_VISIBILITIES.find((option) => option.id === visibility)?.description}
+            </p>
+            {visibility === "password" && (
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password for this link"
+              />
+            )}
+            <Button type="submit" className="w-full" disabled={isCreating || (visibility === "password" && !password)}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+              Create and copy link
+            </Button>
+          </form>
+        )}
+
+        <div className="divide-y divide-border">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="py-4 text-sm text-muted-foreground text-center">This summary has no share links yet.</p>
+          ) : (
+            shares.map((share) => {
+              const status = shareStatus(share);
+              const label = SHARE_VISIBILITIES.find((option) => option.id === share.visibility)?.label ?? share.visibility;
+              return (
+                <div key={share.id} className="flex items-center gap-3 py-3 text-sm">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      {share.visibility === "password" && <Lock className="h-3 w-3 text-muted-foreground" />}
+                      <span className="font-medium">{label}</span>
+                      <Badge variant={status === "active" ? "secondary" : "outline"} className="text-[10px]">
+                        {STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      <Eye className="inline h-3 w-3 mr-1" />
+                      {share.view_count} {share.view_count === 1 ? "view" : "views"}
+                      {share.expires_at &&
+                        status === "active" &&
+                        ` · expires ${formatDistanceToNow(new Date(share.expires_at), { addSuffix: true })}`}
+                      {share.legacy_until &&
+                        status === "active" &&
+                        new Date(share.legacy_until) > new Date() &&
+                        ` · old link works until ${format(new Date(share.legacy_until), "MMM d")}`}
+                    </p>
+                  </div>
+                  {status === "active" && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => copyLink(share.token)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      {canEdit && (
+                        <Button variant="ghost" size="icon" onClick={() => handleRevoke(share.id)} title="Revoke">
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,131 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Lightbulb, ListChecks, Sparkles, Tags, UserPen } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import { asStructuredSummary } from "@/lib/structuredSummary";
+import { parseTimestamp } from "@/lib/youtube";
+import { buildTimestampLink } from "@/lib/sources";
+import { humanSections, type SummarySection } from "@/lib/summaryVersions";
+
+interface SummaryContentProps {
+  summary: string;
+  structured: Json | null | undefined;
+  videoUrl: string;
+  // When given, each section is marked as AI-written or edited by a person
+  sectionAuthors?: Json;
+}
+
+const AuthorMark = ({ edited }: { edited: boolean }) =>
+  edited ? (
+    <Badge variant="outline" className="gap-1 text-[10px] font-normal border-amber-500/50 text-amber-700 dark:text-amber-400">
+      <UserPen className="w-3 h-3" />
+      Edited
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="gap-1 text-[10px] font-normal text-muted-foreground">
+      <Sparkles className="w-3 h-3" />
+      AI
+    </Badge>
+  );
+
+export const SummaryContent = ({ summary, structured, videoUrl, sectionAuthors }: SummaryContentProps) => {
+  const content = asStructuredSummary(structured);
+  const authors = humanSections(sectionAuthors);
+  const mark = (section: SummarySection) =>
+    sectionAuthors !== undefined && <AuthorMark edited={authors[section] === "human"} />;
+
+  if (!content) {
+    return (
+      <div className="prose prose-sm max-w-none">
+        <div className="whitespace-pre-wrap text-foreground leading-relaxed">{summary}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 text-foreground">
+      <div className="rounded-lg bg-primary/5 border border-primary/20 p-4">
+        <div className="flex items-center gap-2 mb-1">
+          <p className="text-xs font-semibold uppercase tracking-wide text-primary">TL;DR</p>
+          {mark("tldr")}
+        </div>
+        <p className="leading-relaxed">{content.tldr}</p>
+      </div>
+
+      <section>
+        <h3 className="flex items-center gap-2 text-lg font-semibold mb-3">
+          <ListChecks className="w-5 h-5 text-primary" />
+          Key points
+          {mark("key_points")}
+        </h3>
+        <ul className="space-y-2">
+          {content.key_points.map((point, index) => {
+            const seconds = point.timestamp ? parseTimestamp(point.timestamp) : null;
+            const link = seconds !== null ? buildTimestampLink(videoUrl, seconds) : null;
+            return (
+              <li key={index} className="flex gap-3 leading-relaxed">
+                {point.timestamp && link ? (
+                  <a
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="shrink-0 font-mono text-sm text-primary hover:underline pt-0.5"
+                  >
+                    {point.timestamp}
+                  </a>
+                ) : (
+                  <span className="shrink-0 w-1.5 h-1.5 mt-2.5 rounded-full bg-primary" />
+                )}
+                <span>{point.text}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      {content.takeaways.length > 0 && (
+        <section>
+          <h3 className="flex items-center gap-2 text-lg font-semibold mb-3">
+            <Lightbulb className="w-5 h-5 text-primary" />
+            Takeaways
+            {mark("takeaways")}
+          </h3>
+          <ul className="list-disc pl-6 space-y-1 leading-relaxed">
+            {content.takeaways.map((takeaway, index) => (
+              <li key={index}>{takeaway}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {content.action_items.length > 0 && (
+        <section>
+          <h3 className="flex items-center gap-2 text-lg font-semibold mb-3">
+            <CheckCircle2 className="w-5 h-5 text-primary" />
+            Action items
+            {mark("action_items")}
+          </h3>
+          <ul className="space-y-1 leading-relaxed">
+            {content.action_items.map((item, index) => (
+              <li key={index} className="flex gap-2">
+                <span className="shrink-0 mt-1.5 w-3 h-3 rounded border border-primary" />
+                <span>{item}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {content.topics.length > 0 && (
+        <section className="flex flex-wrap items-center gap-2">
+          <Tags className="w-4 h-4 text-muted-foreground" />
+          {content.topics.map((topic) => (
+            <Badge key={topic} variant="secondary">
+              {topic}
+            </Badge>
+          ))}
+          {mark("topics")}
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { asStructuredSummary, renderSummaryMarkdown, type StructuredSummary } from "@/lib/structuredSummary";
+import { changedSections, humanSections } from "@/lib/summaryVersions";
+import { parseTimestamp } from "@/lib/youtube";
+
+interface EditableSummary {
+  id: string;
+  version: number;
+  summary: string;
+  structured_summary: Json | null;
+  section_authors: Json;
+}
+
+interface SummaryEditorProps {
+  summary: EditableSummary;
+  onSaved: (summary: Tables<"summaries">) => void;
+  onCancel: () => void;
+}
+
+const toLines = (items: string[]) => items.join("\n");
+const fromLines = (value: string) =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// Key points are edited one per line, optionally starting with their timestamp
+const keyPointsToText = (points: StructuredSummary["key_points"]) =>
+  toLines(points.map((point) => (point.timestamp ? `${point.timestamp} ${point.text}` : point.text)));
+
+const textToKeyPoints = (value: string): StructuredSummary["key_points"] =>
+  fromLines(value).map((line) => {
+    const [first, ...rest] = line.split(/\s+/);
+    return parseTimestamp(first) !== null && rest.length > 0
+      ? { timestamp: first, text: rest.join(" ") }
+      : { timestamp: null, text: line };
+  });
+
+// Edits a summary section by section and saves the result as a new version.
+// Sections that change are marked as human-edited, so regenerating keeps them.
+export const SummaryEditor = ({ summary, onSaved, onCancel }: SummaryEditorProps) => {
+  const structured = asStructuredSummary(summary.structured_summary);
+  const [plainText, setPlainText] = useState(summary.summary);
+  const [tldr, setTldr] = useState(structured?.tldr ?? "");
+  const [keyPoints, setKeyPoints] = useState(keyPointsToText(structured?.key_points ?? []));
+  const [takeaways, setTakeaways] = useState(toLines(structured?.takeaways ?? []));
+  const [actionItems, setActionItems] = useState(toLines(structured?.action_items ?? []));
+  const [topics, setTopics] = useState((structured?.topics ?? []).join(", "));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    let values: { summary: string; structured_summary?: Json; section_authors?: Json };
+
+    if (structured) {
+      const edited: StructuredSummary = {
+        ...structured,
+        tldr: tldr.trim(),
+        key_points: textToKeyPoints(keyPoints),
+        takeaways: fromLines(takeaways),
+        action_items: fromLines(actionItems),
+        topics: topics
+          .split(",")
+          .map((topic) => topic.trim())
+          .filter(Boolean),
+      };
+
+      if (!edited.tldr || edited.key_points.length === 0) {
+        toast.error("A summary needs a TL;DR and at least one key point");
+        return;
+      }
+
+      const changed = changedSections(structured, edited);
+      if (changed.length === 0) {
+        onCancel();
+        return;
+      }
+
+      const authors = humanSections(summary.section_authors);
+      for (const section of changed) authors[section] = "human";
+
+      values = {
+        summary: renderSummaryMarkdown(edited),
+        structured_summary: edited as unknown as Json,
+        section_authors: authors,
+      };
+    } else {
+      if (!plainText.trim() || plainText === summary.summary) {
+        onCancel();
+        return;
+      }
+      values = { summary: plainText };
+    }
+
+    setIsSaving(true);
+    // Matching on the version turns a concurrent edit into an empty result
+    const { data, error } = await supabase
+      .from("summaries")
+      .update({ ...values, revision_kind: "edited" })
+      .eq("id", summary.id)
+      .eq("version", summary.version)
+      .select("*")
+      .maybeSingle();
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Error saving summary:", error);
+      toast.error("Failed to save summary");
+      return;
+    }
+    if (!data) {
+      toast.error("Someone else changed this summary while you were editing. Reopen it to see their version.");
+      return;
+    }
+
+    toast.success(`Saved as version ${data.version}`);
+    onSaved(data);
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+    >
+      {structured ? (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="edit-tldr">TL;DR</Label>
+            <Textarea id="edit-tldr" value={tldr} onChange={(e) => setTldr(e.target.value)} rows={2} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-key-points">Key points</Label>
+            <Textarea
+              id="edit-key-points"
+              value={keyPoints}
+              onChange={(e) => setKeyPoints(e.target.value)}
+              rows={Math.max(4, structured.key_points.length + 1)}
+            />
+            <p className="text-xs text-muted-foreground">One per line. Start a line with a timestamp such as 12:30 to link it.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-takeaways">Takeaways</Label>
+            <Textarea id="edit-takeaways" value={takeaways} onChange={(e) => setTakeaways(e.target.value)} rows={3} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-action-items">Action items</Label>
+            <Textarea
+              id="edit-action-items"
+              value={actionItems}
+              onChange={(e) => setActionItems(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-topics">Topics</Label>
+            <Input id="edit-topics" value={topics} onChange={(e) => setTopics(e.target.value)} />
+            <p className="text-xs text-muted-foreground">Separated by commas.</p>
+          </div>
+        </>
+      ) : (
+        <Textarea value={plainText} onChange={(e) => setPlainText(e.target.value)} rows={14} />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save version
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Plus, Sparkles, Tag, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { supabase } from "@/integrations/supabase/client";
+import { useSummaryTags, useWorkspaceTags } from "@/hooks/use-tags";
+
+interface SummaryTagsProps {
+  summaryId: string;
+  workspaceId: string;
+  suggestedTags: string[];
+  canEdit: boolean;
+}
+
+// A summary's tags, with autocomplete over the workspace's tags and the
+// AI's suggestions offered one click away
+export const SummaryTags = ({ summaryId, workspaceId, suggestedTags, canEdit }: SummaryTagsProps) => {
+  const queryClient = useQueryClient();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const { data: tags = [] } = useSummaryTags(summaryId);
+  const { data: workspaceTags = [] } = useWorkspaceTags(workspaceId);
+
+  const applied = new Set(tags.map((tag) => tag.name.toLowerCase()));
+  const suggestions = suggestedTags.filter((name) => !applied.has(name.toLowerCase()));
+  const trimmedSearch = search.trim();
+  const canCreate =
+    !!trimmedSearch && !workspaceTags.some((tag) => tag.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  const refreshTags = () => {
+    queryClient.invalidateQueries({ queryKey: ["summary-tags", summaryId] });
+    queryClient.invalidateQueries({ queryKey: ["tags", workspaceId] });
+  };
+
+  const handleAdd = async (name: string, source: "user" | "ai" = "user") => {
+    setIsPickerOpen(false);
+    setSearch("");
+    const { error } = await supabase.rpc("tag_summary", {
+      target_summary: summaryId,
+      tag_name: name,
+      tag_source: source,
+    });
+
+    if (error) {
+      console.error("Error adding tag:", error);
+      toast.error(error.message || "Failed to add tag");
+      return;
+    }
+    refreshTags();
+  };
+
+  const handleRemove = async (tagId: string) => {
+    const { error } = await supabase.from("summary_tags").delete().eq("summary_id", summaryId).eq("tag_id", tagId);
+
+    if (error) {
+      console.error("Error removing tag:", error);
+      toast.error("Failed to remove tag");
+      return;
+    }
+    refreshTags();
+  };
+
+  if (!canEdit && tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tag className="h-4 w-4 text-muted-foreground" />
+      {tags.map((tag) => (
+        <Badge key={tag.id} variant="secondary" className="gap-1">
+          {tag.source === "ai" && <Sparkles className="h-3 w-3 text-primary" />}
+          {tag.name}
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => handleRemove(tag.id)}
+              className="ml-0.5 rounded-full hover:text-destructive"
+              aria-label={`Remove tag ${tag.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+
+      {canEdit && (
+        <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+              <Plus className="h-3 w-3 mr-1" />
+              Add tag
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-60 p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Find or create a tag..." value={search} onValueChange={setSearch} />
+              <CommandList>
+                <CommandEmpty>No tags yet.</CommandEmpty>
+                <CommandGroup>
+                  {workspaceTags
+                    .filter((tag) => !applied.has(tag.name.toLowerCase()))
+                    .map((tag) => (
+                      <CommandItem key={tag.id} value={tag.name} onSelect={() => handleAdd(tag.name)}>
+                        {tag.name}
+                      </CommandItem>
+                    ))}
+                  {canCreate && (
+                    <CommandItem value={trimmedSearch} onSelect={() => handleAdd(trimmedSearch)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create "{trimmedSearch}"
+                    </CommandItem>
+                  )}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {canEdit &&
+        suggestions.map((name) => (
+          <Button
+            key={name}
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs border-dashed text-muted-foreground"
+            onClick={() => handleAdd(name, "ai")}
+            title="Suggested by AI"
+          >
+            <Sparkles className="h-3 w-3 mr-1 text-primary" />
+            {name}
+          </Button>
+        ))}
+    </div>
+  );
+};
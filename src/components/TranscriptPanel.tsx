@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { FileText, Loader2, Search } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatTimestamp } from "@/lib/youtube";
+import { buildTimestampLink } from "@/lib/sources";
+
+export interface TranscriptSegment {
+  start_ms: number;
+  duration_ms: number;
+  text: string;
+}
+
+interface TranscriptPanelProps {
+  summaryId: string;
+  videoUrl: string;
+  // Already loaded by the page, e.g. from a share link, so nothing is fetched
+  preloadedSegments?: TranscriptSegment[] | null;
+}
+
+const highlight = (text: string, query: string) => {
+  if (!query) return text;
+
+  const parts = text.split(new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi"));
+  return parts.map((part, index) =>
+    part.toLowerCase() === query.toLowerCase() ? (
+      <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    ),
+  );
+};
+
+export const TranscriptPanel = ({ summaryId, videoUrl, preloadedSegments }: TranscriptPanelProps) => {
+  const [segments, setSegments] = useState<TranscriptSegment[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    if (preloadedSegments !== undefined) {
+      setSegments(preloadedSegments);
+      setIsLoading(false);
+      return;
+    }
+
+    const loadTranscript = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from("transcripts")
+        .select("segments")
+        .eq("summary_id", summaryId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error loading transcript:", error);
+        setSegments(null);
+      } else {
+        setSegments((data?.segments as unknown as TranscriptSegment[]) ?? null);
+      }
+      setIsLoading(false);
+    };
+
+    loadTranscript();
+  }, [summaryId, preloadedSegments]);
+
+  const trimmedQuery = query.trim();
+
+  const visibleSegments = useMemo(() => {
+    if (!segments) return [];
+    if (!trimmedQuery) return segments;
+    const needle = trimmedQuery.toLowerCase();
+    return segments.filter((segment) => segment.text.toLowerCase().includes(needle));
+  }, [segments, trimmedQuery]);
+
+  if (isLoading) {
+    return (
+      <Card className="p-6 mb-8 flex items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </Card>
+    );
+  }
+
+  if (!segments || segments.length === 0) return null;
+
+  return (
+    <Card className="p-6 mb-8 shadow-lg animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-bold">Transcript</h2>
+        </div>
+        <div className="relative md:w-72">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Search transcript..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      {trimmedQuery && (
+        <p className="text-xs text-muted-foreground mb-2">
+          {visibleSegments.length} {visibleSegments.length === 1 ? "match" : "matches"}
+        </p>
+      )}
+
+      <ScrollArea className="h-80 pr-4">
+        <ul className="space-y-1">
+          {visibleSegments.map((segment, index) => {
+            const link = buildTimestampLink(videoUrl, segment.start_ms / 1000);
+            return (
+              <li key={`${segment.start_ms}-${index}`} className="flex gap-3 text-sm leading-relaxed">
+                {link ? (
+                  <a
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="shrink-0 w-16 font-mono text-primary hover:underline"
+                  >
+                    {formatTimestamp(segment.start_ms)}
+                  </a>
+                ) : (
+                  <span className="shrink-0 w-16 font-mono text-muted-foreground">
+                    {formatTimestamp(segment.start_ms)}
+                  </span>
+                )}
+                <span className="text-foreground">{highlight(segment.text, trimmedQuery)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </ScrollArea>
+    </Card>
+  );
+};
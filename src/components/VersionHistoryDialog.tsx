@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+import { diffLines, REVISION_KIND_LABELS, type RevisionKind } from "@/lib/summaryVersions";
+
+interface VersionHistoryDialogProps {
+  summary: { id: string; version: number; summary: string } | null;
+  canEdit: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (summary: Tables<"summaries">) => void;
+}
+
+const DIFF_STYLES = {
+  same: "text-muted-foreground",
+  added: "bg-green-500/10 text-green-700 dark:text-green-400",
+  removed: "bg-red-500/10 text-red-700 dark:text-red-400 line-through",
+} as const;
+
+const DIFF_MARKERS = { same: " ", added: "+", removed: "-" } as const;
+
+// Lists a summary's versions and compares any of them with the current one
+export const VersionHistoryDialog = ({ summary, canEdit, onOpenChange, onRestored }: VersionHistoryDialogProps) => {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["summary-versions", summary?.id, summary?.version],
+    enabled: !!summary,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("summary_versions")
+        .select("*")
+        .eq("summary_id", summary!.id)
+        .order("version", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const selected =
+    versions.find((version) => version.version === selectedVersion) ??
+    versions.find((version) => version.version !== summary?.version) ??
+    null;
+
+  const handleRestore = async () => {
+    if (!summary || !selected) return;
+
+    setIsRestoring(true);
+    const { data, error } = await supabase
+      .from("summaries")
+      .update({
+        summary: selected.summary,
+        structured_summary: selected.structured_summary,
+        section_authors: selected.section_authors,
+        revision_kind: "restored",
+      })
+      .eq("id", summary.id)
+      .eq("version", summary.version)
+      .select("*")
+      .maybeSingle();
+    setIsRestoring(false);
+
+    if (error) {
+      console.error("Error restoring version:", error);
+      toast.error("Failed to restore version");
+      return;
+    }
+    if (!data) {
+      toast.error("This summary changed in the meantime. Reopen the history and try again.");
+      return;
+    }
+
+    toast.success(`Restored version ${selected.version} as version ${data.version}`);
+    setSelectedVersion(null);
+    onRestored(data);
+  };
+
+  return (
+    <Dialog
+      open={!!summary}
+      onOpenChange={(open) => {
+        if (!open) setSelectedVersion(null);
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every edit, regeneration and restore is kept. Pick a version to compare it with the current one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+            <ScrollArea className="h-96 pr-2">
+              <div className="space-y-1">
+                {versions.map((version) => {
+                  const isCurrent = version.version === summary?.version;
+                  return (
+                    <button
+                      key={version.id}
+                      type="button"
+                      disabled={isCurrent}
+                      onClick={() => setSelectedVersion(version.version)}
+                      className={cn(
+                        "w-full rounded-md px-3 py-2 text-left text-sm transition-colors",
+                        selected?.id === version.id ? "bg-primary/10" : "hover:bg-muted",
+                        isCurrent && "cursor-default",
+                      )}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">Version {version.version}</span>
+                        {isCurrent && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            Current
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {REVISION_KIND_LABELS[version.kind as RevisionKind] ?? version.kind} ·{" "}
+                        {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            <div className="min-w-0">
+              {selected && summary ? (
+                <>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-muted-foreground">
+                      Changes from version {selected.version} to the current version {summary.version}
+                    </p>
+                    {canEdit && (
+                      <Button size="sm" variant="outline" onClick={handleRestore} disabled={isRestoring}>
+                        {isRestoring ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        Restore version {selected.version}
+                      </Button>
+                    )}
+                  </div>
+                  <ScrollArea className="h-96 rounded-md border border-border">
+                    <pre className="p-3 text-xs leading-relaxed whitespace-pre-wrap font-mono">
+                      {diffLines(selected.summary, summary.summary).map((line, index) => (
+                        <div key={index} className={DIFF_STYLES[line.kind]}>
+                          {DIFF_MARKERS[line.kind]} {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  </ScrollArea>
+                </>
+              ) : (
+                <p className="py-8 text-center text-sm text-muted-foreground">This summary has only one version so far.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,285 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, MessageSquare, Plus, Send } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/use-auth";
+import { parseTimestamp } from "@/lib/youtube";
+import { buildTimestampLink } from "@/lib/sources";
+import { invokeFunction } from "@/lib/functions";
+
+interface ChatThread {
+  id: string;
+  title: string | null;
+  updated_at: string;
+}
+
+interface ChatMessage {
+  id: string;
+  role: string;
+  content: string;
+  citations: Json;
+  grounded: boolean;
+  created_at: string;
+}
+
+interface VideoChatProps {
+  summaryId: string;
+  videoUrl: string;
+  // Opened through a share link: questions are authorized by the link, and the
+  // page already knows whether a transcript exists
+  share?: { token: string; password?: string; hasTranscript: boolean };
+}
+
+// Turns the [m:ss] citations in an answer into links into the video
+const renderWithCitations = (content: string, videoUrl: string) =>
+  content.split(/(\[(?:\d+:)?\d{1,2}:\d{2}\])/g).map((part, index) => {
+    const timestamp = part.match(/^\[((?:\d+:)?\d{1,2}:\d{2})\]$/)?.[1];
+    const seconds = timestamp ? parseTimestamp(timestamp) : null;
+    const link = seconds !== null ? buildTimestampLink(videoUrl, seconds) : null;
+
+    if (!timestamp) return part;
+    if (!link) {
+      return (
+        <span key={index} className="font-mono text-xs text-primary">
+          {part}
+        </span>
+      );
+    }
+    return (
+      <a
+        key={index}
+        href={link}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono text-xs text-primary hover:underline"
+      >
+        {part}
+      </a>
+    );
+  });
+
+export const VideoChat = ({ summaryId, videoUrl, share }: VideoChatProps) => {
+  const { user } = useAuth();
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [hasTranscript, setHasTranscript] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const userId = user?.id;
+
+  // Answers come from the stored transcript; without one there is nothing to ask
+  const knownTranscript = share?.hasTranscript;
+
+  useEffect(() => {
+    if (knownTranscript !== undefined) {
+      setHasTranscript(knownTranscript);
+      return;
+    }
+    setHasTranscript(false);
+
+    const checkTranscript = async () => {
+      const { count, error } = await supabase
+        .from("transcripts")
+        .select("id", { count: "exact", head: true })
+        .eq("summary_id", summaryId);
+
+      if (error) console.error("Error checking transcript:", error);
+      setHasTranscript(!!count);
+    };
+
+    checkTranscript();
+  }, [summaryId, knownTranscript]);
+
+  // The caller's threads about this summary, most recent first
+  useEffect(() => {
+    setThreads([]);
+    setThreadId(null);
+    setMessages([]);
+    if (!userId) return;
+
+    const loadThreads = async () => {
+      const { data, error } = await supabase
+        .from("chat_threads")
+        .select("id, title, updated_at")
+        .eq("summary_id", summaryId)
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false });
+
+      if (error) {
+        console.error("Error loading conversations:", error);
+        return;
+      }
+      setThreads(data || []);
+      setThreadId(data?.[0]?.id ?? null);
+    };
+
+    loadThreads();
+  }, [summaryId, userId]);
+
+  useEffect(() => {
+    if (!threadId) {
+      setMessages([]);
+      return;
+    }
+
+    const loadMessages = async () => {
+      const { data, error } = await supabase
+        .from("chat_messages")
+        .select("*")
+        .eq("thread_id", threadId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error loading messages:", error);
+        return;
+      }
+      setMessages(data || []);
+    };
+
+    loadMessages();
+  }, [threadId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    const text = question.trim();
+    if (!text || isSending) return;
+
+    setIsSending(true);
+    try {
+      const data = await invokeFunction<{ threadId: string; messages: ChatMessage[] }>("chat-with-video", {
+        summaryId,
+        threadId,
+        shareToken: share?.token,
+        sharePassword: share?.password,
+        question: text,
+      });
+
+      setQuestion("");
+      setMessages((current) => [...current, ...data.messages]);
+      if (data.threadId !== threadId) {
+        setThreads((current) => [{ id: data.threadId, title: text, updated_at: new Date().toISOString() }, ...current]);
+        setThreadId(data.threadId);
+      }
+    } catch (err) {
+      console.error("Error asking question:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to get an answer. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!hasTranscript) return null;
+
+  if (!user) {
+    return (
+      <Card className="p-6 mb-8 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <MessageSquare className="w-5 h-5 text-primary" />
+          <span>Sign in to ask questions about this video.</span>
+        </div>
+        <Button asChild variant="outline" size="sm">
+          <Link to="/auth">Sign in</Link>
+        </Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <MessageSquare className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold">Ask the video</h3>
+        <div className="ml-auto flex items-center gap-2">
+          {threads.length > 1 && (
+            <Select value={threadId ?? undefined} onValueChange={setThreadId}>
+              <SelectTrigger className="w-[200px] h-8 text-xs">
+                <SelectValue placeholder="Conversation" />
+              </SelectTrigger>
+              <SelectContent>
+                {threads.map((thread) => (
+                  <SelectItem key={thread.id} value={thread.id} className="text-xs">
+                    {thread.title || new Date(thread.updated_at).toLocaleString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {threadId && (
+            <Button variant="ghost" size="sm" onClick={() => setThreadId(null)} disabled={isSending}>
+              <Plus className="h-4 w-4 mr-1" />
+              New chat
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {messages.length > 0 ? (
+        <ScrollArea className="h-80 rounded-md border border-border mb-4">
+          <div className="p-4 space-y-3">
+            {messages.map((message) => (
+              <div key={message.id} className={message.role === "user" ? "flex justify-end" : "flex justify-start"}>
+                <div
+                  className={
+                    message.role === "user"
+                      ? "max-w-[80%] rounded-lg bg-primary text-primary-foreground px-3 py-2 text-sm"
+                      : message.grounded
+                        ? "max-w-[80%] rounded-lg bg-muted px-3 py-2 text-sm whitespace-pre-wrap leading-relaxed"
+                        : "max-w-[80%] rounded-lg border border-dashed border-border px-3 py-2 text-sm text-muted-foreground"
+                  }
+                >
+                  {message.role === "assistant" ? renderWithCitations(message.content, videoUrl) : message.content}
+                </div>
+              </div>
+            ))}
+            {isSending && (
+              <div className="flex justify-start">
+                <div className="rounded-lg bg-muted px-3 py-2">
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                </div>
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+        </ScrollArea>
+      ) : (
+        <p className="text-sm text-muted-foreground mb-4">
+          Ask a follow-up question. Answers come only from this video's transcript and cite where in the video they
+          come from.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="What does the speaker say about...?"
+          className="min-h-[44px] resize-none"
+          rows={1}
+          disabled={isSending}
+        />
+        <Button onClick={handleSend} disabled={isSending || !question.trim()} className="h-auto">
+          {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,59 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { WorkspaceContext, type Workspace, type WorkspaceRole } from "@/hooks/use-workspace";
+
+const STORAGE_KEY = "current-workspace";
+
+// Loads the signed-in user's workspaces and remembers which one they picked
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+
+  const { data: workspaces = [], isLoading } = useQuery({
+    queryKey: ["workspaces", userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("workspace_members")
+        .select("role, created_at, workspaces(id, name)")
+        .eq("user_id", userId!)
+        .order("created_at");
+
+      if (error) throw error;
+      return (data || []).flatMap((membership): Workspace[] =>
+        membership.workspaces
+          ? [{ id: membership.workspaces.id, name: membership.workspaces.name, role: membership.role as WorkspaceRole }]
+          : [],
+      );
+    },
+  });
+
+  // Fall back to the oldest membership, normally the personal workspace
+  const currentWorkspace = workspaces.find((workspace) => workspace.id === selectedId) ?? workspaces[0] ?? null;
+  const currentWorkspaceId = currentWorkspace?.id;
+
+  useEffect(() => {
+    if (currentWorkspaceId) localStorage.setItem(STORAGE_KEY, currentWorkspaceId);
+  }, [currentWorkspaceId]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["workspaces", userId] });
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        currentWorkspace,
+        isLoading: !!userId && isLoading,
+        canEdit: currentWorkspace?.role === "owner" || currentWorkspace?.role === "editor",
+        selectWorkspace: setSelectedId,
+        refresh,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Check, ChevronsUpDown, Plus, Settings, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SidebarMenu, SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar";
+import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace, WORKSPACE_ROLE_LABELS } from "@/hooks/use-workspace";
+
+export function WorkspaceSwitcher() {
+  const { workspaces, currentWorkspace, selectWorkspace, refresh } = useWorkspace();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const { data, error } = await supabase.rpc("create_workspace", { workspace_name: name.trim() });
+    setIsCreating(false);
+
+    if (error) {
+      console.error("Error creating workspace:", error);
+      toast.error(error.message || "Failed to create workspace");
+      return;
+    }
+
+    await refresh();
+    selectWorkspace(data);
+    setIsCreateOpen(false);
+    setName("");
+    toast.success("Workspace created");
+  };
+
+  return (
+    <>
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarMenuButton size="lg" className="data-[state=open]:bg-sidebar-accent">
+                <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                  <Users className="size-4" />
+                </div>
+                <div className="grid flex-1 text-left text-sm leading-tight">
+                  <span className="truncate font-semibold">{currentWorkspace?.name ?? "Loading..."}</span>
+                  {currentWorkspace && (
+                    <span className="truncate text-xs text-muted-foreground">
+                      {WORKSPACE_ROLE_LABELS[currentWorkspace.role]}
+                    </span>
+                  )}
+                </div>
+                <ChevronsUpDown className="ml-auto size-4" />
+              </SidebarMenuButton>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-[--radix-dropdown-menu-trigger-width] min-w-56" align="start">
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Workspaces</DropdownMenuLabel>
+              {workspaces.map((workspace) => (
+                <DropdownMenuItem key={workspace.id} onSelect={() => selectWorkspace(workspace.id)}>
+                  <span className="flex-1 truncate">{workspace.name}</span>
+                  {workspace.id === currentWorkspace?.id && <Check className="ml-2 h-4 w-4" />}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setIsCreateOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New workspace
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link to="/workspace">
+                  <Settings className="mr-2 h-4 w-4" />
+                  Members and invites
+                </Link>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </SidebarMenuItem>
+      </SidebarMenu>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              A shared library for your team. You can invite people once it's created.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) handleCreate();
+            }}
+          >
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Research team" autoFocus />
+            <DialogFooter className="mt-4">
+              <Button type="submit" disabled={!name.trim() || isCreating}>
+                Create workspace
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
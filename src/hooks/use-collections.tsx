@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Every collection in the workspace; the tree is built from parent_id
+export function useCollections(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: ["collections", workspaceId],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("collections")
+        .select("id, parent_id, name, description, share_token, share_expires_at, share_view_count, created_at")
+        .eq("workspace_id", workspaceId!)
+        .order("name");
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useRealtimeTable } from "@/hooks/use-realtime";
+import { isActiveJob } from "@/lib/summarizeJobs";
+
+// Realtime pushes every update; polling only covers a dropped connection
+const JOB_POLL_INTERVAL_MS = 10000;
+
+// Follows a background job until it succeeds or fails
+export function useJob(jobId: string | null) {
+  const queryClient = useQueryClient();
+
+  useRealtimeTable({
+    table: "jobs",
+    filter: `id=eq.${jobId}`,
+    enabled: !!jobId,
+    onChange: (payload) => {
+      if (payload.eventType === "UPDATE") queryClient.setQueryData(["job", jobId], payload.new);
+    },
+  });
+
+  return useQuery({
+    queryKey: ["job", jobId],
+    enabled: !!jobId,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("jobs").select("*").eq("id", jobId!).single();
+      if (error) throw error;
+      return data;
+    },
+    refetchInterval: (query) => (isActiveJob(query.state.data) ? JOB_POLL_INTERVAL_MS : false),
+  });
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+type TableName = "jobs" | "summaries" | "summary_batches" | "summary_batch_items";
+
+interface RealtimeOptions<T extends TableName> {
+  table: T;
+  // PostgREST-style filter such as "user_id=eq.<id>"; rows are also limited by RLS
+  filter?: string;
+  enabled?: boolean;
+  onChange: (payload: RealtimePostgresChangesPayload<Tables<T>>) => void;
+}
+
+// Subscribes to inserts, updates and deletes on a table for as long as the
+// component is mounted. The latest onChange is always used, so callers can
+// pass an inline function without resubscribing on every render.
+export function useRealtimeTable<T extends TableName>({ table, filter, enabled = true, onChange }: RealtimeOptions<T>) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Unique topic: the client hands back an existing channel for a repeated name
+    const channel = supabase
+      .channel(`realtime:${table}:${filter ?? "all"}:${crypto.randomUUID()}`)
+      .on<Tables<T>>("postgres_changes", { event: "*", schema: "public", table, filter }, (payload) =>
+        onChangeRef.current(payload),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, enabled]);
+}
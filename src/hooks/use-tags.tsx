@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Every tag in the workspace, for autocomplete and filters
+export function useWorkspaceTags(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: ["tags", workspaceId],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tags")
+        .select("id, name")
+        .eq("workspace_id", workspaceId!)
+        .order("name");
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// The tags on one summary, with whether each came from an AI suggestion
+export function useSummaryTags(summaryId: string | undefined) {
+  return useQuery({
+    queryKey: ["summary-tags", summaryId],
+    enabled: !!summaryId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("summary_tags")
+        .select("source, tags(id, name)")
+        .eq("summary_id", summaryId!)
+        .order("created_at");
+
+      if (error) throw error;
+      return (data || []).flatMap((row) => (row.tags ? [{ ...row.tags, source: row.source }] : []));
+    },
+  });
+}
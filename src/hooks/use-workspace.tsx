@@ -0,0 +1,36 @@
+import { createContext, useContext } from "react";
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceContextValue {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  isLoading: boolean;
+  // Editors and owners can add, regenerate and change summaries
+  canEdit: boolean;
+  selectWorkspace: (id: string) => void;
+  refresh: () => Promise<void>;
+}
+
+export const WorkspaceContext = createContext<WorkspaceContextValue | undefined>(undefined);
+
+// The workspace picked in the sidebar; pages scope their queries to it
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("useWorkspace must be used within a WorkspaceProvider");
+  }
+  return context;
+}
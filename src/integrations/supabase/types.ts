@@ -14,27 +14,918 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          cost_usd: number | null
+          created_at: string
+          feature: string
+          id: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          provider: string
+          summary_id: string | null
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          feature: string
+          id?: string
+          latency_ms: number
+          model: string
+          prompt_tokens?: number
+          provider: string
+          summary_id?: string | null
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          feature?: string
+          id?: string
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          summary_id?: string | null
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          citations: Json
+          content: string
+          created_at: string
+          grounded: boolean
+          id: string
+          role: string
+          thread_id: string
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          created_at?: string
+          grounded?: boolean
+          id?: string
+          role: string
+          thread_id: string
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          created_at?: string
+          grounded?: boolean
+          id?: string
+          role?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          created_at: string
+          id: string
+          summary_id: string
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          summary_id: string
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          summary_id?: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_threads_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_summaries: {
+        Row: {
+          added_by: string | null
+          collection_id: string
+          created_at: string
+          summary_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          collection_id: string
+          created_at?: string
+          summary_id: string
+        }
+        Update: {
+          added_by?: string | null
+          collection_id?: string
+          created_at?: string
+          summary_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_summaries_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_summaries_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          share_expires_at: string | null
+          share_token: string | null
+          share_view_count: number
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          share_expires_at?: string | null
+          share_token?: string | null
+          share_view_count?: number
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          share_expires_at?: string | null
+          share_token?: string | null
+          share_view_count?: number
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collections_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collections_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          attempts: number
+          batch_item_id: string | null
+          created_at: string
+          error: string | null
+          error_code: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          locked_at: string | null
+          max_attempts: number
+          message: string | null
+          partial_output: string | null
+          payload: Json
+          progress: number
+          result: Json | null
+          retry_after_seconds: number | null
+          run_after: string
+          stage: string | null
+          status: string
+          summary_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          batch_item_id?: string | null
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          locked_at?: string | null
+          max_attempts?: number
+          message?: string | null
+          partial_output?: string | null
+          payload: Json
+          progress?: number
+          result?: Json | null
+          retry_after_seconds?: number | null
+          run_after?: string
+          stage?: string | null
+          status?: string
+          summary_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          batch_item_id?: string | null
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          locked_at?: string | null
+          max_attempts?: number
+          message?: string | null
+          partial_output?: string | null
+          payload?: Json
+          progress?: number
+          result?: Json | null
+          retry_after_seconds?: number | null
+          run_after?: string
+          stage?: string | null
+          status?: string
+          summary_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_batch_item_id_fkey"
+            columns: ["batch_item_id"]
+            isOneToOne: false
+            referencedRelation: "summary_batch_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_counters: {
+        Row: {
+          bucket: string
+          hits: number
+          window_start: string
+        }
+        Insert: {
+          bucket: string
+          hits?: number
+          window_start: string
+        }
+        Update: {
+          bucket?: string
+          hits?: number
+          window_start?: string
+        }
+        Relationships: []
+      }
       summaries: {
         Row: {
+          channel_name: string | null
+          completion_tokens: number | null
+          cost_usd: number | null
           created_at: string
           id: string
+          latency_ms: number | null
+          model: string | null
+          prompt_tokens: number | null
+          revision_kind: string
+          search_vector: unknown
+          section_authors: Json
+          source: string
+          structured_summary: Json | null
+          style: string
+          suggested_tags: string[]
           summary: string
+          transcript_language: string | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string | null
+          version: number
+          video_id: string | null
           video_title: string | null
           video_url: string
+          workspace_id: string | null
         }
         Insert: {
+          channel_name?: string | null
+          completion_tokens?: number | null
+          cost_usd?: number | null
           created_at?: string
           id?: string
+          latency_ms?: number | null
+          model?: string | null
+          prompt_tokens?: number | null
+          revision_kind?: string
+          search_vector?: unknown
+          section_authors?: Json
+          source?: string
+          structured_summary?: Json | null
+          style?: string
+          suggested_tags?: string[]
           summary: string
+          transcript_language?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+          version?: number
+          video_id?: string | null
           video_title?: string | null
           video_url: string
+          workspace_id?: string | null
         }
         Update: {
+          channel_name?: string | null
+          completion_tokens?: number | null
+          cost_usd?: number | null
           created_at?: string
           id?: string
+          latency_ms?: number | null
+          model?: string | null
+          prompt_tokens?: number | null
+          revision_kind?: string
+          search_vector?: unknown
+          section_authors?: Json
+          source?: string
+          structured_summary?: Json | null
+          style?: string
+          suggested_tags?: string[]
           summary?: string
+          transcript_language?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+          version?: number
+          video_id?: string | null
           video_title?: string | null
           video_url?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summaries_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_batch_items: {
+        Row: {
+          batch_id: string
+          created_at: string
+          error: string | null
+          id: string
+          position: number
+          status: string
+          summary_id: string | null
+          updated_at: string
+          video_id: string
+          video_title: string | null
+          video_url: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          position: number
+          status?: string
+          summary_id?: string | null
+          updated_at?: string
+          video_id: string
+          video_title?: string | null
+          video_url: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          position?: number
+          status?: string
+          summary_id?: string | null
+          updated_at?: string
+          video_id?: string
+          video_title?: string | null
+          video_url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_batch_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "summary_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "summary_batch_items_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_batches: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          kind: string
+          requested_model: string | null
+          series_summary: string | null
+          source_url: string
+          status: string
+          structured_series_summary: Json | null
+          style: string
+          title: string
+          truncated: boolean
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind: string
+          requested_model?: string | null
+          series_summary?: string | null
+          source_url: string
+          status?: string
+          structured_series_summary?: Json | null
+          style?: string
+          title: string
+          truncated?: boolean
+          updated_at?: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind?: string
+          requested_model?: string | null
+          series_summary?: string | null
+          source_url?: string
+          status?: string
+          structured_series_summary?: Json | null
+          style?: string
+          title?: string
+          truncated?: boolean
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_batches_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_embeddings: {
+        Row: {
+          content: string
+          created_at: string
+          embedding: string
+          end_ms: number | null
+          id: string
+          kind: string
+          model: string
+          start_ms: number | null
+          summary_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          embedding: string
+          end_ms?: number | null
+          id?: string
+          kind: string
+          model: string
+          start_ms?: number | null
+          summary_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          embedding?: string
+          end_ms?: number | null
+          id?: string
+          kind?: string
+          model?: string
+          start_ms?: number | null
+          summary_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_embeddings_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_index_state: {
+        Row: {
+          error: string | null
+          indexed_at: string
+          model: string
+          summary_id: string
+          version: number
+        }
+        Insert: {
+          error?: string | null
+          indexed_at?: string
+          model: string
+          summary_id: string
+          version: number
+        }
+        Update: {
+          error?: string | null
+          indexed_at?: string
+          model?: string
+          summary_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_index_state_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: true
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_shares: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          last_viewed_at: string | null
+          legacy_until: string | null
+          password_hash: string | null
+          revoked_at: string | null
+          summary_id: string
+          token: string
+          view_count: number
+          visibility: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          last_viewed_at?: string | null
+          legacy_until?: string | null
+          password_hash?: string | null
+          revoked_at?: string | null
+          summary_id: string
+          token?: string
+          view_count?: number
+          visibility?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          last_viewed_at?: string | null
+          legacy_until?: string | null
+          password_hash?: string | null
+          revoked_at?: string | null
+          summary_id?: string
+          token?: string
+          view_count?: number
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_shares_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          source: string
+          summary_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          source?: string
+          summary_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          source?: string
+          summary_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_tags_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "summary_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          section_authors: Json
+          structured_summary: Json | null
+          summary: string
+          summary_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          section_authors?: Json
+          structured_summary?: Json | null
+          summary: string
+          summary_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          section_authors?: Json
+          structured_summary?: Json | null
+          summary?: string
+          summary_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_versions_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcripts: {
+        Row: {
+          created_at: string
+          id: string
+          segments: Json
+          summary_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          segments?: Json
+          summary_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          segments?: Json
+          summary_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcripts_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: true
+            referencedRelation: "summaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invites: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          role: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          role?: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          role?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          monthly_budget_usd: number | null
+          name: string
+          plan: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          monthly_budget_usd?: number | null
+          name: string
+          plan?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          monthly_budget_usd?: number | null
+          name?: string
+          plan?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -43,7 +934,203 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_workspace_invite: {
+        Args: {
+          invite_token: string
+        }
+        Returns: string
+      }
+      claim_next_job: {
+        Args: {
+          stale_after_seconds?: number
+        }
+        Returns: {
+          attempts: number
+          batch_item_id: string | null
+          created_at: string
+          error: string | null
+          error_code: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          locked_at: string | null
+          max_attempts: number
+          message: string | null
+          partial_output: string | null
+          payload: Json
+          progress: number
+          result: Json | null
+          retry_after_seconds: number | null
+          run_after: string
+          stage: string | null
+          status: string
+          summary_id: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      create_summary_share: {
+        Args: {
+          share_expires_at?: string
+          share_password?: string
+          share_visibility: string
+          target_summary: string
+        }
+        Returns: string
+      }
+      create_workspace: {
+        Args: {
+          workspace_name: string
+        }
+        Returns: string
+      }
+      has_workspace_role: {
+        Args: {
+          min_role?: string
+          ws: string
+        }
+        Returns: boolean
+      }
+      hit_rate_limit: {
+        Args: {
+          bucket: string
+          max_hits: number
+          window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      match_summary_embeddings: {
+        Args: {
+          embedding_model: string
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+          target_workspace: string
+        }
+        Returns: {
+          channel_name: string
+          content: string
+          created_at: string
+          end_ms: number
+          kind: string
+          similarity: number
+          start_ms: number
+          summary_id: string
+          video_title: string
+          video_url: string
+        }[]
+      }
+      refund_rate_limit: {
+        Args: {
+          bucket: string
+          hit_at?: string
+          window_seconds: number
+        }
+        Returns: undefined
+      }
+      resolve_collection_share: {
+        Args: {
+          share_token: string
+        }
+        Returns: Json
+      }
+      resolve_share: {
+        Args: {
+          count_view?: boolean
+          share_password?: string
+          share_token: string
+        }
+        Returns: Json
+      }
+      share_collection: {
+        Args: {
+          share_expires_at?: string
+          target_collection: string
+        }
+        Returns: string
+      }
+      summaries_to_index: {
+        Args: {
+          embedding_model: string
+          max_count?: number
+        }
+        Returns: {
+          summary_id: string
+          version: number
+        }[]
+      }
+      summary_channels: {
+        Args: {
+          target_workspace: string
+        }
+        Returns: {
+          channel_name: string
+        }[]
+      }
+      tag_summary: {
+        Args: {
+          tag_name: string
+          tag_source?: string
+          target_summary: string
+        }
+        Returns: string
+      }
+      take_rate_limit: {
+        Args: {
+          bucket: string
+          max_hits: number
+          wanted: number
+          window_seconds: number
+        }
+        Returns: {
+          granted: number
+          retry_after_seconds: number
+        }[]
+      }
+      unshare_collection: {
+        Args: {
+          target_collection: string
+        }
+        Returns: undefined
+      }
+      workspace_member_list: {
+        Args: {
+          target_workspace: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+        }[]
+      }
+      workspace_month_spend: {
+        Args: {
+          target_workspace: string
+        }
+        Returns: number
+      }
+      workspace_usage: {
+        Args: {
+          period_end: string
+          period_start: string
+          target_workspace: string
+        }
+        Returns: {
+          calls: number
+          completion_tokens: number
+          cost_usd: number
+          day: string
+          model: string
+          prompt_tokens: number
+          provider: string
+          user_id: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
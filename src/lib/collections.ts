@@ -0,0 +1,68 @@
+import type { SharedSummary } from "@/lib/shares";
+
+export interface CollectionNode {
+  id: string;
+  parent_id: string | null;
+  name: string;
+}
+
+// Collections in display order: each one followed by its children, with its
+// depth for indenting. Collections whose parent is missing are shown at the top.
+export function flattenCollectionTree<T extends CollectionNode>(collections: T[]): (T & { depth: number })[] {
+  const ids = new Set(collections.map((collection) => collection.id));
+  const children = new Map<string | null, T[]>();
+  for (const collection of collections) {
+    const parent = collection.parent_id && ids.has(collection.parent_id) ? collection.parent_id : null;
+    children.set(parent, [...(children.get(parent) ?? []), collection]);
+  }
+
+  const ordered: (T & { depth: number })[] = [];
+  const visit = (parent: string | null, depth: number) => {
+    const siblings = [...(children.get(parent) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    for (const collection of siblings) {
+      ordered.push({ ...collection, depth });
+      visit(collection.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return ordered;
+}
+
+// The collection and its ancestors, outermost first
+export function collectionPath<T extends CollectionNode>(collections: T[], id: string): T[] {
+  const byId = new Map(collections.map((collection) => [collection.id, collection]));
+  const path: T[] = [];
+  let current = byId.get(id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+// A collection and everything nested in it, e.g. to rule them out as its new parent
+export function descendantIds(collections: CollectionNode[], id: string): Set<string> {
+  const found = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const collection of collections) {
+      if (collection.parent_id && found.has(collection.parent_id) && !found.has(collection.id)) {
+        found.add(collection.id);
+        grew = true;
+      }
+    }
+  }
+  return found;
+}
+
+export const buildCollectionShareUrl = (token: string) => `${window.location.origin}/c/${token}`;
+
+// What resolve_collection_share() answers for a live link
+export interface SharedCollection {
+  name: string;
+  description: string | null;
+  // Only summaries with a public or unlisted link of their own are listed
+  summaries: SharedSummary[];
+  hidden_count: number;
+}
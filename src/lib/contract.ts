@@ -0,0 +1,3 @@
+// The API contract shared with the edge functions. Its zod import is the URL
+// Deno needs; vite.config.ts and tsconfig map it to the zod package.
+export * from "../../supabase/functions/_shared/contract.ts";
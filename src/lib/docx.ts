@@ -0,0 +1,166 @@
+import type { ExportBlock, ExportDocument, ExportSpan } from "@/lib/exports";
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Uncompressed zip with every entry dated 1980-01-01, so the same input always
+// yields the same bytes
+export function buildZip(files: { path: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+  const UTF8_NAMES = 1 << 11;
+
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (out: number[], value: number) => out.push(value & 0xff, (value >>> 8) & 0xff);
+  const u32 = (out: number[], value: number) => {
+    u16(out, value & 0xffff);
+    u16(out, value >>> 16);
+  };
+  const append = (out: number[], bytes: Uint8Array) => {
+    for (const byte of bytes) out.push(byte);
+  };
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+    const offset = local.length;
+
+    u32(local, 0x04034b50);
+    u16(local, 20);
+    u16(local, UTF8_NAMES);
+    u16(local, 0);
+    u16(local, 0);
+    u16(local, DOS_DATE);
+    u32(local, crc);
+    u32(local, data.length);
+    u32(local, data.length);
+    u16(local, name.length);
+    u16(local, 0);
+    append(local, name);
+    append(local, data);
+
+    u32(central, 0x02014b50);
+    u16(central, 20);
+    u16(central, 20);
+    u16(central, UTF8_NAMES);
+    u16(central, 0);
+    u16(central, 0);
+    u16(central, DOS_DATE);
+    u32(central, crc);
+    u32(central, data.length);
+    u32(central, data.length);
+    u16(central, name.length);
+    u16(central, 0);
+    u16(central, 0);
+    u16(central, 0);
+    u16(central, 0);
+    u32(central, 0);
+    u32(central, offset);
+    append(central, name);
+  }
+
+  const end: number[] = [];
+  u32(end, 0x06054b50);
+  u16(end, 0);
+  u16(end, 0);
+  u16(end, files.length);
+  u16(end, files.length);
+  u32(end, central.length);
+  u32(end, local.length);
+  u16(end, 0);
+
+  return Uint8Array.from(local.concat(central, end));
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`;
+
+// Bullets and checkboxes are literal characters, which avoids a numbering part
+const LIST_MARKERS: Partial<Record<ExportBlock["type"], string>> = { bullet: "•\t", todo: "☐\t" };
+
+export function buildDocx(doc: ExportDocument): Uint8Array {
+  const links: string[] = [];
+
+  const run = (span: ExportSpan, style?: string) => {
+    const props = [style ? `<w:rStyle w:val="${style}"/>` : "", span.bold ? "<w:b/>" : ""].join("");
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(span.text)}</w:t></w:r>`;
+  };
+
+  const paragraph = (block: ExportBlock) => {
+    const style =
+      block.type === "heading" ? `Heading${block.level}` : block.type === "paragraph" ? null : "ListParagraph";
+    const marker = LIST_MARKERS[block.type];
+    const runs = block.spans.map((span) => {
+      if (!span.link) return run(span);
+      links.push(span.link);
+      return `<w:hyperlink r:id="rLink${links.length}">${run(span, "Hyperlink")}</w:hyperlink>`;
+    });
+    const tabs = marker ? `<w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs>` : "";
+    const props = style ? `<w:pPr><w:pStyle w:val="${style}"/>${tabs}</w:pPr>` : "";
+    return `<w:p>${props}${marker ? run({ text: marker }) : ""}${runs.join("")}</w:p>`;
+  };
+
+  const body = doc.blocks.map(paragraph);
+  if (doc.url) {
+    links.push(doc.url);
+    body.splice(1, 0, `<w:p><w:hyperlink r:id="rLink${links.length}">${run({ text: doc.url }, "Hyperlink")}</w:hyperlink></w:p>`);
+  }
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<w:body>${body.join("")}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+${links
+  .map(
+    (link, index) =>
+      `<Relationship Id="rLink${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(link)}" TargetMode="External"/>`,
+  )
+  .join("\n")}
+</Relationships>`;
+
+  return buildZip([
+    { path: "[Content_Types].xml", content: CONTENT_TYPES },
+    { path: "_rels/.rels", content: PACKAGE_RELS },
+    { path: "word/document.xml", content: document },
+    { path: "word/_rels/document.xml.rels", content: documentRels },
+    { path: "word/styles.xml", content: STYLES },
+  ]);
+}
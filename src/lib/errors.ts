@@ -0,0 +1,37 @@
+import { ERROR_CODES, type ErrorCode } from "@/lib/contract";
+import { FunctionError } from "@/lib/functions";
+
+// A failed request or job, as shown in the error card
+export interface Failure {
+  code: ErrorCode;
+  message: string;
+  // When the server asked to wait before retrying, as a timestamp in ms
+  retryAt: number | null;
+}
+
+export function toErrorCode(value: unknown): ErrorCode {
+  return ERROR_CODES.includes(value as ErrorCode) ? (value as ErrorCode) : "internal_error";
+}
+
+const retryAtFrom = (seconds: number | null | undefined) => (seconds ? Date.now() + seconds * 1000 : null);
+
+export function failureFromError(error: unknown, fallback: string): Failure {
+  if (error instanceof FunctionError) {
+    // Rate limits always come with a wait, even if the header got lost on the way
+    const retryAfterSeconds = error.retryAfterSeconds ?? (error.status === 429 ? 60 : null);
+    return { code: toErrorCode(error.code), message: error.message, retryAt: retryAtFrom(retryAfterSeconds) };
+  }
+  return { code: "internal_error", message: error instanceof Error ? error.message : fallback, retryAt: null };
+}
+
+export function failureFromJob(job: {
+  error: string | null;
+  error_code: string | null;
+  retry_after_seconds: number | null;
+}): Failure {
+  return {
+    code: toErrorCode(job.error_code),
+    message: job.error || "Failed to summarize video",
+    retryAt: retryAtFrom(job.retry_after_seconds),
+  };
+}
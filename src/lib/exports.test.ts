@@ -0,0 +1,260 @@
+import { describe, expect, it } from "vitest";
+import { buildExportDocument, exportFilename, exportSummary, toMarkdown, toNotionBlocks, type ExportableSummary } from "@/lib/exports";
+
+const structuredSummary: ExportableSummary = {
+  video_url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+  video_title: 'Rust "ownership" in 10 minutes',
+  summary: "",
+  structured_summary: {
+    title: "Ownership",
+    tldr: "Every value has one owner.",
+    key_points: [
+      { text: "Moves transfer ownership", timestamp: "1:23" },
+      { text: "Borrowing with `&` and *mut*", timestamp: "1:02:03" },
+      { text: "No timestamp here", timestamp: null },
+    ],
+    takeaways: ["Prefer borrowing"],
+    action_items: ["Rewrite the parser", "Read chapter 4"],
+    topics: ["rust", "memory"],
+  },
+  created_at: "2025-03-04T23:30:00.000Z",
+};
+
+const plainSummary: ExportableSummary = {
+  video_url: "upload://user/talk.vtt",
+  video_title: null,
+  summary: "First paragraph.\n\nSecond paragraph\nstill second.\n\n",
+  structured_summary: null,
+  created_at: "2025-01-02T00:00:00.000Z",
+  tags: ["notes"],
+};
+
+// Entries of the uncompressed zips buildDocx writes, by path
+function readZip(bytes: Uint8Array): Record<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const nameStart = offset + 30;
+    const dataStart = nameStart + nameLength + extraLength;
+    entries[decoder.decode(bytes.subarray(nameStart, nameStart + nameLength))] = decoder.decode(
+      bytes.subarray(dataStart, dataStart + size),
+    );
+    offset = dataStart + size;
+  }
+  return entries;
+}
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+
+describe("buildExportDocument", () => {
+  it("links timestamps to the moment in a YouTube video", () => {
+    const doc = buildExportDocument(structuredSummary);
+    const bullets = doc.blocks.filter((block) => block.type === "bullet");
+
+    expect(bullets[0].spans[0]).toEqual({
+      text: "1:23",
+      link: "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=83s",
+      bold: false,
+    });
+    expect(bullets[1].spans[0].link).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=3723s");
+    expect(bullets[2].spans).toEqual([{ text: "No timestamp here" }]);
+  });
+
+  it("links timestamps in Vimeo videos and bolds them where there is nothing to link to", () => {
+    const vimeo = buildExportDocument({ ...structuredSummary, video_url: "https://vimeo.com/76979871" });
+    expect(vimeo.blocks.find((block) => block.type === "bullet")?.spans[0].link).toBe("https://vimeo.com/76979871#t=83s");
+
+    const upload = buildExportDocument({ ...structuredSummary, video_url: "upload://user/talk.vtt" });
+    expect(upload.url).toBeNull();
+    expect(upload.blocks.find((block) => block.type === "bullet")?.spans[0]).toEqual({
+      text: "1:23",
+      link: undefined,
+      bold: true,
+    });
+  });
+
+  it("uses the UTC day of creation and falls back to the summary's topics for tags", () => {
+    const doc = buildExportDocument(structuredSummary);
+    expect(doc.date).toBe("2025-03-04");
+    expect(doc.tags).toEqual(["rust", "memory"]);
+    expect(buildExportDocument({ ...structuredSummary, tags: [] }).tags).toEqual([]);
+  });
+});
+
+describe("toMarkdown", () => {
+  it("writes front matter and escapes Markdown in the content", () => {
+    expect(toMarkdown(buildExportDocument(structuredSummary))).toBe(
+      [
+        "---",
+        'title: "Rust \\"ownership\\" in 10 minutes"',
+        'url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ"',
+        "date: 2025-03-04",
+        "tags:",
+        '  - "rust"',
+        '  - "memory"',
+        "---",
+        "",
+        '# Rust "ownership" in 10 minutes',
+        "",
+        "**TL;DR:** Every value has one owner.",
+        "",
+        "## Key points",
+        "",
+        "- [1:23](https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=83s) Moves transfer ownership",
+        "- [1:02:03](https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=3723s) Borrowing with \\`&\\` and \\*mut\\*",
+        "- No timestamp here",
+        "",
+        "## Takeaways",
+        "",
+        "- Prefer borrowing",
+        "",
+        "## Action items",
+        "",
+        "- [ ] Rewrite the parser",
+        "- [ ] Read chapter 4",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps the paragraphs of summaries without structure", () => {
+    expect(toMarkdown(buildExportDocument(plainSummary))).toBe(
+      [
+        "---",
+        'title: "Video Summary"',
+        "date: 2025-01-02",
+        "tags:",
+        '  - "notes"',
+        "---",
+        "",
+        "# Video Summary",
+        "",
+        "First paragraph.",
+        "",
+        "Second paragraph\nstill second.",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("toNotionBlocks", () => {
+  it("writes Notion block objects with links and to-dos", () => {
+    const output = JSON.parse(toNotionBlocks(buildExportDocument(structuredSummary)));
+
+    expect(output).toMatchObject({
+      title: 'Rust "ownership" in 10 minutes',
+      url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      date: "2025-03-04",
+      tags: ["rust", "memory"],
+    });
+    expect(output.children.map((block: { type: string }) => block.type)).toEqual([
+      "heading_1",
+      "paragraph",
+      "heading_2",
+      "bulleted_list_item",
+      "bulleted_list_item",
+      "bulleted_list_item",
+      "heading_2",
+      "bulleted_list_item",
+      "heading_2",
+      "to_do",
+      "to_do",
+    ]);
+    expect(output.children[3].bulleted_list_item.rich_text).toEqual([
+      {
+        type: "text",
+        text: { content: "1:23", link: { url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=83s" } },
+        annotations: { bold: false },
+      },
+      { type: "text", text: { content: " Moves transfer ownership", link: null }, annotations: { bold: false } },
+    ]);
+    expect(output.children[9].to_do).toEqual({
+      rich_text: [{ type: "text", text: { content: "Rewrite the parser", link: null }, annotations: { bold: false } }],
+      checked: false,
+    });
+  });
+});
+
+describe("DOCX export", () => {
+  it("packages a Word document with hyperlinks for the video and its timestamps", () => {
+    const file = exportSummary(structuredSummary, "docx");
+    expect(file.filename).toBe("rust-ownership-in-10-minutes.docx");
+
+    const entries = readZip(file.data as Uint8Array);
+    expect(Object.keys(entries)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "word/document.xml",
+      "word/_rels/document.xml.rels",
+      "word/styles.xml",
+    ]);
+
+    const document = entries["word/document.xml"];
+    expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(document).toContain("Rust &quot;ownership&quot; in 10 minutes");
+    expect(document).toContain('<w:t xml:space="preserve">☐\t</w:t>');
+
+    const rels = entries["word/_rels/document.xml.rels"];
+    expect(rels).toContain('Id="rLink1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://www.youtube.com/watch?v=dQw4w9WgXcQ&amp;t=83s"');
+    expect(rels).toContain('Id="rLink3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://www.youtube.com/watch?v=dQw4w9WgXcQ"');
+    expect(document).toContain('<w:hyperlink r:id="rLink1">');
+    expect(document).toContain('<w:hyperlink r:id="rLink3">');
+  });
+
+  it("writes the same bytes for the same summary", () => {
+    expect(exportSummary(structuredSummary, "docx").data).toEqual(exportSummary(structuredSummary, "docx").data);
+  });
+});
+
+describe("PDF export", () => {
+  const pdf = latin1(exportSummary(structuredSummary, "pdf").data as Uint8Array);
+
+  it("writes a PDF whose cross-reference table points at its objects", () => {
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+    const xref = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe("xref");
+
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    expect(offsets.length).toBeGreaterThan(0);
+    offsets.forEach((offset, index) => expect(pdf.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true));
+  });
+
+  it("links the video and its timestamps", () => {
+    expect(pdf).toContain("/Title (Rust \"ownership\" in 10 minutes)");
+    expect(pdf).toContain("/URI (https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=83s)");
+    expect(pdf).toContain("/URI (https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=3723s)");
+    expect(pdf).toContain("/URI (https://www.youtube.com/watch?v=dQw4w9WgXcQ)");
+  });
+
+  it("breaks long content over several pages", () => {
+    const long = exportSummary(
+      {
+        ...plainSummary,
+        summary: Array.from({ length: 120 }, (_, index) => `Paragraph ${index} of a long summary.`).join("\n\n"),
+      },
+      "pdf",
+    );
+    const count = Number(latin1(long.data as Uint8Array).match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1]);
+    expect(count).toBeGreaterThan(1);
+  });
+
+  it("replaces characters the built-in fonts cannot show", () => {
+    const file = latin1(exportSummary({ ...plainSummary, summary: "Café – 東京 (Tokyo)" }, "pdf").data as Uint8Array);
+    expect(file).toContain("(Caf\xe9 \x96 ?? \\(Tokyo\\)) Tj");
+  });
+});
+
+describe("exportFilename", () => {
+  it("slugs titles and falls back for titles without letters", () => {
+    expect(exportFilename("Crème brûlée: A how-to!", "md")).toBe("creme-brulee-a-how-to.md");
+    expect(exportFilename("東京", "pdf")).toBe("summary.pdf");
+  });
+});
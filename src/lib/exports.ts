@@ -0,0 +1,200 @@
+import type { Json } from "@/integrations/supabase/types";
+import { asStructuredSummary } from "@/lib/structuredSummary";
+import { buildTimestampLink } from "@/lib/sources";
+import { parseTimestamp } from "@/lib/youtube";
+import { buildDocx } from "@/lib/docx";
+import { buildPdf } from "@/lib/pdf";
+
+export type ExportFormat = "markdown" | "pdf" | "docx" | "blocks";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown;charset=utf-8" },
+  { id: "pdf", label: "PDF", extension: "pdf", mimeType: "application/pdf" },
+  {
+    id: "docx",
+    label: "Word (DOCX)",
+    extension: "docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  { id: "blocks", label: "Notion blocks (JSON)", extension: "json", mimeType: "application/json" },
+];
+
+export interface ExportableSummary {
+  video_url: string;
+  video_title: string | null;
+  summary: string;
+  structured_summary: Json | null;
+  created_at: string;
+  tags?: string[];
+}
+
+export interface ExportSpan {
+  text: string;
+  link?: string;
+  bold?: boolean;
+}
+
+export type ExportBlock =
+  | { type: "heading"; level: 1 | 2; spans: ExportSpan[] }
+  | { type: "paragraph"; spans: ExportSpan[] }
+  | { type: "bullet"; spans: ExportSpan[] }
+  | { type: "todo"; spans: ExportSpan[] };
+
+// Format-neutral shape every exporter renders from
+export interface ExportDocument {
+  title: string;
+  url: string | null;
+  date: string;
+  tags: string[];
+  blocks: ExportBlock[];
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  data: string | Uint8Array;
+}
+
+const text = (value: string): ExportSpan[] => [{ text: value }];
+
+export function buildExportDocument(summary: ExportableSummary): ExportDocument {
+  const content = asStructuredSummary(summary.structured_summary);
+  const title = summary.video_title || content?.title || "Video Summary";
+  const blocks: ExportBlock[] = [{ type: "heading", level: 1, spans: text(title) }];
+
+  if (!content) {
+    // Plain summaries keep their paragraph breaks and nothing else
+    for (const paragraph of summary.summary.split(/\n\s*\n/)) {
+      if (paragraph.trim()) blocks.push({ type: "paragraph", spans: text(paragraph.trim()) });
+    }
+  } else {
+    blocks.push({ type: "paragraph", spans: [{ text: "TL;DR: ", bold: true }, { text: content.tldr }] });
+
+    if (content.key_points.length > 0) {
+      blocks.push({ type: "heading", level: 2, spans: text("Key points") });
+      for (const point of content.key_points) {
+        const seconds = point.timestamp ? parseTimestamp(point.timestamp) : null;
+        const link = seconds !== null ? buildTimestampLink(summary.video_url, seconds) : null;
+        const spans: ExportSpan[] = point.timestamp
+          ? [{ text: point.timestamp, link: link ?? undefined, bold: !link }, { text: ` ${point.text}` }]
+          : text(point.text);
+        blocks.push({ type: "bullet", spans });
+      }
+    }
+
+    if (content.takeaways.length > 0) {
+      blocks.push({ type: "heading", level: 2, spans: text("Takeaways") });
+      for (const takeaway of content.takeaways) blocks.push({ type: "bullet", spans: text(takeaway) });
+    }
+
+    if (content.action_items.length > 0) {
+      blocks.push({ type: "heading", level: 2, spans: text("Action items") });
+      for (const item of content.action_items) blocks.push({ type: "todo", spans: text(item) });
+    }
+  }
+
+  return {
+    title,
+    url: /^https?:\/\//i.test(summary.video_url) ? summary.video_url : null,
+    // The UTC calendar day, so the same row exports the same everywhere
+    date: summary.created_at.slice(0, 10),
+    tags: summary.tags ?? content?.topics ?? [],
+    blocks,
+  };
+}
+
+const escapeMarkdown = (value: string) => value.replace(/([\\`*_[\]])/g, "\\$1");
+
+const markdownSpans = (spans: ExportSpan[]) =>
+  spans
+    .map((span) => {
+      const value = escapeMarkdown(span.text);
+      if (span.link) return `[${value}](${span.link})`;
+      return span.bold ? `**${value.trim()}**${value.endsWith(" ") ? " " : ""}` : value;
+    })
+    .join("");
+
+// JSON strings are valid YAML scalars, which saves escaping by hand
+const yamlString = (value: string) => JSON.stringify(value);
+
+export function toMarkdown(doc: ExportDocument): string {
+  const frontMatter = [
+    "---",
+    `title: ${yamlString(doc.title)}`,
+    ...(doc.url ? [`url: ${yamlString(doc.url)}`] : []),
+    `date: ${doc.date}`,
+    ...(doc.tags.length > 0 ? ["tags:", ...doc.tags.map((tag) => `  - ${yamlString(tag)}`)] : ["tags: []"]),
+    "---",
+  ];
+
+  const lines: string[] = [];
+  doc.blocks.forEach((block, index) => {
+    const previous = doc.blocks[index - 1];
+    const isListItem = block.type === "bullet" || block.type === "todo";
+    // List items stay together; everything else is separated by a blank line
+    if (index > 0 && !(isListItem && previous?.type === block.type)) lines.push("");
+
+    const content = markdownSpans(block.spans);
+    if (block.type === "heading") lines.push(`${"#".repeat(block.level)} ${content}`);
+    else if (block.type === "bullet") lines.push(`- ${content}`);
+    else if (block.type === "todo") lines.push(`- [ ] ${content}`);
+    else lines.push(content);
+  });
+
+  return `${frontMatter.join("\n")}\n\n${lines.join("\n")}\n`;
+}
+
+const richText = (spans: ExportSpan[]) =>
+  spans.map((span) => ({
+    type: "text",
+    text: { content: span.text, link: span.link ? { url: span.link } : null },
+    annotations: { bold: !!span.bold },
+  }));
+
+// Block objects in the shape Notion's API (and most note apps importing it) accept
+export function toNotionBlocks(doc: ExportDocument): string {
+  const children = doc.blocks.map((block) => {
+    const rich_text = richText(block.spans);
+    switch (block.type) {
+      case "heading": {
+        const type = block.level === 1 ? "heading_1" : "heading_2";
+        return { object: "block", type, [type]: { rich_text } };
+      }
+      case "bullet":
+        return { object: "block", type: "bulleted_list_item", bulleted_list_item: { rich_text } };
+      case "todo":
+        return { object: "block", type: "to_do", to_do: { rich_text, checked: false } };
+      default:
+        return { object: "block", type: "paragraph", paragraph: { rich_text } };
+    }
+  });
+
+  return `${JSON.stringify({ title: doc.title, url: doc.url, date: doc.date, tags: doc.tags, children }, null, 2)}\n`;
+}
+
+export function exportFilename(title: string, extension: string): string {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${slug || "summary"}.${extension}`;
+}
+
+export function exportSummary(summary: ExportableSummary, format: ExportFormat): ExportFile {
+  const doc = buildExportDocument(summary);
+  const { extension, mimeType } = EXPORT_FORMATS.find((option) => option.id === format)!;
+
+  const data =
+    format === "markdown"
+      ? toMarkdown(doc)
+      : format === "blocks"
+        ? toNotionBlocks(doc)
+        : format === "docx"
+          ? buildDocx(doc)
+          : buildPdf(doc);
+
+  return { filename: exportFilename(doc.title, extension), mimeType, data };
+}
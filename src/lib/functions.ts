@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ErrorCode } from "@/lib/contract";
+
+// An edge function's error response, with the HTTP status, the contract's
+// error code when the function sends one and, for 429s, how long the server
+// asked the caller to wait
+export class FunctionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly code: ErrorCode | null,
+    readonly retryAfterSeconds: number | null
+  ) {
+    super(message);
+    this.name = "FunctionError";
+  }
+}
+
+// Invokes an edge function and surfaces the `{ error }` message from its
+// JSON body instead of supabase-js's generic "non-2xx status" error.
+export async function invokeFunction<T>(functionName: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(functionName, { body });
+
+  if (error) {
+    const response: Response | undefined = error.context instanceof Response ? error.context : undefined;
+    const payload = await response?.json().catch(() => null);
+    const retryAfter = Number(response?.headers.get("Retry-After"));
+    throw new FunctionError(
+      payload?.error || error.message,
+      response?.status ?? null,
+      payload?.code ?? null,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null
+    );
+  }
+
+  return data as T;
+}
+
+// "45s", "3m 20s" or "5h 12m"
+export function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds % 60}s`;
+}
@@ -0,0 +1,213 @@
+import type { ExportBlock, ExportDocument, ExportSpan } from "@/lib/exports";
+
+// A4 in points, with 2cm margins
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 57;
+const LIST_INDENT = 16;
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em (from the standard AFM)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+// Punctuation the built-in fonts can show that lives outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+const BLOCK_STYLES: Record<ExportBlock["type"] | "title", { size: number; bold: boolean; before: number }> = {
+  title: { size: 20, bold: true, before: 0 },
+  heading: { size: 14, bold: true, before: 16 },
+  paragraph: { size: 11, bold: false, before: 8 },
+  bullet: { size: 11, bold: false, before: 4 },
+  todo: { size: 11, bold: false, before: 4 },
+};
+
+// The standard fonts only cover WinAnsi, so anything else prints as "?"
+function toWinAnsi(value: string): string {
+  let out = "";
+  for (const char of value.normalize("NFC")) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[char]) out += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    else if ((code >= 32 && code < 127) || (code >= 160 && code < 256)) out += char;
+    else if (char === "\t" || char === "\n") out += " ";
+    else out += "?";
+  }
+  return out;
+}
+
+// Bold is about 10% wider; close enough for line breaking
+function textWidth(value: string, size: number, bold: boolean): number {
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code < 127 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size * (bold ? 1.1 : 1)) / 1000;
+}
+
+const escapePdfString = (value: string) => value.replace(/([\\()])/g, "\\$1");
+
+interface Word {
+  text: string;
+  bold: boolean;
+  link?: string;
+}
+
+interface PageContent {
+  ops: string[];
+  links: { rect: number[]; url: string }[];
+}
+
+function splitWords(spans: ExportSpan[], bold: boolean): Word[] {
+  const words: Word[] = [];
+  for (const span of spans) {
+    for (const part of toWinAnsi(span.text).split(/ +/)) {
+      if (part) words.push({ text: part, bold: bold || !!span.bold, link: span.link });
+    }
+  }
+  return words;
+}
+
+// Lays blocks out top to bottom, breaking lines on spaces and pages when full
+function layout(doc: ExportDocument): PageContent[] {
+  const pages: PageContent[] = [{ ops: [], links: [] }];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN) return;
+    pages.push({ ops: [], links: [] });
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const drawText = (value: string, x: number, size: number, bold: boolean, link?: string) => {
+    const page = pages[pages.length - 1];
+    const color = link ? "0.02 0.39 0.76 rg" : "0 0 0 rg";
+    page.ops.push(`BT ${color} /${bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfString(value)}) Tj ET`);
+    if (link) {
+      const width = textWidth(value, size, bold);
+      page.links.push({ rect: [x, y - 2, x + width, y + size].map((n) => Number(n.toFixed(2))), url: link });
+    }
+  };
+
+  const writeLines = (words: Word[], size: number, left: number) => {
+    const lineHeight = size * 1.4;
+    const spaceWidth = textWidth(" ", size, false);
+    let line: Word[] = [];
+    let lineWidth = 0;
+
+    const flush = () => {
+      ensureSpace(lineHeight);
+      y -= size;
+      let x = left;
+      line.forEach((word, index) => {
+        // Neighbouring words with the same look are drawn as one run
+        const previous = line[index - 1];
+        if (previous && previous.bold === word.bold && previous.link === word.link) return;
+        let run = word.text;
+        for (let next = index + 1; next < line.length; next++) {
+          const candidate = line[next];
+          if (candidate.bold !== word.bold || candidate.link !== word.link) break;
+          run += ` ${candidate.text}`;
+        }
+        drawText(run, x, size, word.bold, word.link);
+        x += textWidth(run, size, word.bold) + spaceWidth;
+      });
+      y -= lineHeight - size;
+      line = [];
+      lineWidth = 0;
+    };
+
+    for (const word of words) {
+      const width = textWidth(word.text, size, word.bold);
+      if (line.length > 0 && lineWidth + spaceWidth + width > PAGE_WIDTH - MARGIN - left) flush();
+      lineWidth += (line.length > 0 ? spaceWidth : 0) + width;
+      line.push(word);
+    }
+    if (line.length > 0) flush();
+  };
+
+  doc.blocks.forEach((block, index) => {
+    const style = index === 0 && block.type === "heading" ? BLOCK_STYLES.title : BLOCK_STYLES[block.type];
+    y -= index === 0 ? 0 : style.before;
+    const words = splitWords(block.spans, style.bold);
+
+    if (block.type === "bullet" || block.type === "todo") {
+      ensureSpace(style.size * 1.4);
+      // Checkboxes are drawn as an empty square, since WinAnsi has no ballot box
+      const page = pages[pages.length - 1];
+      const markerY = y - style.size;
+      if (block.type === "bullet") {
+        page.ops.push(`BT 0 0 0 rg /F1 ${style.size} Tf ${MARGIN} ${markerY.toFixed(2)} Td (\\225) Tj ET`);
+      } else {
+        page.ops.push(`0 0 0 RG 0.7 w ${MARGIN} ${(markerY - 0.5).toFixed(2)} 8 8 re S`);
+      }
+      writeLines(words, style.size, MARGIN + LIST_INDENT);
+    } else {
+      writeLines(words, style.size, MARGIN);
+    }
+
+    if (index === 0 && doc.url) {
+      y -= 4;
+      writeLines([{ text: toWinAnsi(doc.url), bold: false, link: doc.url }], 9, MARGIN);
+    }
+  });
+
+  return pages;
+}
+
+// Writes a PDF 1.4 file using the built-in Helvetica fonts and no compression,
+// with timestamps and the video URL as clickable links
+export function buildPdf(doc: ExportDocument): Uint8Array {
+  const pages = layout(doc);
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+  const reserve = () => add("");
+
+  const catalog = reserve();
+  const pageTree = reserve();
+  const regular = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const bold = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  const info = add(`<< /Title (${escapePdfString(toWinAnsi(doc.title))}) >>`);
+
+  const pageIds = pages.map((page) => {
+    const stream = page.ops.join("\n");
+    const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    const annots = page.links.map((link) =>
+      add(
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.join(" ")}] /Border [0 0 0] /A << /S /URI /URI (${escapePdfString(toWinAnsi(link.url))}) >> >>`,
+      ),
+    );
+    return add(
+      `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R${
+        annots.length > 0 ? ` /Annots [${annots.map((id) => `${id} 0 R`).join(" ")}]` : ""
+      } >>`,
+    );
+  });
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`;
+  objects[pageTree - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  // Every string above is one byte per character, so lengths are byte offsets
+  let file = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets = objects.map((body, index) => {
+    const offset = file.length;
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  file += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(file, (char) => char.charCodeAt(0));
+}
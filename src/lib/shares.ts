@@ -0,0 +1,61 @@
+import { addDays } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import type { TranscriptSegment } from "@/components/TranscriptPanel";
+
+export type ShareVisibility = "public" | "unlisted" | "workspace" | "password";
+
+export const SHARE_VISIBILITIES: { id: ShareVisibility; label: string; description: string }[] = [
+  { id: "unlisted", label: "Unlisted", description: "Anyone with the link; hidden from search engines" },
+  { id: "public", label: "Public", description: "Anyone with the link; search engines may index it" },
+  { id: "workspace", label: "Workspace only", description: "Signed-in members of this workspace" },
+  { id: "password", label: "Password", description: "Anyone with the link and the password" },
+];
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { id: "never", label: "Never expires", days: null },
+  { id: "1", label: "Expires in 1 day", days: 1 },
+  { id: "7", label: "Expires in 7 days", days: 7 },
+  { id: "30", label: "Expires in 30 days", days: 30 },
+] as const;
+
+export type ShareExpiryOption = (typeof SHARE_EXPIRY_OPTIONS)[number]["id"];
+
+export function shareExpiryDate(option: ShareExpiryOption, now = new Date()): string | null {
+  const days = SHARE_EXPIRY_OPTIONS.find((expiry) => expiry.id === option)?.days ?? null;
+  return days === null ? null : addDays(now, days).toISOString();
+}
+
+export const buildShareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export interface SharedSummary {
+  id: string;
+  video_url: string;
+  video_title: string | null;
+  summary: string;
+  structured_summary: Json | null;
+  created_at: string;
+}
+
+// What resolve_share() answers for a token; see its migration for the statuses
+export type ShareResolution =
+  | {
+      status: "ok";
+      visibility: ShareVisibility;
+      // Members can read the summary, and so receive its realtime updates
+      member: boolean;
+      summary: SharedSummary;
+      transcript: TranscriptSegment[] | null;
+    }
+  | { status: "expired"; expires_at: string }
+  | { status: "too_many_attempts"; retry_after_seconds: number }
+  | {
+      status: "not_found" | "revoked" | "sign_in_required" | "forbidden" | "password_required" | "wrong_password";
+    };
+
+export type ShareStatus = "active" | "expired" | "revoked";
+
+export function shareStatus(share: { expires_at: string | null; revoked_at: string | null }, now = new Date()): ShareStatus {
+  if (share.revoked_at) return "revoked";
+  if (share.expires_at && new Date(share.expires_at) < now) return "expired";
+  return "active";
+}
@@ -0,0 +1,33 @@
+import { buildTimestampUrl, extractVideoId } from "@/lib/youtube";
+
+export type SourceKind = "youtube" | "vimeo" | "subtitle_url" | "upload";
+
+export const SUBTITLES_BUCKET = "subtitles";
+
+export function extractVimeoId(url: string): string | null {
+  const match = url.match(
+    /(?:vimeo\.com\/(?:video\/|channels\/[^/]+\/|groups\/[^/]+\/videos\/)?|player\.vimeo\.com\/video\/)(\d+)/,
+  );
+  return match ? match[1] : null;
+}
+
+// Uploaded subtitle files are stored with an upload:// URL that cannot be opened
+export function isExternalUrl(videoUrl: string): boolean {
+  return /^https?:\/\//i.test(videoUrl);
+}
+
+// Deep link into the video at the given offset, when the source supports it
+export function buildTimestampLink(videoUrl: string, seconds: number): string | null {
+  const youtubeId = extractVideoId(videoUrl);
+  if (youtubeId) return buildTimestampUrl(youtubeId, seconds);
+
+  const vimeoId = extractVimeoId(videoUrl);
+  if (vimeoId) return `https://vimeo.com/${vimeoId}#t=${Math.floor(seconds)}s`;
+
+  return null;
+}
+
+// Playlist and channel pages are summarized as a batch of videos
+export function isCollectionUrl(url: string): boolean {
+  return /youtube\.com\/(playlist\?(.*&)?list=|@[^/?#]+|channel\/|c\/|user\/)/i.test(url.trim());
+}
@@ -0,0 +1,47 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export interface StructuredSummary {
+  title: string;
+  tldr: string;
+  key_points: { text: string; timestamp: string | null }[];
+  takeaways: string[];
+  action_items: string[];
+  topics: string[];
+}
+
+// Rows written before structured output existed have no structured_summary;
+// anything that does not look like one is treated the same way.
+export function asStructuredSummary(value: Json | null | undefined): StructuredSummary | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const candidate = value as unknown as Partial<StructuredSummary>;
+  if (typeof candidate.tldr !== "string" || !Array.isArray(candidate.key_points)) return null;
+
+  return {
+    title: candidate.title ?? "",
+    tldr: candidate.tldr,
+    key_points: candidate.key_points,
+    takeaways: candidate.takeaways ?? [],
+    action_items: candidate.action_items ?? [],
+    topics: candidate.topics ?? [],
+  };
+}
+
+// Mirrors renderSummaryMarkdown in supabase/functions/_shared/schema.ts, which
+// fills the summary column that previews and search read
+export function renderSummaryMarkdown(summary: StructuredSummary): string {
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+  const sections = [
+    `# ${summary.title}`,
+    `**TL;DR:** ${summary.tldr}`,
+    `## Key points\n${summary.key_points
+      .map((point) => `- ${point.timestamp ? `[${point.timestamp}] ` : ""}${point.text}`)
+      .join("\n")}`,
+  ];
+
+  if (summary.takeaways.length > 0) sections.push(`## Takeaways\n${list(summary.takeaways)}`);
+  if (summary.action_items.length > 0) sections.push(`## Action items\n${list(summary.action_items)}`);
+  if (summary.topics.length > 0) sections.push(`## Topics\n${summary.topics.join(", ")}`);
+
+  return sections.join("\n\n");
+}
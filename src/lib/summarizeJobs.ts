@@ -0,0 +1,24 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Job = Tables<"jobs">;
+
+// Queued jobs include ones waiting to be retried after a failed attempt
+export function isActiveJob(job: Pick<Job, "status"> | null | undefined): boolean {
+  return job?.status === "queued" || job?.status === "running";
+}
+
+// Best-effort preview of a structured summary whose JSON is still being
+// written: pulls out the title, TL;DR and key point texts seen so far.
+export function previewPartialSummary(partialJson: string): string[] {
+  const lines: string[] = [];
+  const fieldPattern = /"(title|tldr|text)"\s*:\s*"((?:[^"\\]|\\.)*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = fieldPattern.exec(partialJson)) !== null) {
+    const value = match[2].replace(/\\n/g, " ").replace(/\\(.)/g, "$1");
+    if (!value) continue;
+    lines.push(match[1] === "text" ? `• ${value}` : value);
+  }
+
+  return lines;
+}
@@ -0,0 +1,16 @@
+export type SummaryStyleId = "standard" | "tldr" | "outline" | "study_notes" | "executive_brief";
+
+// Mirrors the prompt registry in supabase/functions/summarize-video/styles.ts
+export const SUMMARY_STYLES: { id: SummaryStyleId; label: string }[] = [
+  { id: "standard", label: "Standard" },
+  { id: "tldr", label: "TL;DR" },
+  { id: "outline", label: "Detailed outline" },
+  { id: "study_notes", label: "Study notes" },
+  { id: "executive_brief", label: "Executive brief" },
+];
+
+export const DEFAULT_STYLE: SummaryStyleId = "standard";
+
+export function getStyleLabel(id: string): string {
+  return SUMMARY_STYLES.find((style) => style.id === id)?.label ?? id;
+}
@@ -0,0 +1,79 @@
+import type { Json } from "@/integrations/supabase/types";
+import type { StructuredSummary } from "@/lib/structuredSummary";
+
+// Mirrors supabase/functions/summarize-video/versions.ts
+export const SUMMARY_SECTIONS = [
+  { id: "tldr", label: "TL;DR" },
+  { id: "key_points", label: "Key points" },
+  { id: "takeaways", label: "Takeaways" },
+  { id: "action_items", label: "Action items" },
+  { id: "topics", label: "Topics" },
+] as const;
+
+export type SummarySection = (typeof SUMMARY_SECTIONS)[number]["id"];
+
+// Only human-edited sections are listed; anything missing was written by the AI
+export type SectionAuthors = Partial<Record<SummarySection, "human">>;
+
+export type RevisionKind = "generated" | "edited" | "regenerated" | "restored";
+
+export const REVISION_KIND_LABELS: Record<RevisionKind, string> = {
+  generated: "Generated",
+  edited: "Edited",
+  regenerated: "Regenerated",
+  restored: "Restored",
+};
+
+export function humanSections(value: Json | null | undefined): SectionAuthors {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const authors: SectionAuthors = {};
+  for (const { id } of SUMMARY_SECTIONS) {
+    if (value[id] === "human") authors[id] = "human";
+  }
+  return authors;
+}
+
+// Sections whose content differs between two versions of a summary
+export function changedSections(before: StructuredSummary, after: StructuredSummary): SummarySection[] {
+  return SUMMARY_SECTIONS.map(({ id }) => id).filter(
+    (id) => JSON.stringify(before[id]) !== JSON.stringify(after[id]),
+  );
+}
+
+export interface DiffLine {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+// Line diff from the longest common subsequence; summaries are short enough
+// for the quadratic table
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ kind: "removed", text: a[i++] });
+    } else {
+      lines.push({ kind: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ kind: "added", text: b[j++] });
+
+  return lines;
+}
@@ -0,0 +1,90 @@
+// One group of model calls as returned by workspace_usage()
+export interface UsageGroup {
+  day: string;
+  user_id: string | null;
+  provider: string;
+  model: string;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface DailySpend {
+  day: string;
+  costUsd: number;
+}
+
+export interface KeyedUsage extends UsageTotals {
+  key: string;
+}
+
+// The UTC calendar month containing `date`, as [start, end)
+export function monthRange(date: Date): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+export function shiftMonth(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+const addTotals = (totals: UsageTotals, group: UsageGroup): UsageTotals => ({
+  calls: totals.calls + Number(group.calls),
+  tokens: totals.tokens + Number(group.prompt_tokens) + Number(group.completion_tokens),
+  costUsd: totals.costUsd + Number(group.cost_usd),
+});
+
+const EMPTY_TOTALS: UsageTotals = { calls: 0, tokens: 0, costUsd: 0 };
+
+export function totalUsage(groups: UsageGroup[]): UsageTotals {
+  return groups.reduce(addTotals, EMPTY_TOTALS);
+}
+
+// Spend for every day of the month, including days without any calls
+export function spendByDay(groups: UsageGroup[], month: Date): DailySpend[] {
+  const { start, end } = monthRange(month);
+  const byDay = new Map<string, number>();
+  for (const group of groups) {
+    byDay.set(group.day, (byDay.get(group.day) ?? 0) + Number(group.cost_usd));
+  }
+
+  const days: DailySpend[] = [];
+  for (let day = start; day < end; day = new Date(day.getTime() + 86_400_000)) {
+    const key = day.toISOString().slice(0, 10);
+    days.push({ day: key, costUsd: byDay.get(key) ?? 0 });
+  }
+  return days;
+}
+
+// Totals per key, most expensive first
+export function usageBy(groups: UsageGroup[], keyOf: (group: UsageGroup) => string): KeyedUsage[] {
+  const byKey = new Map<string, UsageTotals>();
+  for (const group of groups) {
+    const key = keyOf(group);
+    byKey.set(key, addTotals(byKey.get(key) ?? EMPTY_TOTALS, group));
+  }
+
+  return [...byKey.entries()]
+    .map(([key, totals]) => ({ key, ...totals }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.tokens - a.tokens);
+}
+
+// Small amounts keep enough digits to tell cheap calls apart
+export function formatUsd(amount: number): string {
+  const digits = amount !== 0 && Math.abs(amount) < 1 ? 4 : 2;
+  return `$${amount.toFixed(digits)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
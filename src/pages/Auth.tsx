@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2, Mail, ArrowLeft } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "sonner";
+
+const OTP_LENGTH = 6;
+
+// Where to go after signing in; only paths on this site are accepted
+const safeNextPath = (next: string | null) => (next && next.startsWith("/") && !next.startsWith("//") ? next : "/");
+
+const Auth = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get("next"));
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!isAuthLoading && user) {
+    return <Navigate to={nextPath} replace />;
+  }
+
+  const handleSendCode = async () => {
+    if (!email.trim()) {
+      toast.error("Please enter your email address");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}${nextPath}` },
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error("Error sending sign-in email:", error);
+      toast.error(error.message || "Failed to send sign-in email");
+      return;
+    }
+
+    setCodeSent(true);
+    toast.success("Check your inbox for a sign-in link and code");
+  };
+
+  const handleVerifyCode = async (token: string) => {
+    setIsSubmitting(true);
+    const { error } = await supabase.auth.verifyOtp({ email: email.trim(), token, type: "email" });
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error("Error verifying code:", error);
+      toast.error(error.message || "Invalid or expired code");
+      setCode("");
+      return;
+    }
+
+    navigate(nextPath, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-primary/5 p-4">
+      <Card className="max-w-md w-full p-8 shadow-lg border-primary/20 animate-fade-in">
+        <h1 className="text-3xl font-bold mb-2 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Sign in
+        </h1>
+
+        {!codeSent ? (
+          <>
+            <p className="text-muted-foreground mb-6">
+              Enter your email and we'll send you a magic link and a one-time code. Your summaries stay private to your
+              workspaces.
+            </p>
+            <div className="space-y-4">
+              <Input
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && !isSubmitting && handleSendCode()}
+                className="h-12"
+                disabled={isSubmitting}
+                autoFocus
+              />
+              <Button onClick={handleSendCode} disabled={isSubmitting || !email.trim()} className="w-full h-12">
+                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                Send sign-in email
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-muted-foreground mb-6">
+              We sent an email to <span className="font-medium text-foreground">{email}</span>. Click the link in it, or
+              enter the {OTP_LENGTH}-digit code below.
+            </p>
+            <div className="flex justify-center mb-6">
+              <InputOTP
+                maxLength={OTP_LENGTH}
+                value={code}
+                onChange={setCode}
+                onComplete={handleVerifyCode}
+                disabled={isSubmitting}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setCodeSent(false);
+                  setCode("");
+                }}
+                disabled={isSubmitting}
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Use a different email
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleSendCode} disabled={isSubmitting}>
+                Resend
+              </Button>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
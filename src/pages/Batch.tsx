@@ -0,0 +1,175 @@
+import { Link, Navigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { SummaryContent } from "@/components/SummaryContent";
+import { AlertCircle, ArrowLeft, CheckCircle2, Clock, ListVideo, Loader2, XCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtimeTable } from "@/hooks/use-realtime";
+import { getStyleLabel } from "@/lib/summaryStyles";
+
+// Realtime drives progress; polling only covers a dropped connection
+const POLL_INTERVAL_MS = 15000;
+
+const ITEM_STATUS = {
+  queued: { label: "Queued", icon: Clock, className: "text-muted-foreground" },
+  running: { label: "Summarizing", icon: Loader2, className: "text-primary animate-spin" },
+  succeeded: { label: "Done", icon: CheckCircle2, className: "text-green-600" },
+  failed: { label: "Failed", icon: XCircle, className: "text-destructive" },
+} as const;
+
+const BATCH_STATUS_LABELS: Record<string, string> = {
+  running: "Summarizing videos",
+  summarizing: "Writing series summary",
+  succeeded: "Complete",
+  failed: "Failed",
+};
+
+const Batch = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["summary-batch", id] });
+
+  useRealtimeTable({ table: "summary_batches", filter: `id=eq.${id}`, enabled: !!user && !!id, onChange: refresh });
+  useRealtimeTable({
+    table: "summary_batch_items",
+    filter: `batch_id=eq.${id}`,
+    enabled: !!user && !!id,
+    onChange: refresh,
+  });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["summary-batch", id],
+    enabled: !!user && !!id,
+    queryFn: async () => {
+      const [{ data: batch, error: batchError }, { data: items, error: itemsError }] = await Promise.all([
+        supabase.from("summary_batches").select("*").eq("id", id!).maybeSingle(),
+        supabase.from("summary_batch_items").select("*").eq("batch_id", id!).order("position"),
+      ]);
+
+      if (batchError) throw batchError;
+      if (itemsError) throw itemsError;
+      return batch ? { batch, items: items || [] } : null;
+    },
+    // Keep polling until the series summary is written
+    refetchInterval: (query) => {
+      const status = query.state.data?.batch.status;
+      return status === "running" || status === "summarizing" ? POLL_INTERVAL_MS : false;
+    },
+  });
+
+  if (isAuthLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="p-8 max-w-md w-full text-center">
+          <h1 className="text-2xl font-bold mb-2">Batch Not Found</h1>
+          <p className="text-muted-foreground mb-6">This batch doesn't exist or belongs to another workspace.</p>
+          <Button asChild>
+            <Link to="/">Go Home</Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const { batch, items } = data;
+  const finished = items.filter((item) => item.status === "succeeded" || item.status === "failed").length;
+  const failed = items.filter((item) => item.status === "failed").length;
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-5xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-primary hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to summarizer
+        </Link>
+
+        <Card className="p-8 mb-8 shadow-lg">
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+                <ListVideo className="w-4 h-4" />
+                <span className="capitalize">{batch.kind}</span>
+                <span>·</span>
+                <span>{getStyleLabel(batch.style)}</span>
+              </div>
+              <h1 className="text-3xl font-bold text-foreground">{batch.title}</h1>
+            </div>
+            <Badge variant={batch.status === "failed" ? "destructive" : "secondary"} className="shrink-0">
+              {BATCH_STATUS_LABELS[batch.status] ?? batch.status}
+            </Badge>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {finished} of {items.length} videos processed{failed > 0 && `, ${failed} failed`}
+            </p>
+            <Progress value={items.length ? (finished / items.length) * 100 : 0} />
+          </div>
+
+          {batch.truncated && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground mt-4">
+              <AlertCircle className="w-4 h-4" />
+              Only the first {items.length} videos were queued.
+            </p>
+          )}
+          {batch.error && <p className="text-sm text-destructive mt-4">{batch.error}</p>}
+        </Card>
+
+        {/* Series summary */}
+        {batch.series_summary && (
+          <Card className="p-8 mb-8 shadow-lg">
+            <h2 className="text-2xl font-bold mb-6">Series summary</h2>
+            <SummaryContent
+              summary={batch.series_summary}
+              structured={batch.structured_series_summary}
+              videoUrl={batch.source_url}
+            />
+          </Card>
+        )}
+
+        {/* Videos */}
+        <Card className="divide-y divide-border">
+          {items.map((item) => {
+            const status = ITEM_STATUS[item.status as keyof typeof ITEM_STATUS] ?? ITEM_STATUS.queued;
+            const StatusIcon = status.icon;
+            return (
+              <div key={item.id} className="flex items-center gap-4 p-4">
+                <span className="w-8 text-right text-sm text-muted-foreground font-mono">{item.position + 1}</span>
+                <StatusIcon className={`w-4 h-4 shrink-0 ${status.className}`} />
+                <div className="min-w-0 flex-1">
+                  {item.summary_id ? (
+                    <Link to={`/?summary=${item.summary_id}`} className="font-medium hover:text-primary line-clamp-1">
+                      {item.video_title || item.video_url}
+                    </Link>
+                  ) : (
+                    <p className="font-medium line-clamp-1">{item.video_title || item.video_url}</p>
+                  )}
+                  {item.error && <p className="text-xs text-destructive line-clamp-2">{item.error}</p>}
+                </div>
+                <span className="text-xs text-muted-foreground shrink-0">{status.label}</span>
+              </div>
+            );
+          })}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,372 @@
+import { useEffect, useState } from "react";
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, ChevronRight, Copy, Folder, Globe, Link2, Loader2, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollections } from "@/hooks/use-collections";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { asStructuredSummary } from "@/lib/structuredSummary";
+import { buildCollectionShareUrl, collectionPath, descendantIds, flattenCollectionTree } from "@/lib/collections";
+import { SHARE_EXPIRY_OPTIONS, shareExpiryDate, shareStatus, type ShareExpiryOption } from "@/lib/shares";
+
+const TOP_LEVEL = "top";
+
+const Collection = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [shareExpiry, setShareExpiry] = useState<ShareExpiryOption>("never");
+
+  const workspaceId = currentWorkspace?.id;
+  const { data: collections = [], isLoading: isCollectionsLoading } = useCollections(workspaceId);
+  const collection = collections.find((item) => item.id === id);
+  const path = id ? collectionPath(collections, id) : [];
+  const children = collections.filter((item) => item.parent_id === id);
+
+  useEffect(() => {
+    setName(collection?.name ?? "");
+    setDescription(collection?.description ?? "");
+  }, [collection?.name, collection?.description]);
+
+  const { data: summaries = [], isLoading: isSummariesLoading } = useQuery({
+    queryKey: ["collection-summaries", id],
+    enabled: !!collection,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("collection_summaries")
+        .select("created_at, summaries(id, video_title, channel_name, summary, structured_summary, created_at)")
+        .eq("collection_id", id!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []).flatMap((row) => (row.summaries ? [row.summaries] : []));
+    },
+  });
+
+  const refreshCollections = () => queryClient.invalidateQueries({ queryKey: ["collections", workspaceId] });
+
+  const updateCollection = async (values: { name?: string; description?: string | null; parent_id?: string | null }) => {
+    const { error } = await supabase
+      .from("collections")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id!);
+
+    if (error) {
+      console.error("Error updating collection:", error);
+      toast.error(error.message || "Failed to update collection");
+      return false;
+    }
+    refreshCollections();
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (await updateCollection({ name: name.trim(), description: description.trim() || null })) {
+      toast.success("Collection saved");
+    }
+  };
+
+  const handleDelete = async () => {
+    const { error } = await supabase.from("collections").delete().eq("id", id!);
+
+    if (error) {
+      console.error("Error deleting collection:", error);
+      toast.error("Failed to delete collection");
+      return;
+    }
+    refreshCollections();
+    navigate("/collections", { replace: true });
+  };
+
+  const handleShare = async () => {
+    const { data: token, error } = await supabase.rpc("share_collection", {
+      target_collection: id!,
+      share_expires_at: shareExpiryDate(shareExpiry) ?? undefined,
+    });
+
+    if (error) {
+      console.error("Error sharing collection:", error);
+      toast.error("Failed to create share link");
+      return;
+    }
+    refreshCollections();
+    await navigator.clipboard.writeText(buildCollectionShareUrl(token));
+    toast.success("Share link copied to clipboard!");
+  };
+
+  const handleUnshare = async () => {
+    const { error } = await supabase.rpc("unshare_collection", { target_collection: id! });
+
+    if (error) {
+      console.error("Error turning off share link:", error);
+      toast.error("Failed to turn off the share link");
+      return;
+    }
+    refreshCollections();
+  };
+
+  const handleRemoveSummary = async (summaryId: string) => {
+    const { error } = await supabase
+      .from("collection_summaries")
+      .delete()
+      .eq("collection_id", id!)
+      .eq("summary_id", summaryId);
+
+    if (error) {
+      console.error("Error removing summary from collection:", error);
+      toast.error("Failed to remove summary");
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["collection-summaries", id] });
+    queryClient.invalidateQueries({ queryKey: ["summary-collections", summaryId] });
+  };
+
+  if (isAuthLoading || isCollectionsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="p-8 max-w-md w-full text-center">
+          <h1 className="text-2xl font-bold mb-2">Collection not found</h1>
+          <p className="text-muted-foreground mb-6">It may have been deleted, or it belongs to another workspace.</p>
+          <Button asChild>
+            <Link to="/collections">All collections</Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  // A collection cannot move into itself or anything nested in it
+  const excluded = descendantIds(collections, collection.id);
+  const parentOptions = flattenCollectionTree(collections).filter((item) => !excluded.has(item.id));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <Link to="/collections" className="inline-flex items-center gap-2 text-sm text-primary hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          All collections
+        </Link>
+
+        <nav className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground mb-2">
+          {path.slice(0, -1).map((ancestor) => (
+            <span key={ancestor.id} className="inline-flex items-center gap-1">
+              <Link to={`/collections/${ancestor.id}`} className="hover:text-primary">
+                {ancestor.name}
+              </Link>
+              <ChevronRight className="h-3 w-3" />
+            </span>
+          ))}
+        </nav>
+        <div className="flex items-center gap-2 mb-2">
+          <Folder className="w-6 h-6 text-primary" />
+          <h1 className="text-3xl font-bold">{collection.name}</h1>
+        </div>
+        {collection.description && <p className="text-muted-foreground mb-8">{collection.description}</p>}
+
+        {canEdit && (
+          <Card className="p-6 my-6 space-y-4">
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (name.trim()) handleSave();
+              }}
+            >
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Collection name" />
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What belongs in this collection?"
+                rows={2}
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit" disabled={!name.trim()}>
+                  Save
+                </Button>
+                <Select
+                  value={collection.parent_id ?? TOP_LEVEL}
+                  onValueChange={(value) => updateCollection({ parent_id: value === TOP_LEVEL ? null : value })}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                    {parentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        Inside {collectionPath(collections, option.id).map((item) => item.name).join(" / ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="ghost" className="ml-auto text-destructive">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {collection.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Collections nested inside it are deleted too. The summaries themselves stay in the workspace.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-border">
+              <Globe className="h-4 w-4 text-muted-foreground" />
+              {collection.share_token && shareStatus({ expires_at: collection.share_expires_at, revoked_at: null }) === "active" ? (
+                <>
+                  <span className="text-sm flex-1">
+                    Anyone with the link can view the summaries here that have a public or unlisted link of their own.
+                    <span className="block text-xs text-muted-foreground">
+                      {collection.share_view_count} {collection.share_view_count === 1 ? "view" : "views"}
+                      {collection.share_expires_at &&
+                        ` · expires ${formatDistanceToNow(new Date(collection.share_expires_at), { addSuffix: true })}`}
+                    </span>
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      navigator.clipboard.writeText(buildCollectionShareUrl(collection.share_token!));
+                      toast.success("Share link copied to clipboard!");
+                    }}
+                  >
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy link
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={handleUnshare}>
+                    Turn off
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm text-muted-foreground flex-1">
+                    {collection.share_token ? "The share link has expired." : "Only workspace members can see this collection."}
+                  </span>
+                  <Select value={shareExpiry} onValueChange={(value) => setShareExpiry(value as ShareExpiryOption)}>
+                    <SelectTrigger className="w-44 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SHARE_EXPIRY_OPTIONS.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={handleShare}>
+                    <Link2 className="h-4 w-4 mr-2" />
+                    {collection.share_token ? "Renew share link" : "Create share link"}
+                  </Button>
+                </>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {children.length > 0 && (
+          <div className="grid gap-2 sm:grid-cols-2 mb-6">
+            {children.map((child) => (
+              <Link key={child.id} to={`/collections/${child.id}`}>
+                <Card className="flex items-center gap-2 p-4 hover:border-primary/40 transition-colors">
+                  <Folder className="h-4 w-4 text-primary" />
+                  <span className="font-medium truncate">{child.name}</span>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {isSummariesLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : summaries.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            No summaries here yet. Add them from a summary's Collections menu.
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {summaries.map((summary) => (
+              <Card key={summary.id} className="p-6 hover:shadow-lg hover:border-primary/40 transition-all">
+                <div className="flex items-start gap-2">
+                  <Link to={`/?summary=${summary.id}`} className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-sm mb-1 line-clamp-2 text-foreground">
+                      {summary.video_title || "Untitled Video"}
+                    </h3>
+                    {summary.channel_name && (
+                      <p className="text-xs text-muted-foreground mb-2 truncate">{summary.channel_name}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground line-clamp-3">
+                      {asStructuredSummary(summary.structured_summary)?.tldr ?? summary.summary}
+                    </p>
+                  </Link>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => handleRemoveSummary(summary.id)}
+                      title="Remove from collection"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Collection;
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Folder, FolderTree, Globe, Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollections } from "@/hooks/use-collections";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { collectionPath, flattenCollectionTree } from "@/lib/collections";
+
+const TOP_LEVEL = "top";
+
+const Collections = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState(TOP_LEVEL);
+
+  const workspaceId = currentWorkspace?.id;
+  const { data: collections = [], isLoading } = useCollections(workspaceId);
+  const tree = flattenCollectionTree(collections);
+
+  const handleCreate = async () => {
+    const { error } = await supabase.from("collections").insert({
+      workspace_id: workspaceId!,
+      parent_id: parentId === TOP_LEVEL ? null : parentId,
+      name: name.trim(),
+      created_by: user!.id,
+    });
+
+    if (error) {
+      console.error("Error creating collection:", error);
+      toast.error("Failed to create collection");
+      return;
+    }
+    setName("");
+    queryClient.invalidateQueries({ queryKey: ["collections", workspaceId] });
+  };
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-primary hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to summarizer
+        </Link>
+
+        <div className="flex items-center gap-2 mb-8">
+          <FolderTree className="w-6 h-6 text-primary" />
+          <h1 className="text-3xl font-bold">Collections</h1>
+        </div>
+
+        {canEdit && (
+          <Card className="p-6 mb-6">
+            <h2 className="text-lg font-semibold mb-4">New collection</h2>
+            <form
+              className="flex flex-col sm:flex-row gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (name.trim()) handleCreate();
+              }}
+            >
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Collection name" />
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger className="sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                  {tree.map((collection) => (
+                    <SelectItem key={collection.id} value={collection.id}>
+                      Inside {collectionPath(collections, collection.id).map((item) => item.name).join(" / ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={!name.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create
+              </Button>
+            </form>
+          </Card>
+        )}
+
+        <Card className="p-6">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : tree.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No collections yet. Group summaries into collections to find and share them together.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {tree.map((collection) => (
+                <Link
+                  key={collection.id}
+                  to={`/collections/${collection.id}`}
+                  className="flex items-center gap-2 rounded-md px-2 py-2 text-sm hover:bg-muted transition-colors"
+                  style={{ paddingLeft: `${0.5 + collection.depth * 1.25}rem` }}
+                >
+                  <Folder className="h-4 w-4 text-primary shrink-0" />
+                  <span className="truncate">{collection.name}</span>
+                  {collection.share_token && <Globe className="h-3 w-3 text-muted-foreground" />}
+                </Link>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Collections;
@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { Link, Navigate, useSearchParams } from "react-router-dom";
+import { useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { ArrowLeft, CalendarIcon, History as HistoryIcon, Loader2, Search, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtimeTable } from "@/hooks/use-realtime";
+import { useWorkspaceTags } from "@/hooks/use-tags";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { asStructuredSummary } from "@/lib/structuredSummary";
+import { SUMMARY_STYLES, getStyleLabel } from "@/lib/summaryStyles";
+
+const PAGE_SIZE = 12;
+const ALL = "all";
+
+// "yyyy-MM-dd" in the URL, interpreted as local days
+const parseDay = (value: string | null) => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split("-").map(Number);
+  if (!year || !month || !day) return undefined;
+  return new Date(year, month - 1, day);
+};
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+// Page numbers to render, with null marking a gap
+const pageWindow = (page: number, pageCount: number): (number | null)[] => {
+  if (pageCount <= 7) return Array.from({ length: pageCount }, (_, index) => index + 1);
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((value) => value >= 1 && value <= pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((value, index) => (index > 0 && value - sorted[index - 1] > 1 ? [null, value] : [value]));
+};
+
+const History = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const channel = searchParams.get("channel") ?? ALL;
+  const style = searchParams.get("style") ?? ALL;
+  const tag = searchParams.get("tag") ?? ALL;
+  const from = parseDay(searchParams.get("from"));
+  const to = parseDay(searchParams.get("to"));
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const [searchInput, setSearchInput] = useState(query);
+
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const queryClient = useQueryClient();
+
+  // Any filter change goes back to the first page
+  const updateParams = (changes: Record<string, string | null>) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null || value === "" || value === ALL) next.delete(key);
+        else next.set(key, value);
+      }
+      if (!("page" in changes)) next.delete("page");
+      return next;
+    });
+  };
+
+  // New, edited and removed summaries refresh the current page
+  useRealtimeTable({
+    table: "summaries",
+    filter: `workspace_id=eq.${workspaceId}`,
+    enabled: !!workspaceId,
+    onChange: () => {
+      queryClient.invalidateQueries({ queryKey: ["summary-history", workspaceId] });
+      queryClient.invalidateQueries({ queryKey: ["summary-channels", workspaceId] });
+    },
+  });
+
+  const { data: channels = [] } = useQuery({
+    queryKey: ["summary-channels", workspaceId],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("summary_channels", { target_workspace: workspaceId! });
+      if (error) throw error;
+      return (data || []).map((row) => row.channel_name);
+    },
+  });
+
+  const { data: tags = [] } = useWorkspaceTags(workspaceId);
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ["summary-history", workspaceId, query, channel, style, tag, from?.getTime(), to?.getTime(), page],
+    enabled: !!workspaceId,
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      let request = supabase
+        .from("summaries")
+        .select("id, video_title, video_url, channel_name, summary, structured_summary, style, created_at", {
+          count: "exact",
+        })
+        .eq("workspace_id", workspaceId!);
+
+      if (query.trim()) {
+        request = request.textSearch("search_vector", query.trim(), { type: "websearch", config: "english" });
+      }
+      if (channel !== ALL) request = request.eq("channel_name", channel);
+      if (style !== ALL) request = request.eq("style", style);
+      if (tag !== ALL) {
+        const { data: tagged, error: taggedError } = await supabase
+          .from("summary_tags")
+          .select("summary_id")
+          .eq("tag_id", tag);
+        if (taggedError) throw taggedError;
+        request = request.in("id", (tagged || []).map((row) => row.summary_id));
+      }
+      if (from) request = request.gte("created_at", from.toISOString());
+      if (to) request = request.lt("created_at", endOfDay(to).toISOString());
+
+      const offset = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await request
+        .order("created_at", { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { rows: data || [], total: count ?? 0 };
+    },
+  });
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = !!query || channel !== ALL || style !== ALL || tag !== ALL || !!from || !!to;
+
+  const goToPage = (target: number) => {
+    if (target < 1 || target > pageCount || target === page) return;
+    updateParams({ page: target === 1 ? null : String(target) });
+  };
+
+  const handleRangeSelect = (range: DateRange | undefined) => {
+    updateParams({
+      from: range?.from ? format(range.from, "yyyy-MM-dd") : null,
+      to: range?.to ? format(range.to, "yyyy-MM-dd") : null,
+    });
+  };
+
+  const rangeLabel = from
+    ? to
+      ? `${format(from, "LLL d, y")} – ${format(to, "LLL d, y")}`
+      : `From ${format(from, "LLL d, y")}`
+    : "Any date";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-6xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-primary hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to summarizer
+        </Link>
+
+        <div className="flex items-center gap-2 mb-6">
+          <HistoryIcon className="w-6 h-6 text-primary" />
+          <h1 className="text-3xl font-bold">History</h1>
+          {isFetching && !isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        {/* Filters */}
+        <Card className="p-4 mb-6 space-y-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateParams({ q: searchInput.trim() });
+            }}
+          >
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search titles and summaries..."
+                className="pl-9"
+              />
+            </div>
+            <Button type="submit">Search</Button>
+          </form>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="w-[240px] justify-start font-normal">
+                  <CalendarIcon className="h-4 w-4 mr-2" />
+                  {rangeLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  selected={{ from, to }}
+                  onSelect={handleRangeSelect}
+                  numberOfMonths={2}
+                  disabled={{ after: new Date() }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+
+            <Select value={channel} onValueChange={(value) => updateParams({ channel: value })}>
+              <SelectTrigger className="w-[200px] h-9">
+                <SelectValue placeholder="Channel" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All channels</SelectItem>
+                {channels.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={style} onValueChange={(value) => updateParams({ style: value })}>
+              <SelectTrigger className="w-[180px] h-9">
+                <SelectValue placeholder="Style" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All styles</SelectItem>
+                {SUMMARY_STYLES.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {tags.length > 0 && (
+              <Select value={tag} onValueChange={(value) => updateParams({ tag: value })}>
+                <SelectTrigger className="w-[180px] h-9">
+                  <SelectValue placeholder="Tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tags</SelectItem>
+                  {tags.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSearchInput("");
+                  setSearchParams(new URLSearchParams());
+                }}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Clear filters
+              </Button>
+            )}
+
+            <span className="ml-auto text-sm text-muted-foreground">
+              {total} {total === 1 ? "summary" : "summaries"}
+            </span>
+          </div>
+        </Card>
+
+        {/* Results */}
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card className="p-8 text-center text-destructive">Failed to load history. Please try again.</Card>
+        ) : data && data.rows.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            {hasFilters ? "No summaries match these filters." : "You haven't summarized any videos yet."}
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {data?.rows.map((summary) => (
+              <Link key={summary.id} to={`/?summary=${summary.id}`}>
+                <Card className="p-6 h-full hover:shadow-lg hover:border-primary/40 transition-all">
+                  <h3 className="font-semibold text-sm mb-1 line-clamp-2 text-foreground">
+                    {summary.video_title || "Untitled Video"}
+                  </h3>
+                  {summary.channel_name && (
+                    <p className="text-xs text-muted-foreground mb-2 truncate">{summary.channel_name}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground line-clamp-3 mb-3">
+                    {asStructuredSummary(summary.structured_summary)?.tldr ?? summary.summary}
+                  </p>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">{new Date(summary.created_at).toLocaleDateString()}</p>
+                    <Badge variant="outline" className="text-[10px]">
+                      {getStyleLabel(summary.style)}
+                    </Badge>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <Pagination className="mt-8">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={page === 1}
+                  className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(page - 1);
+                  }}
+                />
+              </PaginationItem>
+              {pageWindow(page, pageCount).map((value, index) => (
+                <PaginationItem key={value ?? `gap-${index}`}>
+                  {value === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={value === page}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        goToPage(value);
+                      }}
+                    >
+                      {value}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={page === pageCount}
+                  className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(page + 1);
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,34 +1,323 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { Link, Navigate, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { Loader2, Play, History, Sparkles, Share2, Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Progress } from "@/components/ui/progress";
+import { TranscriptPanel } from "@/components/TranscriptPanel";
+import { VideoChat } from "@/components/VideoChat";
+import { SummaryContent } from "@/components/SummaryContent";
+import { ShareDialog } from "@/components/ShareDialog";
+import { ExportMenu } from "@/components/ExportMenu";
+import { CollectionMenu } from "@/components/CollectionMenu";
+import { SummaryTags } from "@/components/SummaryTags";
+import { SummaryEditor } from "@/components/SummaryEditor";
+import { VersionHistoryDialog } from "@/components/VersionHistoryDialog";
+import { ErrorCard } from "@/components/ErrorCard";
+import { Loader2, Play, History, Sparkles, Share2, Languages, LayoutList, RefreshCw, Upload, ArrowRight, ListVideo, Pencil, GitCompare } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
+import { asStructuredSummary } from "@/lib/structuredSummary";
+import { SUBTITLES_BUCKET, isCollectionUrl, isExternalUrl } from "@/lib/sources";
+import { invokeFunction } from "@/lib/functions";
+import { failureFromError, failureFromJob, type Failure } from "@/lib/errors";
+import {
+  ENDPOINTS,
+  listTracksResponseSchema,
+  summarizeResultSchema,
+  summarizeVideoAcceptedSchema,
+  type CaptionTrackInfo,
+  type ListTracksRequest,
+  type SummarizeVideoRequest,
+} from "@/lib/contract";
+import { isActiveJob, previewPartialSummary } from "@/lib/summarizeJobs";
+import { useJob } from "@/hooks/use-job";
+import { useRealtimeTable } from "@/hooks/use-realtime";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useSummaryTags } from "@/hooks/use-tags";
+import { formatTokens, formatUsd } from "@/lib/usage";
+import { DEFAULT_STYLE, SUMMARY_STYLES, getStyleLabel, type SummaryStyleId } from "@/lib/summaryStyles";
 
 interface Summary {
   id: string;
   video_url: string;
+  video_id: string | null;
+  source: string;
   video_title: string | null;
   summary: string;
+  structured_summary: Json | null;
+  transcript_language: string | null;
+  style: string;
   created_at: string;
+  version: number;
+  section_authors: Json;
+  suggested_tags: string[];
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  latency_ms: number | null;
+  cost_usd: number | null;
 }
 
+interface SummarizeOptions {
+  force?: boolean;
+  style?: SummaryStyleId;
+  subtitlePath?: string;
+  summaryId?: string;
+}
+
+interface BatchSummary {
+  id: string;
+  title: string;
+  kind: string;
+  status: string;
+  created_at: string;
+}
+
+// Pause after typing before a link's caption tracks are looked up
+const TRACK_LOOKUP_DELAY_MS = 600;
+
 const Index = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { currentWorkspace, canEdit } = useWorkspace();
   const [videoUrl, setVideoUrl] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const [currentSummary, setCurrentSummary] = useState<Summary | null>(null);
   const [history, setHistory] = useState<Summary[]>([]);
-  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isViewingVersions, setIsViewingVersions] = useState(false);
+  const [availableTracks, setAvailableTracks] = useState<CaptionTrackInfo[]>([]);
+  const [selectedLanguage, setSelectedLanguage] = useState("");
+  const [selectedStyle, setSelectedStyle] = useState<SummaryStyleId>(DEFAULT_STYLE);
+  const [styleVariants, setStyleVariants] = useState<Summary[]>([]);
+  const [failure, setFailure] = useState<Failure | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const lastRequestRef = useRef<SummarizeOptions>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedSummaryId = searchParams.get("summary");
+  const navigate = useNavigate();
 
-  useEffect(() => {
-    loadHistory();
+  // One entry per language; the edge function prefers the manual track when both exist
+  const languageOptions = availableTracks.reduce<CaptionTrackInfo[]>((options, track) => {
+    const existing = options.findIndex((option) => option.languageCode === track.languageCode);
+    if (existing === -1) return [...options, track];
+    if (options[existing].kind === "asr" && track.kind === "manual") {
+      return options.map((option, index) => (index === existing ? track : option));
+    }
+    return options;
   }, []);
 
-  const loadHistory = async () => {
+  const userId = user?.id;
+  const workspaceId = currentWorkspace?.id;
+  const { data: activeJob } = useJob(activeJobId);
+  const isLoading = isSubmitting || (!!activeJobId && (!activeJob || isActiveJob(activeJob)));
+  const retryAt = failure?.retryAt ?? null;
+  const retryInSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+  // Counts down the wait the server asked for; new summaries are held back until then
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  useEffect(() => {
+    if (workspaceId) loadHistory(workspaceId);
+  }, [workspaceId]);
+
+  // Summaries and playlists added by teammates or in another tab show up live,
+  // as do their edits to the open summary unless it is being edited here too
+  useRealtimeTable({
+    table: "summaries",
+    filter: `workspace_id=eq.${workspaceId}`,
+    enabled: !!workspaceId,
+    onChange: (payload) => {
+      if (workspaceId) loadHistory(workspaceId);
+      if (payload.eventType === "UPDATE" && payload.new.id === currentSummary?.id && !isEditing) {
+        setCurrentSummary(payload.new);
+      }
+    },
+  });
+
+  useRealtimeTable({
+    table: "summary_batches",
+    filter: `workspace_id=eq.${workspaceId}`,
+    enabled: !!workspaceId,
+    onChange: () => workspaceId && loadHistory(workspaceId),
+  });
+
+  // Pick up a summary that was still being written when the page was closed
+  useEffect(() => {
+    if (!userId) return;
+
+    const resumeActiveJob = async () => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .select("id")
+        .eq("user_id", userId)
+        .is("batch_item_id", null)
+        .in("status", ["queued", "running"])
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error loading active job:", error);
+      } else if (data) {
+        setActiveJobId(data.id);
+      }
+    };
+
+    resumeActiveJob();
+  }, [userId]);
+
+  // Look up the caption tracks of the entered link, so a language can be
+  // picked before the first summary
+  useEffect(() => {
+    const url = videoUrl.trim();
+    if (!url || !workspaceId || !canEdit || isCollectionUrl(url)) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const request: ListTracksRequest = { workspaceId, videoUrl: url };
+        const { tracks } = listTracksResponseSchema.parse(await invokeFunction(ENDPOINTS.listTracks, request));
+        if (!cancelled) setAvailableTracks(tracks);
+      } catch (error) {
+        // Summarizing reports the same problems, so the list is simply left out
+        console.error("Error listing caption tracks:", error);
+      }
+    }, TRACK_LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [videoUrl, workspaceId, canEdit]);
+
+  // Show the summary once the background job settles
+  useEffect(() => {
+    if (!activeJob || isActiveJob(activeJob)) return;
+
+    const parsed = activeJob.status === "succeeded" ? summarizeResultSchema.safeParse(activeJob.result) : null;
+    if (parsed && !parsed.success) {
+      console.error("Unexpected summarize result:", parsed.error);
+      setFailure({ code: "internal_error", message: "Received an unexpected response from the server", retryAt: null });
+    } else if (parsed) {
+      const data = parsed.data;
+      setAvailableTracks(data.availableTracks);
+      setSelectedLanguage(data.transcriptLanguage ?? "");
+
+      setCurrentSummary({
+        id: data.id,
+        video_url: data.videoUrl,
+        video_id: data.videoId,
+        source: data.source,
+        video_title: data.videoTitle,
+        summary: data.summary,
+        structured_summary: data.structuredSummary,
+        transcript_language: data.transcriptLanguage,
+        style: data.style,
+        created_at: data.created_at,
+        version: data.version,
+        section_authors: data.sectionAuthors,
+        suggested_tags: data.suggestedTags,
+        model: data.model,
+        prompt_tokens: data.usage.promptTokens,
+        completion_tokens: data.usage.completionTokens,
+        latency_ms: data.usage.latencyMs,
+        cost_usd: data.usage.costUsd,
+      });
+
+      toast.success(data.cached ? "Loaded the existing summary for this video" : "Video summarized successfully!");
+    } else {
+      setFailure(failureFromJob(activeJob));
+    }
+    setActiveJobId(null);
+  }, [activeJob]);
+
+  // Open a summary picked on the history page
+  useEffect(() => {
+    if (!requestedSummaryId || !userId) return;
+
+    const loadRequestedSummary = async () => {
+      const { data, error } = await supabase.from("summaries").select("*").eq("id", requestedSummaryId).maybeSingle();
+
+      if (error) {
+        console.error("Error loading summary:", error);
+      } else if (data) {
+        setCurrentSummary(data);
+        setVideoUrl(isExternalUrl(data.video_url) ? data.video_url : "");
+        setAvailableTracks([]);
+        setSelectedLanguage("");
+      } else {
+        toast.error("Summary not found");
+      }
+      setSearchParams({}, { replace: true });
+    };
+
+    loadRequestedSummary();
+  }, [requestedSummaryId, userId, setSearchParams]);
+
+  const currentVideoId = currentSummary?.video_id;
+  const currentSummaryId = currentSummary?.id;
+  const { data: summaryTags = [] } = useSummaryTags(currentSummaryId);
+
+  useEffect(() => {
+    setIsEditing(false);
+  }, [currentSummaryId]);
+
+  // Latest summary of the current video in each style, for switching between them
+  useEffect(() => {
+    if (!currentVideoId || !workspaceId) {
+      setStyleVariants([]);
+      return;
+    }
+
+    const loadStyleVariants = async () => {
+      const { data, error } = await supabase
+        .from("summaries")
+        .select("*")
+        .eq("video_id", currentVideoId)
+        .eq("workspace_id", workspaceId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error loading summary styles:", error);
+        return;
+      }
+
+      const latestByStyle = new Map<string, Summary>();
+      for (const summary of data || []) {
+        if (!latestByStyle.has(summary.style)) latestByStyle.set(summary.style, summary);
+      }
+      setStyleVariants(
+        SUMMARY_STYLES.map((style) => latestByStyle.get(style.id)).filter((summary): summary is Summary => !!summary),
+      );
+    };
+
+    loadStyleVariants();
+  }, [currentVideoId, currentSummaryId, workspaceId]);
+
+  // The five most recent summaries and three most recent playlists of the current workspace
+  const loadHistory = async (libraryId: string) => {
     const { data, error } = await supabase
       .from("summaries")
       .select("*")
+      .eq("workspace_id", libraryId)
       .order("created_at", { ascending: false })
       .limit(5);
 
@@ -37,59 +326,138 @@ const Index = () => {
     } else {
       setHistory(data || []);
     }
+
+    const { data: batchData, error: batchError } = await supabase
+      .from("summary_batches")
+      .select("id, title, kind, status, created_at")
+      .eq("workspace_id", libraryId)
+      .order("created_at", { ascending: false })
+      .limit(3);
+
+    if (batchError) {
+      console.error("Error loading batches:", batchError);
+    } else {
+      setBatches(batchData || []);
+    }
+  };
+
+  const reportSubmitError = (error: unknown, fallback: string) => {
+    console.error("Error:", error);
+    setFailure(failureFromError(error, fallback));
+  };
+
+  // Playlists and channels are expanded server-side and summarized video by video
+  const handleSummarizeBatch = async (style: SummaryStyleId) => {
+    setIsSubmitting(true);
+    try {
+      const data = await invokeFunction<{ batchId: string; total: number; truncated: boolean }>("summarize-batch", {
+        workspaceId,
+        url: videoUrl.trim(),
+        style,
+      });
+      toast.success(data.truncated ? `Queued the first ${data.total} videos` : `Queued ${data.total} videos`);
+      navigate(`/batch/${data.batchId}`);
+    } catch (error) {
+      reportSubmitError(error, "Failed to queue the playlist");
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const handleSummarize = async () => {
-    if (!videoUrl.trim()) {
-      toast.error("Please enter a YouTube URL");
+  const handleSummarize = async (options: SummarizeOptions = {}) => {
+    const { force = false, style = selectedStyle, subtitlePath, summaryId } = options;
+    if (!subtitlePath && !videoUrl.trim()) {
+      toast.error("Please enter a video URL");
       return;
     }
 
-    setIsLoading(true);
+    lastRequestRef.current = options;
+    setFailure(null);
+
+    if (!subtitlePath && isCollectionUrl(videoUrl)) {
+      return handleSummarizeBatch(style);
+    }
+
+    setIsSubmitting(true);
     setCurrentSummary(null);
 
+    // The summary is written by a background job; the page follows its progress
     try {
-      const { data, error } = await supabase.functions.invoke("summarize-video", {
-        body: { videoUrl },
-      });
+      const request: SummarizeVideoRequest = {
+        workspaceId,
+        ...(subtitlePath ? { subtitlePath } : { videoUrl }),
+        preferredLanguages: selectedLanguage ? [selectedLanguage] : [...navigator.languages],
+        style,
+        force,
+        summaryId,
+      };
+      const { jobId } = summarizeVideoAcceptedSchema.parse(await invokeFunction(ENDPOINTS.summarizeVideo, request));
+      setActiveJobId(jobId);
+    } catch (error) {
+      reportSubmitError(error, "Failed to summarize video");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-      if (error) throw error;
+  // Uploads go to the user's folder in the subtitles bucket, then get summarized from there
+  const handleSubtitleUpload = async (file: File) => {
+    if (!userId) return;
+    if (!/\.(vtt|srt)$/i.test(file.name)) {
+      toast.error("Please choose a .vtt or .srt subtitle file");
+      return;
+    }
 
-      setCurrentSummary({
-        id: data.id,
-        video_url: videoUrl,
-        video_title: data.videoTitle,
-        summary: data.summary,
-        created_at: data.created_at,
-      });
+    const path = `${userId}/${crypto.randomUUID()}-${file.name}`;
+    const { error } = await supabase.storage.from(SUBTITLES_BUCKET).upload(path, file, {
+      contentType: "text/plain",
+    });
 
-      toast.success("Video summarized successfully!");
-      loadHistory();
-    } catch (error: any) {
-      console.error("Error:", error);
-      toast.error(error.message || "Failed to summarize video");
-    } finally {
-      setIsLoading(false);
+    if (error) {
+      console.error("Error uploading subtitles:", error);
+      toast.error("Failed to upload subtitle file");
+      return;
     }
+
+    handleVideoUrlChange("");
+    handleSummarize({ subtitlePath: path });
+  };
+
+  // Regenerating writes a new version of the same summary and keeps the
+  // sections people have edited. The server summarizes the summary's own
+  // source, so this works for files a teammate uploaded too.
+  const handleRegenerate = (summary: Summary) => {
+    handleSummarize({
+      force: true,
+      summaryId: summary.id,
+      style: summary.style as SummaryStyleId,
+      subtitlePath: summary.source === "upload" ? summary.video_id ?? undefined : undefined,
+    });
+  };
+
+  const handleVideoUrlChange = (url: string) => {
+    setVideoUrl(url);
+    // Caption tracks belong to the previous video
+    setAvailableTracks([]);
+    setSelectedLanguage("");
   };
 
   const handleHistoryClick = (summary: Summary) => {
     setCurrentSummary(summary);
-    setVideoUrl(summary.video_url);
+    handleVideoUrlChange(isExternalUrl(summary.video_url) ? summary.video_url : "");
   };
 
-  const handleShare = async (id: string) => {
-    const shareUrl = `${window.location.origin}/share/${id}`;
-    try {
-      await navigator.clipboard.writeText(shareUrl);
-      setCopiedId(id);
-      toast.success("Share link copied to clipboard!");
-      setTimeout(() => setCopiedId(null), 2000);
-    } catch (err) {
-      console.error('Failed to copy:', err);
-      toast.error("Failed to copy link. Please try again.");
-    }
-  };
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
@@ -98,7 +466,7 @@ const Index = () => {
         <div className="text-center mb-12 animate-fade-in">
           <div className="inline-flex items-center gap-2 mb-4 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium">
             <Sparkles className="w-4 h-4" />
-            <span>Powered by DeepSeek AI</span>
+            <span>AI-powered summaries</span>
           </div>
           <h1 className="text-5xl md:text-6xl font-bold mb-4 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
             Video Knowledge Retriever
@@ -114,17 +482,17 @@ const Index = () => {
             <div className="flex-1">
               <Input
                 type="text"
-                placeholder="Paste YouTube URL here... (e.g., https://youtube.com/watch?v=...)"
+                placeholder="Paste a YouTube or Vimeo URL, or a link to a .vtt/.srt file..."
                 value={videoUrl}
-                onChange={(e) => setVideoUrl(e.target.value)}
-                onKeyPress={(e) => e.key === "Enter" && !isLoading && handleSummarize()}
+                onChange={(e) => handleVideoUrlChange(e.target.value)}
+                onKeyPress={(e) => e.key === "Enter" && !isLoading && retryInSeconds === 0 && handleSummarize()}
                 className="h-14 text-lg border-2 focus:border-primary transition-colors"
                 disabled={isLoading}
               />
             </div>
             <Button
-              onClick={handleSummarize}
-              disabled={isLoading || !videoUrl.trim()}
+              onClick={() => handleSummarize()}
+              disabled={isLoading || retryInSeconds > 0 || !canEdit || !videoUrl.trim()}
               size="lg"
               className="h-14 px-8 bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-white font-semibold shadow-md hover:shadow-lg transition-all"
             >
@@ -136,23 +504,141 @@ const Index = () => {
               ) : (
                 <>
                   <Play className="mr-2 h-5 w-5" />
-                  Summarize Video
+                  {isCollectionUrl(videoUrl) ? "Summarize All Videos" : "Summarize Video"}
                 </>
               )}
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".vtt,.srt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleSubtitleUpload(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading || retryInSeconds > 0 || !canEdit}
+              className="h-14"
+            >
+              <Upload className="mr-2 h-5 w-5" />
+              Upload subtitles
+            </Button>
+          </div>
+
+          {currentWorkspace && !canEdit && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              You have viewer access to {currentWorkspace.name}. Ask an owner for editor access to add summaries.
+            </p>
+          )}
+
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <LayoutList className="w-4 h-4" />
+              <span>Summary style</span>
+            </div>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={selectedStyle}
+              onValueChange={(value) => value && setSelectedStyle(value as SummaryStyleId)}
+              disabled={isLoading}
+              className="flex-wrap justify-start"
+            >
+              {SUMMARY_STYLES.map((style) => (
+                <ToggleGroupItem key={style.id} value={style.id}>
+                  {style.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
           </div>
 
+          {languageOptions.length > 1 && (
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Languages className="w-4 h-4" />
+                <span>Caption language</span>
+              </div>
+              <Select value={selectedLanguage} onValueChange={setSelectedLanguage} disabled={isLoading}>
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue placeholder="Choose a language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {languageOptions.map((track) => (
+                    <SelectItem key={track.languageCode} value={track.languageCode}>
+                      {track.name}
+                      {track.kind === "asr" ? " (auto-generated)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">
+                {currentSummary ? "Pick a language and summarize again to use that track." : "The summary uses this track."}
+              </span>
+            </div>
+          )}
+
           {isLoading && (
-            <div className="mt-6 text-center">
-              <div className="inline-flex items-center gap-3 text-muted-foreground animate-pulse-soft">
-                <div className="w-2 h-2 bg-primary rounded-full"></div>
-                <span>Fetching transcript and generating summary...</span>
-                <div className="w-2 h-2 bg-primary rounded-full"></div>
+            <div className="mt-6 space-y-2">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span className="inline-flex items-center gap-2 animate-pulse-soft">
+                  <div className="w-2 h-2 bg-primary rounded-full"></div>
+                  {activeJob?.message ?? "Queued..."}
+                </span>
+                <span>{activeJob?.progress ?? 0}%</span>
               </div>
+              <Progress value={activeJob?.progress ?? 0} className="h-2" />
             </div>
           )}
         </Card>
 
+        {failure && (
+          <ErrorCard
+            failure={failure}
+            retryInSeconds={retryInSeconds}
+            canEdit={canEdit}
+            onRetry={() => handleSummarize(lastRequestRef.current)}
+            onUploadSubtitles={() => fileInputRef.current?.click()}
+            onDismiss={() => setFailure(null)}
+          />
+        )}
+
+        {/* Playlists and channels */}
+        {batches.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-8 text-sm">
+            <ListVideo className="w-4 h-4 text-primary" />
+            <span className="text-muted-foreground">Playlists:</span>
+            {batches.map((batch) => (
+              <Link key={batch.id} to={`/batch/${batch.id}`}>
+                <Badge variant="outline" className="gap-1 hover:border-primary/40">
+                  <span className="max-w-[200px] truncate">{batch.title}</span>
+                  {(batch.status === "running" || batch.status === "summarizing") && (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  )}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Live preview while the summary is being written */}
+        {isLoading && activeJob?.partial_output && (
+          <Card className="p-8 mb-8 shadow-lg animate-fade-in border-l-4 border-l-primary/50">
+            <h2 className="text-lg font-semibold text-primary mb-4">Writing summary...</h2>
+            <div className="space-y-2 text-foreground leading-relaxed">
+              {previewPartialSummary(activeJob.partial_output).map((line, index) => (
+                <p key={index}>{line}</p>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Summary Display */}
         {currentSummary && (
           <Card className="p-8 mb-8 shadow-lg animate-fade-in border-l-4 border-l-primary">
@@ -161,47 +647,142 @@ const Index = () => {
                 <h2 className="text-2xl font-bold text-primary mb-2">
                   {currentSummary.video_title || "Video Summary"}
                 </h2>
-                <a
-                  href={currentSummary.video_url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-sm text-muted-foreground hover:text-primary transition-colors"
-                >
-                  {currentSummary.video_url}
-                </a>
-              </div>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleShare(currentSummary.id)}
-              >
-                {copiedId === currentSummary.id ? (
-                  <Check className="h-4 w-4 mr-2" />
+                <div className="flex flex-wrap gap-2 mb-2">
+                  <Badge variant="outline">{getStyleLabel(currentSummary.style)}</Badge>
+                  {currentSummary.transcript_language && (
+                    <Badge variant="secondary" className="uppercase">
+                      {currentSummary.transcript_language}
+                    </Badge>
+                  )}
+                </div>
+                {isExternalUrl(currentSummary.video_url) ? (
+                  <a
+                    href={currentSummary.video_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-muted-foreground hover:text-primary transition-colors"
+                  >
+                    {currentSummary.video_url}
+                  </a>
                 ) : (
+                  <p className="text-sm text-muted-foreground">Uploaded subtitle file</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRegenerate(currentSummary)}
+                  disabled={isLoading || !canEdit}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsEditing(true)}
+                  disabled={isLoading || !canEdit || isEditing}
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsViewingVersions(true)}>
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Versions
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSharingId(currentSummary.id)}
+                >
                   <Share2 className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+                {currentWorkspace && (
+                  <CollectionMenu summaryId={currentSummary.id} workspaceId={currentWorkspace.id} canEdit={canEdit} />
                 )}
-                {copiedId === currentSummary.id ? 'Copied!' : 'Share'}
-              </Button>
-            </div>
-            <div className="prose prose-sm max-w-none">
-              <div className="whitespace-pre-wrap text-foreground leading-relaxed">
-                {currentSummary.summary}
+                <ExportMenu summary={{ ...currentSummary, tags: summaryTags.map((tag) => tag.name) }} />
               </div>
             </div>
+            {currentWorkspace && (
+              <div className="mb-4">
+                <SummaryTags
+                  summaryId={currentSummary.id}
+                  workspaceId={currentWorkspace.id}
+                  suggestedTags={currentSummary.suggested_tags}
+                  canEdit={canEdit}
+                />
+              </div>
+            )}
+            {styleVariants.length > 1 && (
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={currentSummary.style}
+                onValueChange={(value) => {
+                  const variant = styleVariants.find((summary) => summary.style === value);
+                  if (variant) setCurrentSummary(variant);
+                }}
+                className="justify-start flex-wrap mb-4"
+              >
+                {styleVariants.map((variant) => (
+                  <ToggleGroupItem key={variant.id} value={variant.style}>
+                    {getStyleLabel(variant.style)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+            {isEditing ? (
+              <SummaryEditor
+                summary={currentSummary}
+                onSaved={(summary) => {
+                  setCurrentSummary(summary);
+                  setIsEditing(false);
+                }}
+                onCancel={() => setIsEditing(false)}
+              />
+            ) : (
+              <SummaryContent
+                summary={currentSummary.summary}
+                structured={currentSummary.structured_summary}
+                videoUrl={currentSummary.video_url}
+                sectionAuthors={currentSummary.section_authors}
+              />
+            )}
             <div className="mt-6 pt-4 border-t border-border">
               <p className="text-xs text-muted-foreground">
-                Generated on {new Date(currentSummary.created_at).toLocaleString()}
+                Generated on {new Date(currentSummary.created_at).toLocaleString()} · Version {currentSummary.version}
+                {currentSummary.model && ` · ${currentSummary.model}`}
+                {currentSummary.prompt_tokens !== null &&
+                  ` · ${formatTokens((currentSummary.prompt_tokens ?? 0) + (currentSummary.completion_tokens ?? 0))} tokens`}
+                {currentSummary.latency_ms !== null && ` in ${(currentSummary.latency_ms / 1000).toFixed(1)}s`}
+                {currentSummary.cost_usd !== null && ` · ${formatUsd(Number(currentSummary.cost_usd))}`}
               </p>
             </div>
           </Card>
         )}
 
+        {/* Transcript */}
+        {currentSummary && (
+          <TranscriptPanel summaryId={currentSummary.id} videoUrl={currentSummary.video_url} />
+        )}
+
+        {/* Chat */}
+        {currentSummary && (
+          <VideoChat summaryId={currentSummary.id} videoUrl={currentSummary.video_url} />
+        )}
+
         {/* History Section */}
         {history.length > 0 && (
           <div className="animate-fade-in" style={{ animationDelay: "0.2s" }}>
             <div className="flex items-center gap-2 mb-4">
               <History className="w-5 h-5 text-primary" />
               <h2 className="text-2xl font-bold">Recent Summaries</h2>
+              <Link to="/history" className="ml-auto inline-flex items-center gap-1 text-sm text-primary hover:underline">
+                View all
+                <ArrowRight className="w-4 h-4" />
+              </Link>
             </div>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
               {history.map((summary, index) => (
@@ -218,11 +799,16 @@ const Index = () => {
                       {summary.video_title || "Untitled Video"}
                     </h3>
                     <p className="text-xs text-muted-foreground line-clamp-3 mb-3">
-                      {summary.summary}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {new Date(summary.created_at).toLocaleDateString()}
+                      {asStructuredSummary(summary.structured_summary)?.tldr ?? summary.summary}
                     </p>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(summary.created_at).toLocaleDateString()}
+                      </p>
+                      <Badge variant="outline" className="text-[10px]">
+                        {getStyleLabel(summary.style)}
+                      </Badge>
+                    </div>
                   </div>
                   <div className="mt-3 pt-3 border-t border-border">
                     <Button
@@ -230,21 +816,12 @@ const Index = () => {
                       size="sm"
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleShare(summary.id);
+                        setSharingId(summary.id);
                       }}
                       className="w-full"
                     >
-                      {copiedId === summary.id ? (
-                        <>
-                          <Check className="h-4 w-4 mr-2" />
-                          Copied!
-                        </>
-                      ) : (
-                        <>
-                          <Share2 className="h-4 w-4 mr-2" />
-                          Share
-                        </>
-                      )}
+                      <Share2 className="h-4 w-4 mr-2" />
+                      Share
                     </Button>
                   </div>
                 </Card>
@@ -261,10 +838,21 @@ const Index = () => {
             </div>
             <h3 className="text-xl font-semibold mb-2">No summaries yet</h3>
             <p className="text-muted-foreground max-w-md mx-auto">
-              Paste a YouTube URL above to get started. We'll fetch the transcript and create a comprehensive summary for you.
+              Paste a YouTube or Vimeo URL above, or upload a subtitle file, to get started. We'll fetch the transcript and create a comprehensive summary for you.
             </p>
           </div>
         )}
+
+        <ShareDialog summaryId={sharingId} canEdit={canEdit} onOpenChange={(open) => !open && setSharingId(null)} />
+        <VersionHistoryDialog
+          summary={isViewingVersions ? currentSummary : null}
+          canEdit={canEdit}
+          onOpenChange={setIsViewingVersions}
+          onRestored={(summary) => {
+            setCurrentSummary(summary);
+            setIsViewingVersions(false);
+          }}
+        />
       </div>
     </div>
   );
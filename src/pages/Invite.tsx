@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+
+// Joins the workspace behind an invite link, then opens it
+const Invite = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { refresh, selectWorkspace } = useWorkspace();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  const accepted = useRef(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId || !token || accepted.current) return;
+    accepted.current = true;
+
+    const acceptInvite = async () => {
+      const { data, error } = await supabase.rpc("accept_workspace_invite", { invite_token: token });
+
+      if (error) {
+        console.error("Error accepting invite:", error);
+        setError(error.message || "Failed to accept the invite");
+        return;
+      }
+
+      await refresh();
+      selectWorkspace(data);
+      toast.success("You joined the workspace");
+      navigate("/", { replace: true });
+    };
+
+    acceptInvite();
+  }, [userId, token, refresh, selectWorkspace, navigate]);
+
+  if (!isAuthLoading && !user) {
+    return <Navigate to={`/auth?next=${encodeURIComponent(`/invite/${token}`)}`} replace />;
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="p-8 max-w-md w-full text-center">
+          <h1 className="text-2xl font-bold mb-2">Invite Not Accepted</h1>
+          <p className="text-muted-foreground mb-6">{error}</p>
+          <Button asChild>
+            <Link to="/">Go Home</Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+    </div>
+  );
+};
+
+export default Invite;
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Link, Navigate, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Loader2, Search as SearchIcon, Sparkles } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { formatTimestamp } from "@/lib/youtube";
+import { buildTimestampLink } from "@/lib/sources";
+import { invokeFunction } from "@/lib/functions";
+
+interface SearchPassage {
+  startMs: number;
+  endMs: number;
+  content: string;
+  similarity: number;
+}
+
+interface SearchResult {
+  summaryId: string;
+  videoTitle: string | null;
+  videoUrl: string;
+  channelName: string | null;
+  createdAt: string;
+  score: number;
+  summaryMatch: boolean;
+  passages: SearchPassage[];
+}
+
+const Search = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const [input, setInput] = useState(query);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["semantic-search", workspaceId, query],
+    enabled: !!workspaceId && !!query,
+    staleTime: 60_000,
+    queryFn: async () => {
+      const data = await invokeFunction<{ results: SearchResult[] }>("semantic-search", { workspaceId, query });
+      return data.results;
+    },
+  });
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-primary hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to summarizer
+        </Link>
+
+        <div className="flex items-center gap-2 mb-2">
+          <Sparkles className="w-6 h-6 text-primary" />
+          <h1 className="text-3xl font-bold">Search your library</h1>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Describe what you're looking for in your own words. Matches come from summaries and the moments in each
+          transcript that discuss it.
+        </p>
+
+        <form
+          className="flex gap-2 mb-8"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const next = input.trim();
+            setSearchParams(next ? { q: next } : {});
+          }}
+        >
+          <div className="relative flex-1">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="e.g. how to price a SaaS product for small teams"
+              className="pl-9 h-12"
+            />
+          </div>
+          <Button type="submit" className="h-12" disabled={!input.trim() || isFetching}>
+            {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Search"}
+          </Button>
+        </form>
+
+        {error ? (
+          <Card className="p-8 text-center text-destructive">
+            {error instanceof Error ? error.message : "Search failed. Please try again."}
+          </Card>
+        ) : isFetching && !data ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : data && data.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">Nothing in your library matches that query.</Card>
+        ) : (
+          <div className="space-y-4">
+            {data?.map((result) => (
+              <Card key={result.summaryId} className="p-6">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/?summary=${result.summaryId}`}
+                      className="font-semibold text-foreground hover:text-primary line-clamp-2"
+                    >
+                      {result.videoTitle || "Untitled Video"}
+                    </Link>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {[result.channelName, new Date(result.createdAt).toLocaleDateString()].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="shrink-0 text-[10px]">
+                    {Math.round(result.score * 100)}% match
+                  </Badge>
+                </div>
+
+                {result.passages.length > 0 ? (
+                  <ul className="space-y-2">
+                    {result.passages.map((passage) => {
+                      const link = buildTimestampLink(result.videoUrl, passage.startMs / 1000);
+                      const label = formatTimestamp(passage.startMs);
+                      return (
+                        <li key={passage.startMs} className="flex gap-3 text-sm leading-relaxed">
+                          {link ? (
+                            <a
+                              href={link}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="shrink-0 font-mono text-xs text-primary hover:underline pt-0.5"
+                            >
+                              {label}
+                            </a>
+                          ) : (
+                            <span className="shrink-0 font-mono text-xs text-muted-foreground pt-0.5">{label}</span>
+                          )}
+                          <span className="text-muted-foreground line-clamp-3">{passage.content}</span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ) : (
+                  result.summaryMatch && <p className="text-sm text-muted-foreground">Matched the summary of this video.</p>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Search;
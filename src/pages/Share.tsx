@@ -3,44 +3,80 @@ import { useParams, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Loader2, Home, ExternalLink } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { TranscriptPanel } from '@/components/TranscriptPanel';
+import { VideoChat } from '@/components/VideoChat';
+import { SummaryContent } from '@/components/SummaryContent';
+import { ExportMenu } from '@/components/ExportMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useRealtimeTable } from '@/hooks/use-realtime';
+import { formatWait } from '@/lib/functions';
+import { isExternalUrl } from '@/lib/sources';
+import type { ShareResolution } from '@/lib/shares';
+import { Loader2, Home, ExternalLink, Lock } from 'lucide-react';
 
-interface Summary {
-  id: string;
-  video_url: string;
-  video_title: string | null;
-  summary: string;
-  created_at: string;
-}
+type ShareFailure = Exclude<
+  ShareResolution['status'],
+  'ok' | 'password_required' | 'wrong_password' | 'too_many_attempts'
+>;
+
+const FAILURE_MESSAGES: Record<ShareFailure, { title: string; description: string }> = {
+  not_found: {
+    title: 'Link not found',
+    description: 'This share link is invalid, or the summary it pointed to was deleted.',
+  },
+  revoked: {
+    title: 'Link revoked',
+    description: 'The owner of this summary has turned this link off. Ask them for a new one.',
+  },
+  expired: {
+    title: 'Link expired',
+    description: 'This share link is no longer valid. Ask the owner of the summary for a new one.',
+  },
+  sign_in_required: {
+    title: 'Sign in to view',
+    description: 'This summary is shared with the members of a workspace. Sign in to check your access.',
+  },
+  forbidden: {
+    title: 'No access',
+    description: 'This summary is only shared with the members of a workspace you are not part of.',
+  },
+};
+
+// How often viewers who cannot receive realtime updates look for changes
+const SHARE_REFRESH_INTERVAL_MS = 30_000;
 
 const Share = () => {
-  const { id } = useParams<{ id: string }>();
-  const [summary, setSummary] = useState<Summary | null>(null);
+  const { token } = useParams<{ token: string }>();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [resolution, setResolution] = useState<ShareResolution | null>(null);
+  const [password, setPassword] = useState('');
+  const [submittedPassword, setSubmittedPassword] = useState<string | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const userId = user?.id;
+
   useEffect(() => {
-    const loadSummary = async () => {
-      if (!id) {
+    // Workspace-only links depend on who is signed in
+    if (isAuthLoading) return;
+
+    const resolveShare = async () => {
+      if (!token) {
         setError('Invalid share link');
         setIsLoading(false);
         return;
       }
 
+      setIsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from('summaries')
-          .select('*')
-          .eq('id', id)
-          .single();
+        const { data, error } = await supabase.rpc('resolve_share', {
+          share_token: token,
+          share_password: submittedPassword,
+        });
 
         if (error) throw error;
-
-        if (!data) {
-          setError('Summary not found');
-        } else {
-          setSummary(data);
-        }
+        setResolution(data as unknown as ShareResolution);
       } catch (err) {
         console.error('Error loading summary:', err);
         setError('Failed to load summary');
@@ -49,10 +85,66 @@ const Share = () => {
       }
     };
 
-    loadSummary();
-  }, [id]);
+    resolveShare();
+  }, [token, submittedPassword, userId, isAuthLoading]);
+
+  const summary = resolution?.status === 'ok' ? resolution.summary : null;
+
+  const isShown = !!summary;
+  const isMember = resolution?.status === 'ok' && resolution.member;
+
+  // Edits and regenerations by the owner appear without a reload. Realtime
+  // applies row-level security, so only workspace members get pushed changes.
+  useRealtimeTable({
+    table: 'summaries',
+    filter: `id=eq.${summary?.id}`,
+    enabled: !!summary && isMember,
+    onChange: (payload) => {
+      if (payload.eventType !== 'UPDATE') return;
+      setResolution((current) => (current?.status === 'ok' ? { ...current, summary: payload.new } : current));
+    },
+  });
+
+  // Everyone else checks the link again now and then, without counting a view
+  useEffect(() => {
+    if (!isShown || isMember || !token) return;
+
+    const timer = setInterval(async () => {
+      if (document.visibilityState !== 'visible') return;
+      const { data, error } = await supabase.rpc('resolve_share', {
+        share_token: token,
+        share_password: submittedPassword,
+        count_view: false,
+      });
+      if (error) {
+        console.error('Error refreshing shared summary:', error);
+        return;
+      }
+      const next = data as unknown as ShareResolution;
+      // A link revoked while open shows as revoked; a summary that did not change is left alone
+      setResolution((current) =>
+        next.status === 'ok' && current?.status === 'ok' && JSON.stringify(next) === JSON.stringify(current)
+          ? current
+          : next
+      );
+    }, SHARE_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isShown, isMember, token, submittedPassword]);
+
+  // Unlisted links stay out of search engines
+  const isUnlisted = resolution?.status === 'ok' && resolution.visibility !== 'public';
+
+  useEffect(() => {
+    if (!isUnlisted) return;
+    const meta = document.createElement('meta');
+    meta.name = 'robots';
+    meta.content = 'noindex';
+    document.head.appendChild(meta);
+    return () => meta.remove();
+  }, [isUnlisted]);
 
-  if (isLoading) {
+  if (isLoading && !resolution) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -60,22 +152,68 @@ const Share = () => {
     );
   }
 
-  if (error || !summary) {
+  if (
+    resolution?.status === 'password_required' ||
+    resolution?.status === 'wrong_password' ||
+    resolution?.status === 'too_many_attempts'
+  ) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-background p-4">
+        <Card className="max-w-md w-full p-8">
+          <div className="flex items-center gap-2 mb-2">
+            <Lock className="h-5 w-5 text-primary" />
+            <h1 className="text-2xl font-bold text-foreground">Password required</h1>
+          </div>
+          <p className="text-muted-foreground mb-6">Enter the password you were given to view this summary.</p>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSubmittedPassword(password);
+            }}
+          >
+            <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoFocus />
+            {resolution.status === 'wrong_password' && !isLoading && (
+              <p className="text-sm text-destructive">That password is not correct.</p>
+            )}
+            {resolution.status === 'too_many_attempts' && !isLoading && (
+              <p className="text-sm text-destructive">
+                Too many wrong passwords. Try again in {formatWait(resolution.retry_after_seconds)}.
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={!password || isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              View summary
+            </Button>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error || !resolution || resolution.status !== 'ok' || !summary) {
+    const failure = resolution && resolution.status !== 'ok' ? FAILURE_MESSAGES[resolution.status] : null;
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-background p-4">
         <Card className="max-w-md w-full p-8 text-center">
           <h1 className="text-2xl font-bold text-foreground mb-4">
-            {error || 'Summary not found'}
+            {failure?.title || error || 'Summary not found'}
           </h1>
           <p className="text-muted-foreground mb-6">
-            This summary link may be invalid or the summary may have been removed.
+            {failure?.description || 'This summary link may be invalid or the summary may have been removed.'}
           </p>
-          <Link to="/">
-            <Button>
-              <Home className="mr-2 h-4 w-4" />
-              Go to Home
-            </Button>
-          </Link>
+          {resolution?.status === 'sign_in_required' ? (
+            <Link to={`/auth?next=${encodeURIComponent(`/share/${token}`)}`}>
+              <Button>Sign in</Button>
+            </Link>
+          ) : (
+            <Link to="/">
+              <Button>
+                <Home className="mr-2 h-4 w-4" />
+                Go to Home
+              </Button>
+            </Link>
+          )}
         </Card>
       </div>
     );
@@ -94,24 +232,31 @@ const Share = () => {
         </div>
 
         <Card className="p-6 md:p-8">
-          <div className="mb-6">
-            <h1 className="text-3xl font-bold text-foreground mb-2">
-              {summary.video_title || 'Video Summary'}
-            </h1>
-            <a
-              href={summary.video_url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-primary hover:underline inline-flex items-center gap-1"
-            >
-              Watch Video
-              <ExternalLink className="h-4 w-4" />
-            </a>
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                {summary.video_title || 'Video Summary'}
+              </h1>
+              {isExternalUrl(summary.video_url) && (
+                <a
+                  href={summary.video_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline inline-flex items-center gap-1"
+                >
+                  Watch Video
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              )}
+            </div>
+            <ExportMenu summary={summary} />
           </div>
 
-          <div className="prose prose-sm max-w-none text-foreground">
-            <div className="whitespace-pre-wrap">{summary.summary}</div>
-          </div>
+          <SummaryContent
+            summary={summary.summary}
+            structured={summary.structured_summary}
+            videoUrl={summary.video_url}
+          />
 
           <div className="mt-6 pt-6 border-t border-border">
             <p className="text-sm text-muted-foreground">
@@ -119,6 +264,19 @@ const Share = () => {
             </p>
           </div>
         </Card>
+
+        <div className="mt-8">
+          <TranscriptPanel
+            summaryId={summary.id}
+            videoUrl={summary.video_url}
+            preloadedSegments={resolution.transcript}
+          />
+          <VideoChat
+            summaryId={summary.id}
+            videoUrl={summary.video_url}
+            share={{ token: token!, password: submittedPassword, hasTranscript: !!resolution.transcript?.length }}
+          />
+        </div>
       </div>
     </div>
   );
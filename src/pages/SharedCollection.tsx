@@ -0,0 +1,133 @@
+import { useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { ExternalLink, Folder, Home, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { SummaryContent } from "@/components/SummaryContent";
+import { ExportMenu } from "@/components/ExportMenu";
+import { isExternalUrl } from "@/lib/sources";
+import type { SharedCollection as SharedCollectionData } from "@/lib/collections";
+
+// Read-only view of a collection opened through its share link
+const SharedCollection = () => {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: collection, isLoading, error } = useQuery({
+    queryKey: ["shared-collection", token],
+    enabled: !!token,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("resolve_collection_share", { share_token: token! });
+      if (error) throw error;
+      return data as unknown as SharedCollectionData | null;
+    },
+  });
+
+  // Collection links are unlisted
+  useEffect(() => {
+    const meta = document.createElement("meta");
+    meta.name = "robots";
+    meta.content = "noindex";
+    document.head.appendChild(meta);
+    return () => meta.remove();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="max-w-md w-full p-8 text-center">
+          <h1 className="text-2xl font-bold text-foreground mb-4">Collection not found</h1>
+          <p className="text-muted-foreground mb-6">
+            {error ? "Failed to load the collection." : "This link is invalid, has expired, or its owner turned it off."}
+          </p>
+          <Link to="/">
+            <Button>
+              <Home className="mr-2 h-4 w-4" />
+              Go Home
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-6">
+          <Link to="/">
+            <Button variant="outline" size="sm">
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Button>
+          </Link>
+        </div>
+
+        <div className="flex items-center gap-2 mb-2">
+          <Folder className="w-6 h-6 text-primary" />
+          <h1 className="text-3xl font-bold text-foreground">{collection.name}</h1>
+        </div>
+        {collection.description && <p className="text-muted-foreground mb-6">{collection.description}</p>}
+
+        {collection.hidden_count > 0 && (
+          <p className="text-sm text-muted-foreground mb-4">
+            {collection.hidden_count === 1
+              ? "1 summary in this collection is not shared publicly and is not shown."
+              : `${collection.hidden_count} summaries in this collection are not shared publicly and are not shown.`}
+          </p>
+        )}
+
+        {collection.summaries.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            {collection.hidden_count > 0 ? "None of the summaries here are shared publicly." : "This collection is empty."}
+          </Card>
+        ) : (
+          <Card className="px-6">
+            <Accordion type="multiple">
+              {collection.summaries.map((summary) => (
+                <AccordionItem key={summary.id} value={summary.id}>
+                  <AccordionTrigger className="text-left">{summary.video_title || "Video Summary"}</AccordionTrigger>
+                  <AccordionContent>
+                    <div className="flex items-center justify-between gap-4 mb-4">
+                      {isExternalUrl(summary.video_url) ? (
+                        <a
+                          href={summary.video_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline inline-flex items-center gap-1"
+                        >
+                          Watch Video
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      ) : (
+                        <span />
+                      )}
+                      <ExportMenu summary={summary} />
+                    </div>
+                    <SummaryContent
+                      summary={summary.summary}
+                      structured={summary.structured_summary}
+                      videoUrl={summary.video_url}
+                    />
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedCollection;
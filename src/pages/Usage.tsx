@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, BarChart3, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+import {
+  formatTokens,
+  formatUsd,
+  monthRange,
+  shiftMonth,
+  spendByDay,
+  totalUsage,
+  usageBy,
+  type KeyedUsage,
+} from "@/lib/usage";
+
+const chartConfig = {
+  costUsd: { label: "Spend", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const monthLabel = (month: Date) =>
+  month.toLocaleString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+
+interface UsageTableProps {
+  title: string;
+  column: string;
+  rows: KeyedUsage[];
+  labelOf: (key: string) => string;
+}
+
+const UsageTable = ({ title, column, rows, labelOf }: UsageTableProps) => (
+  <Card className="p-6">
+    <h2 className="text-lg font-semibold mb-4">{title}</h2>
+    {rows.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No usage this month.</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{column}</TableHead>
+            <TableHead className="text-right">Calls</TableHead>
+            <TableHead className="text-right">Tokens</TableHead>
+            <TableHead className="text-right">Spend</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell className="max-w-[220px] truncate">{labelOf(row.key)}</TableCell>
+              <TableCell className="text-right">{row.calls}</TableCell>
+              <TableCell className="text-right">{formatTokens(row.tokens)}</TableCell>
+              <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )}
+  </Card>
+);
+
+// What the workspace's model calls cost, per day, member and model
+const Usage = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { currentWorkspace } = useWorkspace();
+  const [month, setMonth] = useState(() => monthRange(new Date()).start);
+
+  const workspaceId = currentWorkspace?.id;
+  const isCurrentMonth = month.getTime() === monthRange(new Date()).start.getTime();
+
+  const { data: groups = [], isLoading } = useQuery({
+    queryKey: ["workspace-usage", workspaceId, month.getTime()],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { start, end } = monthRange(month);
+      const { data, error } = await supabase.rpc("workspace_usage", {
+        target_workspace: workspaceId!,
+        period_start: start.toISOString(),
+        period_end: end.toISOString(),
+      });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: budgetUsd = null } = useQuery({
+    queryKey: ["workspace-budget", workspaceId],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("workspaces")
+        .select("monthly_budget_usd")
+        .eq("id", workspaceId!)
+        .single();
+      if (error) throw error;
+      return data.monthly_budget_usd === null ? null : Number(data.monthly_budget_usd);
+    },
+  });
+
+  const { data: members = [] } = useQuery({
+    queryKey: ["workspace-members", workspaceId],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("workspace_member_list", { target_workspace: workspaceId! });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const totals = totalUsage(groups);
+  const emails = new Map(members.map((member) => [member.user_id, member.email]));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-5xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-primary hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to summarizer
+        </Link>
+
+        <div className="flex flex-wrap items-center gap-2 mb-8">
+          <BarChart3 className="w-6 h-6 text-primary" />
+          <h1 className="text-3xl font-bold">Usage</h1>
+          <div className="ml-auto flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setMonth(shiftMonth(month, -1))} aria-label="Previous month">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="w-36 text-center text-sm font-medium">{monthLabel(month)}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setMonth(shiftMonth(month, 1))}
+              disabled={isCurrentMonth}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3 mb-6">
+          <Card className="p-6">
+            <p className="text-sm text-muted-foreground">Spend</p>
+            <p className="text-2xl font-bold">{formatUsd(totals.costUsd)}</p>
+            {isCurrentMonth && budgetUsd !== null && (
+              <div className="mt-3 space-y-1">
+                <Progress value={budgetUsd > 0 ? Math.min(100, (totals.costUsd / budgetUsd) * 100) : 100} />
+                <p className="text-xs text-muted-foreground">of {formatUsd(budgetUsd)} monthly budget</p>
+              </div>
+            )}
+          </Card>
+          <Card className="p-6">
+            <p className="text-sm text-muted-foreground">Tokens</p>
+            <p className="text-2xl font-bold">{formatTokens(totals.tokens)}</p>
+          </Card>
+          <Card className="p-6">
+            <p className="text-sm text-muted-foreground">Model calls</p>
+            <p className="text-2xl font-bold">{totals.calls}</p>
+          </Card>
+        </div>
+
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">Spend per day</h2>
+          {isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={spendByDay(groups, month)}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(8)} />
+                <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value: number) => formatUsd(value)} />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value) => formatUsd(Number(value))} />}
+                />
+                <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <UsageTable
+            title="By member"
+            column="Member"
+            rows={usageBy(groups, (group) => group.user_id ?? "")}
+            labelOf={(key) => (key ? emails.get(key) ?? "Former member" : "Unknown")}
+          />
+          <UsageTable
+            title="By model"
+            column="Model"
+            rows={usageBy(groups, (group) => `${group.provider}:${group.model}`)}
+            labelOf={(key) => key}
+          />
+        </div>
+
+        {budgetUsd === null && currentWorkspace?.role === "owner" && (
+          <p className="text-sm text-muted-foreground mt-6">
+            This workspace has no monthly budget. Set one on the{" "}
+            <Link to="/workspace" className="text-primary hover:underline">
+              workspace page
+            </Link>{" "}
+            to stop new summaries once it is reached.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Usage;
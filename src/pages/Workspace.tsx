@@ -0,0 +1,368 @@
+import { useEffect, useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Copy, Link2, Loader2, LogOut, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace, WORKSPACE_ROLE_LABELS, type WorkspaceRole } from "@/hooks/use-workspace";
+
+const inviteUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+const Workspace = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { currentWorkspace, isLoading: isWorkspaceLoading, refresh } = useWorkspace();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("viewer");
+  const [budget, setBudget] = useState("");
+
+  const workspaceId = currentWorkspace?.id;
+  const isOwner = currentWorkspace?.role === "owner";
+
+  useEffect(() => {
+    setName(currentWorkspace?.name ?? "");
+  }, [currentWorkspace?.name]);
+
+  const { data: savedBudget = null } = useQuery({
+    queryKey: ["workspace-budget", workspaceId],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("workspaces")
+        .select("monthly_budget_usd")
+        .eq("id", workspaceId!)
+        .single();
+      if (error) throw error;
+      return data.monthly_budget_usd === null ? null : Number(data.monthly_budget_usd);
+    },
+  });
+
+  useEffect(() => {
+    setBudget(savedBudget === null ? "" : String(savedBudget));
+  }, [savedBudget]);
+
+  const { data: members = [] } = useQuery({
+    queryKey: ["workspace-members", workspaceId],
+    enabled: !!workspaceId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("workspace_member_list", { target_workspace: workspaceId! });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: invites = [] } = useQuery({
+    queryKey: ["workspace-invites", workspaceId],
+    enabled: !!workspaceId && isOwner,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("workspace_invites")
+        .select("id, token, role, expires_at")
+        .eq("workspace_id", workspaceId!)
+        .gt("expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const refreshMembers = () => queryClient.invalidateQueries({ queryKey: ["workspace-members", workspaceId] });
+  const refreshInvites = () => queryClient.invalidateQueries({ queryKey: ["workspace-invites", workspaceId] });
+
+  const handleRename = async () => {
+    const { error } = await supabase
+      .from("workspaces")
+      .update({ name: name.trim(), updated_at: new Date().toISOString() })
+      .eq("id", workspaceId!);
+
+    if (error) {
+      console.error("Error renaming workspace:", error);
+      toast.error("Failed to rename workspace");
+      return;
+    }
+    toast.success("Workspace renamed");
+    refresh();
+  };
+
+  // An empty budget removes the limit
+  const handleSaveBudget = async () => {
+    const value = budget.trim() ? Number(budget) : null;
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      toast.error("Enter a budget in US dollars, or leave it empty for no limit");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("workspaces")
+      .update({ monthly_budget_usd: value, updated_at: new Date().toISOString() })
+      .eq("id", workspaceId!);
+
+    if (error) {
+      console.error("Error saving budget:", error);
+      toast.error("Failed to save budget");
+      return;
+    }
+    toast.success(value === null ? "Budget removed" : "Budget saved");
+    queryClient.invalidateQueries({ queryKey: ["workspace-budget", workspaceId] });
+  };
+
+  const handleRoleChange = async (memberId: string, role: WorkspaceRole) => {
+    const { error } = await supabase
+      .from("workspace_members")
+      .update({ role })
+      .eq("workspace_id", workspaceId!)
+      .eq("user_id", memberId);
+
+    if (error) {
+      console.error("Error changing role:", error);
+      toast.error("Failed to change role");
+      return;
+    }
+    refreshMembers();
+  };
+
+  const handleRemove = async (memberId: string) => {
+    const { error } = await supabase
+      .from("workspace_members")
+      .delete()
+      .eq("workspace_id", workspaceId!)
+      .eq("user_id", memberId);
+
+    if (error) {
+      console.error("Error removing member:", error);
+      toast.error("Failed to remove member");
+      return;
+    }
+
+    if (memberId === user?.id) {
+      toast.success(`You left ${currentWorkspace?.name}`);
+      refresh();
+    } else {
+      refreshMembers();
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    const { data, error } = await supabase
+      .from("workspace_invites")
+      .insert({ workspace_id: workspaceId!, role: inviteRole, created_by: user!.id })
+      .select("token")
+      .single();
+
+    if (error) {
+      console.error("Error creating invite:", error);
+      toast.error("Failed to create invite link");
+      return;
+    }
+
+    await navigator.clipboard.writeText(inviteUrl(data.token));
+    toast.success("Invite link copied to clipboard");
+    refreshInvites();
+  };
+
+  const handleRevokeInvite = async (inviteId: string) => {
+    const { error } = await supabase.from("workspace_invites").delete().eq("id", inviteId);
+
+    if (error) {
+      console.error("Error revoking invite:", error);
+      toast.error("Failed to revoke invite");
+      return;
+    }
+    refreshInvites();
+  };
+
+  if (isAuthLoading || isWorkspaceLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!currentWorkspace) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-primary hover:underline mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to summarizer
+        </Link>
+
+        <div className="flex items-center gap-2 mb-8">
+          <Users className="w-6 h-6 text-primary" />
+          <h1 className="text-3xl font-bold">{currentWorkspace.name}</h1>
+          <Badge variant="secondary">{WORKSPACE_ROLE_LABELS[currentWorkspace.role]}</Badge>
+        </div>
+
+        {isOwner && (
+          <Card className="p-6 mb-6">
+            <h2 className="text-lg font-semibold mb-4">Name</h2>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (name.trim()) handleRename();
+              }}
+            >
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+              <Button type="submit" disabled={!name.trim() || name.trim() === currentWorkspace.name}>
+                Save
+              </Button>
+            </form>
+          </Card>
+        )}
+
+        {isOwner && (
+          <Card className="p-6 mb-6">
+            <h2 className="text-lg font-semibold mb-1">Monthly AI budget</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              New summaries are refused once this month's spend reaches the budget. See what has been spent on the{" "}
+              <Link to="/usage" className="text-primary hover:underline">
+                usage page
+              </Link>
+              .
+            </p>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSaveBudget();
+              }}
+            >
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                  placeholder="No limit"
+                  className="pl-7"
+                />
+              </div>
+              <Button type="submit" disabled={budget.trim() === (savedBudget === null ? "" : String(savedBudget))}>
+                Save
+              </Button>
+            </form>
+          </Card>
+        )}
+
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">Members</h2>
+          <div className="divide-y divide-border">
+            {members.map((member) => {
+              const isSelf = member.user_id === user.id;
+              return (
+                <div key={member.user_id} className="flex items-center gap-3 py-3">
+                  <span className="flex-1 truncate text-sm">
+                    {member.email}
+                    {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                  </span>
+                  {isOwner && !isSelf ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => handleRoleChange(member.user_id, role as WorkspaceRole)}
+                      >
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(WORKSPACE_ROLE_LABELS).map(([role, label]) => (
+                            <SelectItem key={role} value={role}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(member.user_id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="outline">{WORKSPACE_ROLE_LABELS[member.role as WorkspaceRole] ?? member.role}</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {!isOwner && (
+            <Button variant="outline" size="sm" className="mt-4" onClick={() => handleRemove(user.id)}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave workspace
+            </Button>
+          )}
+        </Card>
+
+        {isOwner && (
+          <Card className="p-6">
+            <h2 className="text-lg font-semibold mb-1">Invite links</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Anyone who opens a link joins with its role. Links expire after 7 days. Give contractors viewer links.
+            </p>
+            <div className="flex gap-2 mb-4">
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as WorkspaceRole)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="viewer">{WORKSPACE_ROLE_LABELS.viewer}</SelectItem>
+                  <SelectItem value="editor">{WORKSPACE_ROLE_LABELS.editor}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleCreateInvite}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Create invite link
+              </Button>
+            </div>
+
+            {invites.length > 0 && (
+              <div className="divide-y divide-border">
+                {invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center gap-3 py-3 text-sm">
+                    <Badge variant="outline">{WORKSPACE_ROLE_LABELS[invite.role as WorkspaceRole] ?? invite.role}</Badge>
+                    <span className="flex-1 text-muted-foreground">
+                      Expires {formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        navigator.clipboard.writeText(inviteUrl(invite.token));
+                        toast.success("Invite link copied to clipboard");
+                      }}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleRevokeInvite(invite.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Workspace;
@@ -0,0 +1,209 @@
+import {
+  createLLMProvider,
+  LLM_PROVIDER_NAMES,
+  ProviderError,
+  ProviderTimeoutError,
+  type ChatMessage,
+  type LLMProvider,
+  type TokenUsage,
+} from './llm/index.ts';
+import { CodedError } from './errors.ts';
+import { findPrice, loadPriceTable, type PriceTable } from './pricing.ts';
+import { estimateTokens } from './transcript.ts';
+
+export type { ChatMessage, TokenUsage } from './llm/index.ts';
+
+export interface ChatCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider for a JSON object response
+  jsonMode?: boolean;
+  // When set, the response is streamed and each content delta is passed here
+  onToken?: (delta: string) => void;
+}
+
+export type ChatCompletionFn = (messages: ChatMessage[], options?: ChatCompletionOptions) => Promise<string>;
+
+// Which provider and model produced a completion, after any fallback, and
+// what it took
+export interface CompletionInfo {
+  provider: string;
+  model: string;
+  usage: TokenUsage | null;
+  // Time spent by the provider that answered; failed attempts are not counted
+  latencyMs: number;
+}
+
+// One step of the provider chain; without a model the provider's default is used
+export interface ModelTarget {
+  provider: string;
+  model: string | null;
+}
+
+export interface ChatCompletionConfig {
+  // A model to try first, as "provider:model" or a bare model name for the
+  // first provider in the chain
+  model?: string;
+  // Called after every successful completion
+  onCompletion?: (info: CompletionInfo) => void;
+  env?: (key: string) => string | undefined;
+  fetchFn?: typeof fetch;
+  prices?: PriceTable;
+}
+
+const DEFAULT_PROVIDERS = 'lovable';
+
+// How long one provider call, streaming included, may take before it is given up
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+// Splits "provider:model". Ollama tags contain colons too ("llama3.1:8b"), so
+// only a known provider name counts as a prefix.
+export function parseModelTarget(value: string): { provider: string | null; model: string | null } {
+  const separator = value.indexOf(':');
+  const prefix = separator === -1 ? value : value.slice(0, separator);
+
+  if (LLM_PROVIDER_NAMES.includes(prefix)) {
+    return { provider: prefix, model: separator === -1 ? null : value.slice(separator + 1) || null };
+  }
+  return { provider: null, model: value };
+}
+
+const targetLabel = (target: ModelTarget) => (target.model ? `${target.provider}:${target.model}` : target.provider);
+
+// AI_PROVIDERS lists the providers to try in order, each optionally pinned to
+// a model: "openai:gpt-4o-mini,anthropic,ollama:llama3.1"
+export function loadProviderChain(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): ModelTarget[] {
+  const entries = (env('AI_PROVIDERS') ?? DEFAULT_PROVIDERS)
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return entries.map((entry) => {
+    const { provider, model } = parseModelTarget(entry);
+    if (!provider) throw new Error(`Unknown AI provider in AI_PROVIDERS: ${entry}`);
+    return { provider, model };
+  });
+}
+
+// Puts a requested model in front of the configured chain. Callers may only
+// pick models from the chain itself or from AI_ALLOWED_MODELS; returns null
+// for anything else.
+export function resolveModelTargets(
+  requested: string | undefined,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): ModelTarget[] | null {
+  const chain = loadProviderChain(env);
+  if (!requested) return chain;
+
+  const parsed = parseModelTarget(requested.trim());
+  const target: ModelTarget = { provider: parsed.provider ?? chain[0].provider, model: parsed.model };
+  const label = targetLabel(target);
+
+  const allowed = (env('AI_ALLOWED_MODELS') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (!allowed.includes(label) && !chain.some((step) => targetLabel(step) === label)) {
+    return null;
+  }
+
+  return [target, ...chain.filter((step) => targetLabel(step) !== label)];
+}
+
+// A missing key or a bad request would fail the same way on every retry;
+// only rate limits, server errors and timeouts move on to the next provider
+function shouldFallBack(error: unknown): boolean {
+  return (error instanceof ProviderError && error.retriable) || error instanceof ProviderTimeoutError;
+}
+
+// For calls whose provider reported no usage; roughly what was billed
+function estimateUsage(messages: ChatMessage[], completion: string): TokenUsage {
+  return {
+    promptTokens: messages.reduce((sum, message) => sum + estimateTokens(message.content), 0),
+    completionTokens: estimateTokens(completion),
+  };
+}
+
+// Builds a completion function that tries each provider of the chain in turn.
+// Pointing a provider's URL at a mock server (or passing a stub fetch) lets the
+// whole summarization pipeline run without a real model. A streamed response
+// only falls back before its first token: once the caller has seen part of an
+// answer, another model's answer cannot simply be appended to it.
+export function createChatCompletion({
+  model,
+  onCompletion,
+  env = (key) => Deno.env.get(key),
+  fetchFn = fetch,
+  prices = loadPriceTable(env),
+}: ChatCompletionConfig = {}): ChatCompletionFn {
+  const targets = resolveModelTargets(model, env);
+  if (!targets) {
+    throw new Error(`Model not available: ${model}`);
+  }
+
+  const timeoutSeconds = Number(env('AI_TIMEOUT_SECONDS')) || DEFAULT_TIMEOUT_SECONDS;
+  const providers = new Map<string, LLMProvider>();
+  const providerFor = (name: string) => {
+    if (!providers.has(name)) providers.set(name, createLLMProvider(name, env, fetchFn));
+    return providers.get(name)!;
+  };
+
+  return async (messages, { temperature = 0.7, maxTokens = 1000, jsonMode = false, onToken } = {}) => {
+    for (let index = 0; ; index++) {
+      const target = targets[index];
+      const provider = providerFor(target.provider);
+      const chosenModel = target.model ?? provider.defaultModel;
+      const next = targets[index + 1];
+
+      // Spend on a model without a price would count as nothing against
+      // workspace budgets, so such models are never called
+      if (!findPrice(prices, provider.name, chosenModel)) {
+        const label = `${provider.name}:${chosenModel}`;
+        if (!next) throw new CodedError('model_unavailable', `No price is configured for ${label}; add it to AI_PRICES`);
+        console.warn(`${label} has no price, skipping to ${targetLabel(next)}`);
+        continue;
+      }
+
+      const startedAt = Date.now();
+      const signal = AbortSignal.timeout(timeoutSeconds * 1000);
+      let streamed = '';
+      try {
+        const { content, usage } = await provider.complete({
+          model: chosenModel,
+          messages,
+          temperature,
+          maxTokens,
+          jsonMode,
+          onToken: onToken && ((delta) => {
+            streamed += delta;
+            onToken(delta);
+          }),
+          signal,
+        });
+        onCompletion?.({
+          provider: provider.name,
+          model: chosenModel,
+          usage: usage ?? estimateUsage(messages, content),
+          latencyMs: Date.now() - startedAt,
+        });
+        return content;
+      } catch (caught) {
+        const error = signal.aborted ? new ProviderTimeoutError(provider.name, timeoutSeconds) : caught;
+
+        // A call given up on or cut off mid-stream was still processed, and
+        // billed, by the provider, which reports no usage for it
+        if (signal.aborted || streamed) {
+          onCompletion?.({
+            provider: provider.name,
+            model: chosenModel,
+            usage: estimateUsage(messages, streamed),
+            latencyMs: Date.now() - startedAt,
+          });
+        }
+
+        if (!next || streamed || !shouldFallBack(error)) throw error;
+        console.warn(`${provider.name}:${chosenModel} failed, falling back to ${targetLabel(next)}:`, (error as Error).message);
+      }
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Identifies the caller from their session JWT; signed-out clients only send
+// the anon key and get null.
+export async function resolveCallerId(supabase: SupabaseClient, req: Request): Promise<string | null> {
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const { data: { user } } = await supabase.auth.getUser(token);
+  return user?.id ?? null;
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// Same rule as has_workspace_role() in the database, for service-role clients
+// that bypass RLS.
+export async function hasWorkspaceRole(
+  supabase: SupabaseClient,
+  workspaceId: unknown,
+  userId: string,
+  minRole: WorkspaceRole
+): Promise<boolean> {
+  if (typeof workspaceId !== 'string' || !workspaceId) return false;
+
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  const role = data?.role as WorkspaceRole | undefined;
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
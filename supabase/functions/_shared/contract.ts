@@ -0,0 +1,196 @@
+import { z } from 'https://esm.sh/zod@3.25.76/v4';
+
+// Request and response shapes of the public edge function API. The frontend
+// imports this module as well (through src/lib/contract.ts), so it must only
+// depend on zod and never on Deno.
+
+export const API_VERSION = 'v1';
+
+// Paths to pass to supabase.functions.invoke(). Unversioned paths are served as v1.
+export const ENDPOINTS = {
+  summarizeVideo: `summarize-video/${API_VERSION}`,
+  listTracks: `summarize-video/${API_VERSION}/tracks`,
+} as const;
+
+// Every error response, and every failed summarize_video job, carries one of
+// these codes next to its human-readable message
+export const ERROR_CODES = [
+  'invalid_request',
+  'invalid_url',
+  'unsupported_source',
+  'unknown_style',
+  'model_unavailable',
+  'unauthenticated',
+  'budget_exceeded',
+  'forbidden',
+  'origin_not_allowed',
+  'not_found',
+  'unsupported_version',
+  'rate_limited',
+  'quota_exceeded',
+  'private_video',
+  'age_restricted',
+  'no_captions',
+  'captions_blocked',
+  'ai_quota_exhausted',
+  'ai_timeout',
+  'ai_request_rejected',
+  'database_error',
+  'internal_error',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  invalid_url: 400,
+  unsupported_source: 400,
+  unknown_style: 400,
+  model_unavailable: 400,
+  unauthenticated: 401,
+  budget_exceeded: 402,
+  forbidden: 403,
+  origin_not_allowed: 403,
+  not_found: 404,
+  unsupported_version: 404,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  private_video: 422,
+  age_restricted: 422,
+  no_captions: 422,
+  captions_blocked: 502,
+  ai_quota_exhausted: 503,
+  ai_timeout: 504,
+  ai_request_rejected: 502,
+  database_error: 500,
+  internal_error: 500,
+};
+
+// What the user can do about each error
+export const ERROR_REMEDIATION: Record<ErrorCode, string> = {
+  invalid_request: 'Reload the page and try again.',
+  invalid_url: 'Check the link. Paste the full address of a YouTube or Vimeo video, or of a .vtt or .srt file.',
+  unsupported_source: 'Use a YouTube or Vimeo link, a link to a .vtt or .srt file, or upload a subtitle file.',
+  unknown_style: 'Pick one of the listed summary styles.',
+  model_unavailable: 'Choose another model, or leave the model unset to use the default.',
+  unauthenticated: 'Sign in and try again.',
+  budget_exceeded: 'Ask a workspace owner to raise the monthly AI budget, or wait for next month.',
+  forbidden: 'Ask a workspace owner for editor access.',
+  origin_not_allowed: 'Open the app from its usual address.',
+  not_found: 'It may have been deleted. Refresh the page.',
+  unsupported_version: 'Reload the page to get the current version of the app.',
+  rate_limited: 'Wait a moment before trying again.',
+  quota_exceeded: 'Wait for the daily limit to reset at midnight UTC, or upgrade the workspace plan.',
+  private_video: 'Make the video public or unlisted, or upload its subtitle file instead.',
+  age_restricted: 'Age-restricted videos cannot be read. Upload the subtitle file instead.',
+  no_captions: 'Upload a subtitle file for this video, or choose a video that has captions.',
+  captions_blocked: 'The video site refused to send captions. Try again in a few minutes, or upload a subtitle file.',
+  ai_quota_exhausted: 'The AI service is at capacity. Try again shortly.',
+  ai_timeout: 'The AI service took too long to answer. Try again, or pick a shorter summary style.',
+  ai_request_rejected: 'The AI service turned this request down. Choose another model, or contact support if it keeps happening.',
+  database_error: 'Something went wrong saving your data. Try again in a moment.',
+  internal_error: 'Try again. If it keeps happening, contact support.',
+};
+
+export const errorBodySchema = z.object({
+  code: z.enum(ERROR_CODES),
+  error: z.string().describe('Message to show to the user'),
+  remediation: z.string().optional().describe('Suggested next step for the user'),
+  retryAfterSeconds: z.number().int().optional().describe('Seconds to wait before retrying; on 429s also sent as Retry-After'),
+});
+
+export type ErrorBody = z.infer<typeof errorBodySchema>;
+
+const timestampPattern = /^(\d+:)?\d{1,2}:\d{2}$/;
+
+export const structuredSummarySchema = z.object({
+  title: z.string().min(1),
+  tldr: z.string().min(1),
+  key_points: z
+    .array(
+      z.object({
+        text: z.string().min(1),
+        // Start of the section the point comes from, as m:ss or h:mm:ss
+        timestamp: z.string().regex(timestampPattern).nullable(),
+      })
+    )
+    .min(1),
+  takeaways: z.array(z.string().min(1)),
+  action_items: z.array(z.string().min(1)),
+  topics: z.array(z.string().min(1)),
+});
+
+export type StructuredSummary = z.infer<typeof structuredSummarySchema>;
+
+export const summarizeVideoRequestSchema = z
+  .object({
+    workspaceId: z.uuid(),
+    videoUrl: z.string().min(1).optional().describe('YouTube or Vimeo URL, or a link to a .vtt or .srt file'),
+    subtitlePath: z.string().min(1).optional().describe('Path of an uploaded subtitle file in the subtitles bucket'),
+    preferredLanguages: z.array(z.string()).default([]).describe('Caption languages to try, most preferred first'),
+    style: z.string().optional().describe('Summary style id; the default style when omitted'),
+    force: z.boolean().default(false).describe('Summarize again even if a summary of the source exists'),
+    summaryId: z.uuid().optional().describe('Existing summary to regenerate from the source it was made from'),
+    model: z.string().min(1).optional().describe('"provider:model" to try first'),
+  })
+  .refine((request) => request.videoUrl || request.subtitlePath, {
+    message: 'Video URL or subtitle file is required',
+    path: ['videoUrl'],
+  });
+
+export type SummarizeVideoRequest = z.input<typeof summarizeVideoRequestSchema>;
+
+export const summarizeVideoAcceptedSchema = z.object({
+  jobId: z.uuid().describe('Job that writes the summary; its result is a SummarizeResult'),
+});
+
+export type SummarizeVideoAccepted = z.infer<typeof summarizeVideoAcceptedSchema>;
+
+export const captionTrackSchema = z.object({
+  languageCode: z.string(),
+  name: z.string(),
+  kind: z.enum(['asr', 'manual']),
+});
+
+export type CaptionTrackInfo = z.infer<typeof captionTrackSchema>;
+
+export const listTracksRequestSchema = z.object({
+  workspaceId: z.uuid(),
+  videoUrl: z.string().min(1).describe('YouTube or Vimeo URL, or a link to a .vtt or .srt file'),
+});
+
+export type ListTracksRequest = z.input<typeof listTracksRequestSchema>;
+
+export const listTracksResponseSchema = z.object({
+  tracks: z.array(captionTrackSchema),
+});
+
+export type ListTracksResponse = z.infer<typeof listTracksResponseSchema>;
+
+// What a succeeded summarize_video job stores as its result
+export const summarizeResultSchema = z.object({
+  id: z.uuid(),
+  summary: z.string(),
+  structuredSummary: structuredSummarySchema.nullable(),
+  source: z.enum(['youtube', 'vimeo', 'subtitle_url', 'upload']),
+  videoUrl: z.string(),
+  videoId: z.string().nullable(),
+  videoTitle: z.string().nullable(),
+  created_at: z.string(),
+  transcriptLanguage: z.string().nullable(),
+  style: z.string(),
+  version: z.number().int(),
+  sectionAuthors: z.record(z.string(), z.literal('human')).describe('Sections last edited by a person'),
+  suggestedTags: z.array(z.string()),
+  model: z.string().nullable(),
+  usage: z.object({
+    promptTokens: z.number().nullable(),
+    completionTokens: z.number().nullable(),
+    latencyMs: z.number().nullable(),
+    costUsd: z.number().nullable(),
+  }),
+  availableTracks: z.array(captionTrackSchema),
+  cached: z.boolean().describe('Whether an existing summary was returned instead of a new one'),
+});
+
+export type SummarizeResult = z.infer<typeof summarizeResultSchema>;
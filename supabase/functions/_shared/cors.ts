@@ -0,0 +1,37 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// ALLOWED_ORIGINS is a comma-separated list of origins allowed to call from a
+// browser, e.g. "https://app.example.com,http://localhost:8080". Unset or "*"
+// allows any origin.
+export function loadAllowedOrigins(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): string[] | null {
+  const origins = (env('ALLOWED_ORIGINS') ?? '*')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+  return origins.length === 0 || origins.includes('*') ? null : origins;
+}
+
+// Requests without an Origin header come from servers and the scheduler, not
+// browsers, so the allowlist does not apply to them
+export function isOriginAllowed(req: Request, allowed: string[] | null = loadAllowedOrigins()): boolean {
+  const origin = req.headers.get('Origin');
+  return !allowed || !origin || allowed.includes(origin);
+}
+
+// CORS headers for one request: the caller's origin is echoed back when it is
+// allowed. Retry-After is exposed so clients can tell how long to wait after a 429.
+export function corsHeadersFor(req: Request, allowed: string[] | null = loadAllowedOrigins()): Record<string, string> {
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'Access-Control-Expose-Headers': 'retry-after',
+  };
+  if (allowed) {
+    const origin = req.headers.get('Origin');
+    headers['Access-Control-Allow-Origin'] = origin && allowed.includes(origin) ? origin : allowed[0];
+    headers['Vary'] = 'Origin';
+  }
+  return headers;
+}
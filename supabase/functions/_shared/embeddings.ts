@@ -0,0 +1,122 @@
+// Every stored vector has this many dimensions, whatever produced it; the
+// column and the match function in the database are declared with it.
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface EmbeddingProvider {
+  // Stored next to each vector so searches only compare vectors of one model
+  model: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+const DEFAULT_EMBEDDING_URL = 'https://api.openai.com/v1/embeddings';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const BATCH_SIZE = 64;
+
+// Any OpenAI-compatible /embeddings endpoint that accepts a `dimensions` parameter
+export function createOpenAIEmbeddings(
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key),
+  fetchFn: typeof fetch = fetch
+): EmbeddingProvider {
+  const endpoint = env('EMBEDDING_API_URL') ?? DEFAULT_EMBEDDING_URL;
+  const model = env('EMBEDDING_MODEL') ?? DEFAULT_EMBEDDING_MODEL;
+
+  return {
+    model,
+    embed: async (texts) => {
+      const apiKey = env('EMBEDDING_API_KEY');
+
+      if (!apiKey) {
+        throw new Error('EMBEDDING_API_KEY not configured');
+      }
+
+      const vectors: number[][] = [];
+      for (let offset = 0; offset < texts.length; offset += BATCH_SIZE) {
+        const response = await fetchFn(endpoint, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            input: texts.slice(offset, offset + BATCH_SIZE),
+            dimensions: EMBEDDING_DIMENSIONS,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error('Embedding API error:', response.status, errorText);
+          throw new Error(`Embedding API error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const batch = [...data.data].sort((a, b) => a.index - b.index);
+        vectors.push(...batch.map((item: { embedding: number[] }) => item.embedding));
+      }
+
+      return vectors;
+    },
+  };
+}
+
+// FNV-1a, so the same word always lands in the same dimension
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Deterministic bag-of-words vectors built by feature hashing. They capture
+// word overlap rather than meaning, but need no network or key, which makes
+// them suitable for tests and local development.
+export function createLocalEmbeddings(): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+
+    for (const feature of features) {
+      const h = hash(feature);
+      vector[h % EMBEDDING_DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  };
+
+  return {
+    model: `local-hash-${EMBEDDING_DIMENSIONS}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// EMBEDDING_PROVIDER ("openai" or "local") picks the implementation. It has
+// no default: vectors from different providers cannot be compared, so adding
+// or removing a key must not silently switch the index to another model.
+export function createEmbeddingProvider(
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key),
+  fetchFn: typeof fetch = fetch
+): EmbeddingProvider {
+  const name = env('EMBEDDING_PROVIDER');
+
+  switch (name) {
+    case undefined:
+    case '':
+      throw new Error('EMBEDDING_PROVIDER not configured');
+    case 'openai':
+      return createOpenAIEmbeddings(env, fetchFn);
+    case 'local':
+      return createLocalEmbeddings();
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
+
+// pgvector's text input format, which PostgREST passes through unchanged
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
@@ -0,0 +1,99 @@
+import { ERROR_REMEDIATION, ERROR_STATUS, type ErrorBody, type ErrorCode } from './contract.ts';
+import { ProviderError, ProviderTimeoutError } from './llm/index.ts';
+
+// A failure the user can act on, tagged with its contract error code. Only
+// transient failures are worth retrying; a private video stays private.
+export class CodedError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly retryable = false,
+    readonly retryAfterSeconds: number | null = null
+  ) {
+    super(message);
+    this.name = 'CodedError';
+  }
+}
+
+export interface ClassifiedError {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfterSeconds: number | null;
+}
+
+// PostgREST errors from supabase-js are plain objects rather than Errors
+function isDatabaseError(error: unknown): error is { message: string } {
+  return typeof error === 'object' && error !== null && 'message' in error && 'details' in error && 'hint' in error;
+}
+
+// Maps anything a pipeline or handler can throw onto the error taxonomy
+export function classifyError(error: unknown): ClassifiedError {
+  if (error instanceof CodedError) {
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      retryAfterSeconds: error.retryAfterSeconds,
+    };
+  }
+
+  if (error instanceof ProviderTimeoutError) {
+    return { code: 'ai_timeout', message: 'The AI service did not answer in time', retryable: true, retryAfterSeconds: null };
+  }
+
+  // 402 is how gateways report exhausted credits; 429 is a rate limit
+  if (error instanceof ProviderError && (error.status === 429 || error.status === 402)) {
+    return {
+      code: 'ai_quota_exhausted',
+      message: 'The AI service is out of capacity for now',
+      retryable: true,
+      retryAfterSeconds: error.retryAfterSeconds,
+    };
+  }
+
+  // Any other 4xx means the provider will not take this request as it is
+  // (bad credentials, unknown model, content refused); sending it again won't help
+  if (error instanceof ProviderError && error.status >= 400 && error.status < 500) {
+    return {
+      code: 'ai_request_rejected',
+      message: 'The AI service could not process this request',
+      retryable: false,
+      retryAfterSeconds: null,
+    };
+  }
+
+  if (error instanceof ProviderError) {
+    return { code: 'internal_error', message: 'The AI service failed to answer', retryable: true, retryAfterSeconds: null };
+  }
+
+  if (isDatabaseError(error)) {
+    return { code: 'database_error', message: 'A database operation failed', retryable: true, retryAfterSeconds: null };
+  }
+
+  // Anything else is a bug or an unexpected response. Its message may carry
+  // internals, so it goes to the logs only, and retrying it would fail the same way.
+  return {
+    code: 'internal_error',
+    message: 'An unexpected error occurred',
+    retryable: false,
+    retryAfterSeconds: null,
+  };
+}
+
+export function errorBody(code: ErrorCode, message: string, retryAfterSeconds?: number | null): ErrorBody {
+  return {
+    code,
+    error: message,
+    remediation: ERROR_REMEDIATION[code],
+    ...(retryAfterSeconds ? { retryAfterSeconds } : {}),
+  };
+}
+
+// A JSON error response with the status the contract gives its code
+export function errorResponse(code: ErrorCode, message: string, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify(errorBody(code, message)), {
+    status: ERROR_STATUS[code],
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
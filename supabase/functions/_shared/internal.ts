@@ -0,0 +1,19 @@
+// Calls another edge function (or the same one again) as the service role.
+// Used to hand work off to a fresh invocation with its own time limit.
+export function invokeInternal(name: string, body: Record<string, unknown>): Promise<Response> {
+  return fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// True for requests made with invokeInternal (or by a scheduled job using the key)
+export function isServiceRoleRequest(req: Request): boolean {
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && token === serviceRoleKey;
+}
@@ -0,0 +1,125 @@
+import { parseJsonLine, readLines } from './stream.ts';
+import { providerError, type ChatMessage, type LLMProvider, type ProviderResult } from './types.ts';
+
+export interface AnthropicConfig {
+  // Base URL without the /v1/messages path
+  baseUrl: string;
+  apiKey: string | undefined;
+  defaultModel: string;
+}
+
+const API_VERSION = '2023-06-01';
+
+// The Messages API has no JSON response mode, so the request is spelled out
+const JSON_MODE_INSTRUCTION = 'Respond with a single JSON object and nothing else.';
+
+// Anthropic's Messages API. System prompts travel separately from the
+// conversation, which must alternate between user and assistant turns.
+export function createAnthropicProvider(config: AnthropicConfig, fetchFn: typeof fetch = fetch): LLMProvider {
+  return {
+    name: 'anthropic',
+    defaultModel: config.defaultModel,
+    complete: async ({ model, messages, temperature, maxTokens, jsonMode, onToken, signal }) => {
+      if (!config.apiKey) {
+        throw new Error('ANTHROPIC_API_KEY not configured');
+      }
+
+      const system = messages.filter((message) => message.role === 'system').map((message) => message.content);
+      if (jsonMode) system.push(JSON_MODE_INSTRUCTION);
+
+      const response = await fetchFn(`${config.baseUrl.replace(/\/$/, '')}/v1/messages`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'x-api-key': config.apiKey,
+          'anthropic-version': API_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+          messages: toConversation(messages),
+          // Anthropic accepts temperatures up to 1 only
+          temperature: Math.min(temperature, 1),
+          max_tokens: maxTokens,
+          ...(onToken ? { stream: true } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw await providerError('anthropic', response);
+      }
+
+      if (onToken && response.body) {
+        return readStreamedMessage(response.body, onToken);
+      }
+
+      const data = await response.json();
+      return {
+        content: (data.content as { type: string; text?: string }[])
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text ?? '')
+          .join(''),
+        usage: data.usage
+          ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+          : null,
+      };
+    },
+  };
+}
+
+// Drops system messages and merges consecutive turns of the same role
+function toConversation(messages: ChatMessage[]): { role: 'user' | 'assistant'; content: string }[] {
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return turns;
+}
+
+// Reads a Messages API event stream, forwarding each text delta.
+// Input tokens arrive with message_start, the running output count with each
+// message_delta.
+async function readStreamedMessage(
+  body: ReadableStream<Uint8Array>,
+  onToken: (delta: string) => void
+): Promise<ProviderResult> {
+  let content = '';
+  let promptTokens: number | null = null;
+  let completionTokens = 0;
+
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+
+    const event = parseJsonLine(line.slice(5).trim()) as {
+      type?: string;
+      delta?: { type?: string; text?: string };
+      message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+      usage?: { output_tokens?: number };
+    } | null;
+    if (event?.type === 'message_stop') break;
+
+    if (event?.type === 'message_start') {
+      promptTokens = event.message?.usage?.input_tokens ?? null;
+      completionTokens = event.message?.usage?.output_tokens ?? 0;
+    }
+    if (event?.type === 'message_delta' && event.usage?.output_tokens !== undefined) {
+      completionTokens = event.usage.output_tokens;
+    }
+
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+      content += event.delta.text;
+      onToken(event.delta.text);
+    }
+  }
+
+  return { content, usage: promptTokens === null ? null : { promptTokens, completionTokens } };
+}
@@ -0,0 +1,60 @@
+import { createAnthropicProvider } from './anthropic.ts';
+import { createOllamaProvider } from './ollama.ts';
+import { createOpenAICompatibleProvider } from './openai.ts';
+import type { LLMProvider } from './types.ts';
+
+export * from './types.ts';
+
+export const LLM_PROVIDER_NAMES = ['lovable', 'openai', 'anthropic', 'ollama'];
+
+// Each provider reads its own endpoint, key and default model from the
+// environment, so adding one to AI_PROVIDERS is all it takes to use it
+export function createLLMProvider(
+  name: string,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key),
+  fetchFn: typeof fetch = fetch
+): LLMProvider {
+  switch (name) {
+    case 'lovable':
+      return createOpenAICompatibleProvider(
+        {
+          name,
+          endpoint: env('AI_GATEWAY_URL') ?? 'https://ai.gateway.lovable.dev/v1/chat/completions',
+          apiKey: env('LOVABLE_API_KEY'),
+          apiKeyName: 'LOVABLE_API_KEY',
+          defaultModel: env('AI_MODEL') ?? 'google/gemini-2.5-flash',
+        },
+        fetchFn
+      );
+    case 'openai':
+      return createOpenAICompatibleProvider(
+        {
+          name,
+          endpoint: `${(env('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1').replace(/\/$/, '')}/chat/completions`,
+          apiKey: env('OPENAI_API_KEY'),
+          apiKeyName: 'OPENAI_API_KEY',
+          defaultModel: env('OPENAI_MODEL') ?? 'gpt-4o-mini',
+        },
+        fetchFn
+      );
+    case 'anthropic':
+      return createAnthropicProvider(
+        {
+          baseUrl: env('ANTHROPIC_BASE_URL') ?? 'https://api.anthropic.com',
+          apiKey: env('ANTHROPIC_API_KEY'),
+          defaultModel: env('ANTHROPIC_MODEL') ?? 'claude-3-5-haiku-latest',
+        },
+        fetchFn
+      );
+    case 'ollama':
+      return createOllamaProvider(
+        {
+          baseUrl: env('OLLAMA_BASE_URL') ?? 'http://localhost:11434',
+          defaultModel: env('OLLAMA_MODEL') ?? 'llama3.1',
+        },
+        fetchFn
+      );
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+}
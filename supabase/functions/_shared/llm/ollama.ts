@@ -0,0 +1,69 @@
+import { parseJsonLine, readLines } from './stream.ts';
+import { providerError, type LLMProvider, type TokenUsage } from './types.ts';
+
+export interface OllamaConfig {
+  // Base URL of the Ollama server, e.g. http://localhost:11434
+  baseUrl: string;
+  defaultModel: string;
+}
+
+// A local or self-hosted Ollama server's /api/chat endpoint. It needs no key;
+// streamed responses are newline-delimited JSON rather than SSE.
+export function createOllamaProvider(config: OllamaConfig, fetchFn: typeof fetch = fetch): LLMProvider {
+  return {
+    name: 'ollama',
+    defaultModel: config.defaultModel,
+    complete: async ({ model, messages, temperature, maxTokens, jsonMode, onToken, signal }) => {
+      const response = await fetchFn(`${config.baseUrl.replace(/\/$/, '')}/api/chat`, {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: Boolean(onToken),
+          options: { temperature, num_predict: maxTokens },
+          ...(jsonMode ? { format: 'json' } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw await providerError('ollama', response);
+      }
+
+      if (onToken && response.body) {
+        let content = '';
+        let usage: TokenUsage | null = null;
+        for await (const line of readLines(response.body)) {
+          const chunk = parseJsonLine(line) as OllamaChunk | null;
+          const delta = chunk?.message?.content;
+          if (delta) {
+            content += delta;
+            onToken(delta);
+          }
+          if (chunk?.done) {
+            usage = toTokenUsage(chunk);
+            break;
+          }
+        }
+        return { content, usage };
+      }
+
+      const data = await response.json();
+      return { content: data.message.content, usage: toTokenUsage(data) };
+    },
+  };
+}
+
+interface OllamaChunk {
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+// The final chunk (or the whole response) counts prompt and generated tokens
+function toTokenUsage(chunk: OllamaChunk): TokenUsage | null {
+  if (chunk.prompt_eval_count === undefined && chunk.eval_count === undefined) return null;
+  return { promptTokens: chunk.prompt_eval_count ?? 0, completionTokens: chunk.eval_count ?? 0 };
+}
@@ -0,0 +1,97 @@
+import { parseJsonLine, readLines } from './stream.ts';
+import { providerError, type LLMProvider, type ProviderResult, type TokenUsage } from './types.ts';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  // Full URL of the chat-completions endpoint
+  endpoint: string;
+  apiKey: string | undefined;
+  // Named in the error when the key is missing
+  apiKeyName: string;
+  defaultModel: string;
+}
+
+// Any endpoint speaking the OpenAI chat-completions protocol: OpenAI itself,
+// the Lovable AI gateway, DeepSeek, Groq, OpenRouter, vLLM...
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleConfig,
+  fetchFn: typeof fetch = fetch
+): LLMProvider {
+  return {
+    name: config.name,
+    defaultModel: config.defaultModel,
+    complete: async ({ model, messages, temperature, maxTokens, jsonMode, onToken, signal }) => {
+      if (!config.apiKey) {
+        throw new Error(`${config.apiKeyName} not configured`);
+      }
+
+      const response = await fetchFn(config.endpoint, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Authorization': `Bearer ${config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature,
+          max_tokens: maxTokens,
+          ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+          // Streams only report usage in a final chunk when asked to
+          ...(onToken ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw await providerError(config.name, response);
+      }
+
+      if (onToken && response.body) {
+        return readStreamedCompletion(response.body, onToken);
+      }
+
+      const data = await response.json();
+      return { content: data.choices[0].message.content, usage: toTokenUsage(data.usage) };
+    },
+  };
+}
+
+// Reads an OpenAI-style SSE completion stream, forwarding each delta
+async function readStreamedCompletion(
+  body: ReadableStream<Uint8Array>,
+  onToken: (delta: string) => void
+): Promise<ProviderResult> {
+  let content = '';
+  let usage: TokenUsage | null = null;
+
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    const payload = line.slice(5).trim();
+    if (payload === '[DONE]') break;
+
+    const event = parseJsonLine(payload) as {
+      choices?: { delta?: { content?: string } }[];
+      usage?: OpenAIUsage | null;
+    } | null;
+    if (event?.usage) usage = toTokenUsage(event.usage);
+
+    const delta = event?.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onToken(delta);
+    }
+  }
+
+  return { content, usage };
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+function toTokenUsage(usage: OpenAIUsage | null | undefined): TokenUsage | null {
+  if (!usage) return null;
+  return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 };
+}
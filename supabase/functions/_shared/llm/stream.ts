@@ -0,0 +1,31 @@
+// Yields a streamed response body line by line, trimmed, skipping blank lines.
+// Both SSE (OpenAI, Anthropic) and NDJSON (Ollama) streams are line-based.
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield line;
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest) yield rest;
+}
+
+// Parses one line of a stream, or returns null for partial and keep-alive lines
+export function parseJsonLine(line: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+}
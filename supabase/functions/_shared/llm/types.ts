@@ -0,0 +1,73 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// One completion call as handed to a provider, with every option resolved
+export interface ProviderRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  jsonMode: boolean;
+  onToken?: (delta: string) => void;
+  // Aborts the call, including a stream that is still being read
+  signal?: AbortSignal;
+}
+
+// Token counts as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProviderResult {
+  content: string;
+  // Null when the provider did not report usage
+  usage: TokenUsage | null;
+}
+
+export interface LLMProvider {
+  // How the provider is named in AI_PROVIDERS and in "provider:model" choices
+  name: string;
+  // Used when neither the chain nor the request names a model
+  defaultModel: string;
+  complete: (request: ProviderRequest) => Promise<ProviderResult>;
+}
+
+// A provider answered with an error status. Rate limits and server errors are
+// worth trying elsewhere; anything else would fail the same way again.
+export class ProviderError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly status: number,
+    // From the response's Retry-After header, when it sent one in seconds
+    readonly retryAfterSeconds: number | null = null
+  ) {
+    super(`${provider} error: ${status}`);
+    this.name = 'ProviderError';
+  }
+
+  get retriable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+// Logs an error response's body and turns it into a ProviderError
+export async function providerError(provider: string, response: Response): Promise<ProviderError> {
+  const errorText = await response.text();
+  console.error(`${provider} error:`, response.status, errorText);
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return new ProviderError(provider, response.status, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null);
+}
+
+// A provider did not finish answering within AI_TIMEOUT_SECONDS
+export class ProviderTimeoutError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly timeoutSeconds: number
+  ) {
+    super(`${provider} did not answer within ${timeoutSeconds}s`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from 'https://esm.sh/zod@3.25.76/v4';
+import {
+  API_VERSION,
+  ENDPOINTS,
+  ERROR_CODES,
+  ERROR_STATUS,
+  errorBodySchema,
+  listTracksRequestSchema,
+  listTracksResponseSchema,
+  summarizeResultSchema,
+  summarizeVideoAcceptedSchema,
+  summarizeVideoRequestSchema,
+} from './contract.ts';
+
+// Component schemas, generated from the contract. Requests are described as
+// the client may send them, so defaulted fields are optional.
+function componentSchema(schema: z.ZodType, io: 'input' | 'output') {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io, unrepresentable: 'any' });
+  return jsonSchema;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (name: string) => ({ 'application/json': { schema: ref(name) } });
+
+// One response per error status, listing the codes it can carry
+function errorResponses() {
+  const responses: Record<string, unknown> = {};
+  for (const status of [...new Set(Object.values(ERROR_STATUS))].sort((a, b) => a - b)) {
+    const codes = ERROR_CODES.filter((code) => ERROR_STATUS[code] === status);
+    responses[String(status)] = {
+      description: `Error with code ${codes.join(', ')}`,
+      content: jsonContent('Error'),
+      ...(status === 429
+        ? { headers: { 'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } } } }
+        : {}),
+    };
+  }
+  return responses;
+}
+
+// OpenAPI 3.1 description of the public API, served by summarize-video at
+// GET /summarize-video/v1/openapi.json
+export function buildOpenApiDocument(functionsUrl?: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Video summarizer API',
+      version: API_VERSION,
+    },
+    ...(functionsUrl ? { servers: [{ url: functionsUrl }] } : {}),
+    security: [{ bearerAuth: [] }],
+    paths: {
+      [`/${ENDPOINTS.summarizeVideo}`]: {
+        post: {
+          operationId: 'summarizeVideo',
+          summary: 'Queue a summary of a video or subtitle file',
+          description:
+            'Starts a summarize_video job and returns its id. The job reports progress in the jobs table and stores a SummarizeResult when it succeeds.',
+          requestBody: { required: true, content: jsonContent('SummarizeVideoRequest') },
+          responses: {
+            '202': { description: 'Job queued', content: jsonContent('SummarizeVideoAccepted') },
+            ...errorResponses(),
+          },
+        },
+      },
+      [`/${ENDPOINTS.listTracks}`]: {
+        post: {
+          operationId: 'listTracks',
+          summary: 'List the caption tracks of a video',
+          description:
+            'Lets the caller pick a caption language before queueing a summary. Has rate limits of its own and does not count towards the daily quota.',
+          requestBody: { required: true, content: jsonContent('ListTracksRequest') },
+          responses: {
+            '200': { description: 'Caption tracks', content: jsonContent('ListTracksResponse') },
+            ...errorResponses(),
+          },
+        },
+      },
+      [`/${ENDPOINTS.summarizeVideo}/openapi.json`]: {
+        get: {
+          operationId: 'getOpenApiDocument',
+          summary: 'This document',
+          security: [],
+          responses: { '200': { description: 'OpenAPI document', content: { 'application/json': {} } } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        SummarizeVideoRequest: componentSchema(summarizeVideoRequestSchema, 'input'),
+        SummarizeVideoAccepted: componentSchema(summarizeVideoAcceptedSchema, 'output'),
+        SummarizeResult: componentSchema(summarizeResultSchema, 'output'),
+        ListTracksRequest: componentSchema(listTracksRequestSchema, 'input'),
+        ListTracksResponse: componentSchema(listTracksResponseSchema, 'output'),
+        Error: componentSchema(errorBodySchema, 'output'),
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Supabase session access token' },
+      },
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { CompletionInfo } from './ai.ts';
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Looked up as "provider:model", then the bare model name, then "provider:*".
+// List prices at the time of writing; AI_PRICES overrides or extends them.
+export const DEFAULT_PRICES: PriceTable = {
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google/gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'google/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'openai/gpt-5-mini': { input: 0.25, output: 2 },
+  'openai/gpt-5': { input: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'deepseek-chat': { input: 0.28, output: 0.42 },
+  // Self-hosted models cost nothing per token
+  'ollama:*': { input: 0, output: 0 },
+};
+
+// AI_PRICES is a JSON object in the same shape as DEFAULT_PRICES, e.g.
+// {"openai:gpt-4o-mini": {"input": 0.15, "output": 0.6}}
+export function loadPriceTable(env: (key: string) => string | undefined = (key) => Deno.env.get(key)): PriceTable {
+  const configured = env('AI_PRICES');
+  if (!configured) return DEFAULT_PRICES;
+
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(configured) };
+  } catch (error) {
+    console.error('AI_PRICES is not valid JSON, using the default prices:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+export function findPrice(prices: PriceTable, provider: string, model: string): ModelPrice | null {
+  return prices[`${provider}:${model}`] ?? prices[model] ?? prices[`${provider}:*`] ?? null;
+}
+
+// Null when the provider reported no usage or the model has no price, so an
+// unknown cost is never mistaken for a free call
+export function costOf(info: CompletionInfo, prices: PriceTable): number | null {
+  const price = findPrice(prices, info.provider, info.model);
+  if (!price || !info.usage) return null;
+  return (info.usage.promptTokens * price.input + info.usage.completionTokens * price.output) / 1_000_000;
+}
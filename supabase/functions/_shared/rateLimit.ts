@@ -0,0 +1,174 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { errorBody } from './errors.ts';
+
+export interface RateLimitRule {
+  bucket: string;
+  windowSeconds: number;
+  maxHits: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export type WorkspacePlan = 'free' | 'pro' | 'team';
+
+export interface RateLimitConfig {
+  // Every caller, signed in or not, per client IP
+  perIp: { windowSeconds: number; maxHits: number };
+  // Signed-in callers, per user across all their IPs
+  perUser: { windowSeconds: number; maxHits: number };
+  // Summaries a workspace may start per UTC day
+  dailyQuotas: Record<WorkspacePlan, number>;
+  // Chat questions per signed-in user
+  chatPerUser: { windowSeconds: number; maxHits: number };
+  // Chat questions asked through one share link, by everyone holding it
+  chatPerShare: { windowSeconds: number; maxHits: number };
+  // Library searches per signed-in user
+  searchPerUser: { windowSeconds: number; maxHits: number };
+  // Caption track lookups, which the app makes while a URL is being edited
+  tracksPerIp: { windowSeconds: number; maxHits: number };
+  tracksPerUser: { windowSeconds: number; maxHits: number };
+}
+
+const DEFAULT_DAILY_QUOTAS: Record<WorkspacePlan, number> = { free: 20, pro: 200, team: 1000 };
+
+export const DAY_SECONDS = 86_400;
+
+export function loadRateLimitConfig(
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): RateLimitConfig {
+  const numberFrom = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  // PLAN_DAILY_QUOTAS overrides some or all plans: {"free": 5, "pro": 500}
+  const dailyQuotas = { ...DEFAULT_DAILY_QUOTAS };
+  const configuredQuotas = env('PLAN_DAILY_QUOTAS');
+  if (configuredQuotas) {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(configuredQuotas);
+    } catch (error) {
+      console.error('PLAN_DAILY_QUOTAS is not valid JSON, using the default quotas:', error);
+    }
+
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      for (const [plan, quota] of Object.entries(parsed)) {
+        if (!Object.hasOwn(DEFAULT_DAILY_QUOTAS, plan) || !Number.isInteger(quota) || (quota as number) < 0) {
+          console.error('Ignoring invalid PLAN_DAILY_QUOTAS entry:', plan, quota);
+          continue;
+        }
+        dailyQuotas[plan as WorkspacePlan] = quota as number;
+      }
+    } else if (parsed !== null) {
+      console.error('PLAN_DAILY_QUOTAS must be an object of plan names to quotas, using the default quotas');
+    }
+  }
+
+  return {
+    perIp: { windowSeconds: 60, maxHits: numberFrom('RATE_LIMIT_PER_IP_PER_MINUTE', 30) },
+    perUser: { windowSeconds: 60, maxHits: numberFrom('RATE_LIMIT_PER_USER_PER_MINUTE', 10) },
+    dailyQuotas,
+    chatPerUser: { windowSeconds: 60, maxHits: numberFrom('CHAT_RATE_LIMIT_PER_USER_PER_MINUTE', 10) },
+    chatPerShare: { windowSeconds: 3600, maxHits: numberFrom('CHAT_RATE_LIMIT_PER_SHARE_PER_HOUR', 60) },
+    searchPerUser: { windowSeconds: 60, maxHits: numberFrom('SEARCH_RATE_LIMIT_PER_USER_PER_MINUTE', 30) },
+    tracksPerIp: { windowSeconds: 60, maxHits: numberFrom('TRACKS_RATE_LIMIT_PER_IP_PER_MINUTE', 120) },
+    tracksPerUser: { windowSeconds: 60, maxHits: numberFrom('TRACKS_RATE_LIMIT_PER_USER_PER_MINUTE', 60) },
+  };
+}
+
+// Counts a hit in Postgres. A limiter that cannot reach the database lets the
+// request through rather than taking the whole function down with it.
+export async function hitRateLimit(supabase: SupabaseClient, rule: RateLimitRule): Promise<RateLimitResult> {
+  const { data, error } = await supabase.rpc('hit_rate_limit', {
+    bucket: rule.bucket,
+    window_seconds: rule.windowSeconds,
+    max_hits: rule.maxHits,
+  });
+
+  if (error || !data?.[0]) {
+    console.error('Rate limit check failed, allowing the request:', rule.bucket, error);
+    return { allowed: true, remaining: rule.maxHits, retryAfterSeconds: 0 };
+  }
+
+  const row = data[0] as { allowed: boolean; remaining: number; retry_after_seconds: number };
+  return { allowed: row.allowed, remaining: row.remaining, retryAfterSeconds: row.retry_after_seconds };
+}
+
+// Takes up to `wanted` hits at once and reports how many fit under the limit.
+// Like hitRateLimit, it grants everything when the database cannot be reached.
+export async function takeRateLimit(
+  supabase: SupabaseClient,
+  rule: RateLimitRule,
+  wanted: number
+): Promise<{ granted: number; retryAfterSeconds: number }> {
+  const { data, error } = await supabase.rpc('take_rate_limit', {
+    bucket: rule.bucket,
+    window_seconds: rule.windowSeconds,
+    max_hits: rule.maxHits,
+    wanted,
+  });
+
+  if (error || !data?.[0]) {
+    console.error('Rate limit check failed, allowing the request:', rule.bucket, error);
+    return { granted: wanted, retryAfterSeconds: 0 };
+  }
+
+  const row = data[0] as { granted: number; retry_after_seconds: number };
+  return { granted: row.granted, retryAfterSeconds: row.retry_after_seconds };
+}
+
+// Gives back a hit counted at `hitAt`, in whichever window that fell in. A
+// refund that fails only leaves the caller one hit short, so it is logged.
+export async function refundRateLimit(
+  supabase: SupabaseClient,
+  rule: Omit<RateLimitRule, 'maxHits'>,
+  hitAt: string
+): Promise<void> {
+  const { error } = await supabase.rpc('refund_rate_limit', {
+    bucket: rule.bucket,
+    window_seconds: rule.windowSeconds,
+    hit_at: hitAt,
+  });
+
+  if (error) console.error('Rate limit refund failed:', rule.bucket, error);
+}
+
+export async function loadWorkspacePlan(supabase: SupabaseClient, workspaceId: string): Promise<WorkspacePlan> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('plan')
+    .eq('id', workspaceId)
+    .single();
+
+  if (error) throw error;
+  return data.plan as WorkspacePlan;
+}
+
+// The client address as seen by the platform's proxy. Callers can put anything
+// in X-Forwarded-For, but the proxy appends the address it saw last, so only
+// the right-most hop is trusted.
+export function clientIp(req: Request): string {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim();
+  return forwarded || req.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+export function rateLimitedResponse(
+  message: string,
+  retryAfterSeconds: number,
+  headers: Record<string, string>,
+  code: 'rate_limited' | 'quota_exceeded' = 'rate_limited'
+): Response {
+  return new Response(JSON.stringify(errorBody(code, message, retryAfterSeconds)), {
+    status: 429,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+      'Retry-After': String(Math.max(1, retryAfterSeconds)),
+    },
+  });
+}
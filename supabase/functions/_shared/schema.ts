@@ -0,0 +1,81 @@
+import type { ChatCompletionFn, ChatCompletionOptions, ChatMessage } from './ai.ts';
+import { structuredSummarySchema, type StructuredSummary } from './contract.ts';
+
+export type { StructuredSummary };
+
+export const STRUCTURED_OUTPUT_INSTRUCTIONS = `Respond with a single JSON object and nothing else, matching this shape:
+{
+  "title": "a short descriptive title for the summary",
+  "tldr": "one sentence capturing the whole video",
+  "key_points": [{ "text": "a key point", "timestamp": "12:30" }],
+  "takeaways": ["an important takeaway"],
+  "action_items": ["something the viewer could do"],
+  "topics": ["a short topic label"]
+}
+Use the start time of the section a key point comes from as its "timestamp" (m:ss or h:mm:ss), or null when it is unknown.
+Use empty arrays when there are no takeaways, action items or topics.`;
+
+// Pulls the JSON object out of a model reply, tolerating markdown code fences
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('No JSON object found in response');
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+// Asks for a structured summary and feeds validation errors back to the model
+// until the reply matches the schema or the attempts run out.
+export async function completeStructured(
+  messages: ChatMessage[],
+  complete: ChatCompletionFn,
+  options: ChatCompletionOptions = {},
+  onRetry?: (attempt: number) => void,
+  maxAttempts = 3
+): Promise<StructuredSummary> {
+  const conversation = [...messages];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const reply = await complete(conversation, { ...options, jsonMode: true });
+
+    let problem: string;
+    try {
+      const result = structuredSummarySchema.safeParse(extractJson(reply));
+      if (result.success) return result.data;
+      problem = result.error.issues.map((issue) => `${issue.path.join('.') || 'root'}: ${issue.message}`).join('; ');
+    } catch (error) {
+      problem = error instanceof Error ? error.message : 'Invalid JSON';
+    }
+
+    console.warn(`Structured summary attempt ${attempt}/${maxAttempts} failed validation:`, problem);
+    onRetry?.(attempt);
+    conversation.push(
+      { role: 'assistant', content: reply },
+      {
+        role: 'user',
+        content: `That response was not valid: ${problem}. Reply again with only the corrected JSON object.`,
+      }
+    );
+  }
+
+  throw new Error('AI returned an invalid structured summary');
+}
+
+// Plain-text rendering kept in the summary column for older clients and previews
+export function renderSummaryMarkdown(summary: StructuredSummary): string {
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join('\n');
+  const sections = [
+    `# ${summary.title}`,
+    `**TL;DR:** ${summary.tldr}`,
+    `## Key points\n${summary.key_points
+      .map((point) => `- ${point.timestamp ? `[${point.timestamp}] ` : ''}${point.text}`)
+      .join('\n')}`,
+  ];
+
+  if (summary.takeaways.length > 0) sections.push(`## Takeaways\n${list(summary.takeaways)}`);
+  if (summary.action_items.length > 0) sections.push(`## Action items\n${list(summary.action_items)}`);
+  if (summary.topics.length > 0) sections.push(`## Topics\n${summary.topics.join(', ')}`);
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,73 @@
+export type SummaryStyleId = 'standard' | 'tldr' | 'outline' | 'study_notes' | 'executive_brief';
+
+export interface SummaryStyle {
+  id: SummaryStyleId;
+  label: string;
+  // Output format the final summary must follow; appended to both the single
+  // prompt and the reduce prompt so chunked and unchunked runs agree
+  instructions: string;
+  maxTokens: number;
+}
+
+export const DEFAULT_STYLE: SummaryStyleId = 'standard';
+
+export const SUMMARY_STYLES: Record<SummaryStyleId, SummaryStyle> = {
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    instructions: `Provide a comprehensive summary that includes:
+1. Main topic and purpose
+2. Key points discussed
+3. Important takeaways
+4. Any actionable insights
+
+Keep the summary clear and well-organized.`,
+    maxTokens: 1000,
+  },
+  tldr: {
+    id: 'tldr',
+    label: 'TL;DR',
+    instructions: `Write a TL;DR: one bolded sentence stating what the video is about, followed by at most three short bullet points with the most important ideas.
+Keep it under 80 words in total.`,
+    maxTokens: 300,
+  },
+  outline: {
+    id: 'outline',
+    label: 'Detailed outline',
+    instructions: `Write a detailed hierarchical outline of the video.
+Use numbered top-level sections in the order they appear, with nested bullet points for the supporting details, examples and figures mentioned under each.
+Cover the whole video rather than only the highlights.`,
+    maxTokens: 2000,
+  },
+  study_notes: {
+    id: 'study_notes',
+    label: 'Study notes',
+    instructions: `Write study notes a student could revise from:
+1. Key concepts, each with a one-sentence definition
+2. Explanations of how the concepts relate to each other
+3. Important facts, formulas or examples worth memorizing
+4. Five review questions with short answers
+
+Use clear headings and concise bullet points.`,
+    maxTokens: 1800,
+  },
+  executive_brief: {
+    id: 'executive_brief',
+    label: 'Executive brief',
+    instructions: `Write an executive brief for a busy decision-maker:
+1. Bottom line: the single most important conclusion, in one or two sentences
+2. Context: why this matters
+3. Key findings: three to five bullet points
+4. Risks or open questions
+5. Recommended next steps
+
+Be direct and avoid filler. Keep it under 250 words.`,
+    maxTokens: 800,
+  },
+};
+
+export function getSummaryStyle(id: unknown): SummaryStyle | null {
+  if (id === undefined || id === null || id === '') return SUMMARY_STYLES[DEFAULT_STYLE];
+  if (typeof id !== 'string' || !Object.hasOwn(SUMMARY_STYLES, id)) return null;
+  return SUMMARY_STYLES[id as SummaryStyleId];
+}
@@ -0,0 +1,42 @@
+// A single caption line with its offset and duration in milliseconds
+export interface TranscriptSegment {
+  start_ms: number;
+  duration_ms: number;
+  text: string;
+}
+
+export interface TranscriptChunk {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+// Rough token estimate; good enough for sizing prompts without a tokenizer
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text).join(' ').trim();
+}
+
+// One "[m:ss] text" line per segment, so the model can cite where points come from
+export function segmentsToTimedText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => `[${formatTimestamp(segment.start_ms)}] ${segment.text}`).join('\n');
+}
+
+// Parses "m:ss" or "h:mm:ss" into milliseconds
+export function timestampToMs(timestamp: string): number | null {
+  if (!/^(\d+:)?\d{1,2}:\d{2}$/.test(timestamp)) return null;
+  return timestamp.split(':').reduce((total, part) => total * 60 + Number(part), 0) * 1000;
+}
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { CompletionInfo } from './ai.ts';
+import { CodedError } from './errors.ts';
+import { costOf, loadPriceTable, type PriceTable } from './pricing.ts';
+
+export type UsageFeature = 'summary' | 'chat' | 'series';
+
+export interface UsageRecord extends CompletionInfo {
+  costUsd: number | null;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  // Null when none of the calls could be priced
+  costUsd: number | null;
+}
+
+export interface UsageContext {
+  workspaceId: string;
+  userId: string | null;
+  summaryId: string | null;
+  feature: UsageFeature;
+}
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const priced = records.filter((record) => record.costUsd !== null);
+  return {
+    promptTokens: records.reduce((sum, record) => sum + (record.usage?.promptTokens ?? 0), 0),
+    completionTokens: records.reduce((sum, record) => sum + (record.usage?.completionTokens ?? 0), 0),
+    latencyMs: records.reduce((sum, record) => sum + record.latencyMs, 0),
+    costUsd: priced.length > 0 ? priced.reduce((sum, record) => sum + record.costUsd!, 0) : null,
+  };
+}
+
+// Collects every completion made for one piece of work, priced as it happens.
+// Pass `record` as a completion function's onCompletion.
+export function createUsageRecorder(prices: PriceTable = loadPriceTable()) {
+  const records: UsageRecord[] = [];
+
+  return {
+    records,
+    record: (info: CompletionInfo) => {
+      const costUsd = costOf(info, prices);
+      if (costUsd === null) console.warn('No price or usage for', `${info.provider}:${info.model}`);
+      records.push({ ...info, costUsd });
+    },
+    totals: () => sumUsage(records),
+    // "provider:model" of the most recent completion
+    lastModel: () => {
+      const last = records[records.length - 1];
+      return last ? `${last.provider}:${last.model}` : null;
+    },
+    // Writes the collected calls to the ledger. Spend is recorded even when the
+    // work that caused it failed; a failed write is logged, not thrown.
+    save: async (supabase: SupabaseClient, context: UsageContext) => {
+      const pending = records.splice(0);
+      if (pending.length === 0) return;
+
+      const { error } = await supabase.from('ai_usage').insert(
+        pending.map((record) => ({
+          workspace_id: context.workspaceId,
+          user_id: context.userId,
+          summary_id: context.summaryId,
+          feature: context.feature,
+          provider: record.provider,
+          model: record.model,
+          prompt_tokens: record.usage?.promptTokens ?? 0,
+          completion_tokens: record.usage?.completionTokens ?? 0,
+          latency_ms: record.latencyMs,
+          cost_usd: record.costUsd,
+        }))
+      );
+      if (error) console.error('Failed to record AI usage:', error);
+    },
+  };
+}
+
+export type UsageRecorder = ReturnType<typeof createUsageRecorder>;
+
+export interface WorkspaceBudget {
+  budgetUsd: number | null;
+  spentUsd: number;
+}
+
+// This calendar month's spend against the workspace's budget, if it has one
+export async function loadWorkspaceBudget(supabase: SupabaseClient, workspaceId: string): Promise<WorkspaceBudget> {
+  const { data: workspace, error: workspaceError } = await supabase
+    .from('workspaces')
+    .select('monthly_budget_usd')
+    .eq('id', workspaceId)
+    .single();
+  if (workspaceError) throw workspaceError;
+
+  const { data: spent, error: spendError } = await supabase.rpc('workspace_month_spend', {
+    target_workspace: workspaceId,
+  });
+  if (spendError) throw spendError;
+
+  return {
+    budgetUsd: workspace.monthly_budget_usd === null ? null : Number(workspace.monthly_budget_usd),
+    spentUsd: Number(spent ?? 0),
+  };
+}
+
+export const isOverBudget = ({ budgetUsd, spentUsd }: WorkspaceBudget) => budgetUsd !== null && spentUsd >= budgetUsd;
+
+export const budgetExceededMessage = (budgetUsd: number) =>
+  `This workspace has used its monthly AI budget of $${budgetUsd.toFixed(2)}. An owner can raise it on the workspace page.`;
+
+// Checked when work is requested and again right before a model is called, since
+// queued jobs can wait while other work spends the rest of the budget
+export async function assertWithinBudget(supabase: SupabaseClient, workspaceId: string): Promise<void> {
+  const budget = await loadWorkspaceBudget(supabase, workspaceId);
+  if (isOverBudget(budget)) {
+    throw new CodedError('budget_exceeded', budgetExceededMessage(budget.budgetUsd!));
+  }
+}
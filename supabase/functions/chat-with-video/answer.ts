@@ -0,0 +1,167 @@
+import type { ChatCompletionFn, ChatMessage } from '../_shared/ai.ts';
+import {
+  estimateTokens,
+  formatTimestamp,
+  segmentsToTimedText,
+  timestampToMs,
+  type TranscriptSegment,
+} from '../_shared/transcript.ts';
+
+export interface ChatConfig {
+  // Upper bound on the estimated tokens of transcript text sent with a question
+  contextTokens: number;
+  // How many earlier messages of the thread are replayed to the model
+  historyMessages: number;
+}
+
+export interface ThreadMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatAnswer {
+  content: string;
+  // Start offsets, in milliseconds, of the transcript lines the answer cites
+  citations: number[];
+  // False when the model could not answer from the transcript
+  grounded: boolean;
+}
+
+// Sentinel the model must reply with when the transcript does not cover the question
+const NOT_IN_TRANSCRIPT = 'NOT_IN_TRANSCRIPT';
+
+export const REFUSAL_MESSAGE =
+  "I couldn't find that in this video's transcript, so I can't answer it. Try asking about something the video covers.";
+
+// Excerpts are picked in windows of about this many tokens
+const WINDOW_TOKENS = 800;
+
+const SYSTEM_PROMPT = `You answer questions about one video using only the transcript excerpts provided.
+Each transcript line starts with its timestamp in square brackets, e.g. [12:30].
+
+Rules:
+- Use only information stated in the transcript. Do not use outside knowledge, even if you know the topic.
+- After every claim, cite the timestamp of the transcript line it comes from in square brackets, copied exactly, e.g. [12:30].
+- If the transcript does not contain the answer, reply with exactly ${NOT_IN_TRANSCRIPT} and nothing else.
+- Keep answers short and direct.`;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'does', 'what', 'when', 'where', 'which', 'why', 'with',
+  'this', 'that', 'they', 'them', 'then', 'than', 'there', 'their', 'about', 'from', 'have', 'into', 'video', 'say',
+  'said', 'says', 'talk', 'tell', 'mention', 'mentioned',
+]);
+
+export function loadChatConfig(
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): ChatConfig {
+  const numberFrom = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    contextTokens: numberFrom('CHAT_CONTEXT_TOKENS', 24000),
+    historyMessages: numberFrom('CHAT_HISTORY_MESSAGES', 10),
+  };
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => term.length > 2 && !STOP_WORDS.has(term)
+  );
+}
+
+// Short transcripts are sent whole. Longer ones are cut into windows and the
+// windows sharing the most terms with the conversation are kept, in playback
+// order, until the token budget is spent.
+export function selectExcerpts(
+  segments: TranscriptSegment[],
+  query: string,
+  contextTokens: number
+): TranscriptSegment[] {
+  const lineTokens = (segment: TranscriptSegment) => estimateTokens(segment.text) + 3;
+  const total = segments.reduce((sum, segment) => sum + lineTokens(segment), 0);
+  if (total <= contextTokens) return segments;
+
+  const windows: { index: number; segments: TranscriptSegment[]; tokens: number }[] = [];
+  for (const segment of segments) {
+    const current = windows[windows.length - 1];
+    if (!current || current.tokens + lineTokens(segment) > WINDOW_TOKENS) {
+      windows.push({ index: windows.length, segments: [segment], tokens: lineTokens(segment) });
+    } else {
+      current.segments.push(segment);
+      current.tokens += lineTokens(segment);
+    }
+  }
+
+  const queryTerms = new Set(terms(query));
+  const scored = windows.map((window) => ({
+    ...window,
+    score: terms(window.segments.map((segment) => segment.text).join(' ')).filter((term) => queryTerms.has(term)).length,
+  }));
+
+  const chosen: typeof scored = [];
+  let used = 0;
+  for (const window of [...scored].sort((a, b) => b.score - a.score || a.index - b.index)) {
+    if (used + window.tokens > contextTokens) continue;
+    chosen.push(window);
+    used += window.tokens;
+  }
+
+  return chosen.sort((a, b) => a.index - b.index).flatMap((window) => window.segments);
+}
+
+// Keeps only citations that point at a line of the transcript, so a made-up
+// timestamp cannot pass as grounding.
+export function extractCitations(answer: string, segments: TranscriptSegment[]): number[] {
+  const cited = new Set<number>();
+
+  for (const match of answer.matchAll(/\[((?:\d+:)?\d{1,2}:\d{2})\]/g)) {
+    const ms = timestampToMs(match[1]);
+    if (ms === null) continue;
+
+    const line = segments.find(
+      (segment) => ms >= Math.floor(segment.start_ms / 1000) * 1000 && ms < segment.start_ms + Math.max(segment.duration_ms, 1000)
+    );
+    if (line) cited.add(line.start_ms);
+  }
+
+  return [...cited].sort((a, b) => a - b);
+}
+
+export async function answerQuestion(
+  question: string,
+  history: ThreadMessage[],
+  videoTitle: string,
+  segments: TranscriptSegment[],
+  complete: ChatCompletionFn,
+  config: ChatConfig
+): Promise<ChatAnswer> {
+  const recentQuestions = history.filter((message) => message.role === 'user').map((message) => message.content);
+  const excerpts = selectExcerpts(segments, [...recentQuestions.slice(-2), question].join(' '), config.contextTokens);
+  const partial = excerpts.length < segments.length;
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'system',
+      content: `Video title: "${videoTitle}"
+${partial ? `These are the excerpts most relevant to the question, from a ${formatTimestamp(segments[segments.length - 1].start_ms)} transcript.\n` : ''}
+Transcript:
+${segmentsToTimedText(excerpts)}`,
+    },
+    ...history,
+    { role: 'user', content: question },
+  ];
+
+  const answer = (await complete(messages, { temperature: 0.2, maxTokens: 800 })).trim();
+  const citations = extractCitations(answer, excerpts);
+
+  // An answer that cites nothing in the transcript is treated as not found
+  if (!answer || answer.includes(NOT_IN_TRANSCRIPT) || citations.length === 0) {
+    return { content: REFUSAL_MESSAGE, citations: [], grounded: false };
+  }
+
+  return { content: answer, citations, grounded: true };
+}
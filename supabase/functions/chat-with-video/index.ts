@@ -0,0 +1,224 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createChatCompletion, resolveModelTargets } from '../_shared/ai.ts';
+import { hasWorkspaceRole } from '../_shared/auth.ts';
+import { corsHeadersFor, isOriginAllowed, loadAllowedOrigins } from '../_shared/cors.ts';
+import { classifyError, errorResponse } from '../_shared/errors.ts';
+import { clientIp, hitRateLimit, loadRateLimitConfig, rateLimitedResponse } from '../_shared/rateLimit.ts';
+import type { TranscriptSegment } from '../_shared/transcript.ts';
+import { budgetExceededMessage, createUsageRecorder, isOverBudget, loadWorkspaceBudget } from '../_shared/usage.ts';
+import { answerQuestion, loadChatConfig, type ThreadMessage } from './answer.ts';
+
+const MAX_QUESTION_LENGTH = 2000;
+
+// Checks a share link without counting it as a view
+async function shareGrantsAccess(
+  supabase: SupabaseClient,
+  summaryId: string,
+  shareToken: unknown,
+  sharePassword: unknown
+): Promise<boolean> {
+  if (typeof shareToken !== 'string' || !shareToken) return false;
+
+  const { data, error } = await supabase.rpc('resolve_share', {
+    share_token: shareToken,
+    share_password: typeof sharePassword === 'string' ? sharePassword : null,
+    count_view: false,
+  });
+
+  if (error) throw error;
+  return data?.status === 'ok' && data.summary?.id === summaryId;
+}
+
+serve(async (req) => {
+  const allowedOrigins = loadAllowedOrigins();
+  const cors = corsHeadersFor(req, allowedOrigins);
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...cors, 'Content-Type': 'application/json' },
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: cors });
+  }
+
+  if (!isOriginAllowed(req, allowedOrigins)) {
+    return errorResponse('origin_not_allowed', 'Origin not allowed', cors);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const limits = loadRateLimitConfig();
+
+    const ipLimit = await hitRateLimit(supabase, { bucket: `ip:${clientIp(req)}`, ...limits.perIp });
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse('Too many requests from your network.', ipLimit.retryAfterSeconds, cors);
+    }
+
+    const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return errorResponse('unauthenticated', 'Sign in to ask questions about videos', cors);
+    }
+
+    const { summaryId, threadId, shareToken, sharePassword, question: rawQuestion, model } = (await req.json().catch(() => null)) ?? {};
+    const question = typeof rawQuestion === 'string' ? rawQuestion.trim() : '';
+
+    if (!summaryId || !question) {
+      return errorResponse('invalid_request', 'Summary ID and question are required', cors);
+    }
+
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return errorResponse('invalid_request', `Questions are limited to ${MAX_QUESTION_LENGTH} characters`, cors);
+    }
+
+    if (model !== undefined && (typeof model !== 'string' || !resolveModelTargets(model))) {
+      return errorResponse('model_unavailable', `Model not available: ${model}`, cors);
+    }
+
+    const userLimit = await hitRateLimit(supabase, { bucket: `chat:user:${user.id}`, ...limits.chatPerUser });
+    if (!userLimit.allowed) {
+      return rateLimitedResponse('You are asking questions too quickly.', userLimit.retryAfterSeconds, cors);
+    }
+
+    // The service role bypasses RLS, so apply the same visibility rule here:
+    // workspace members, or anyone holding a working share link
+    const { data: summary, error: summaryError } = await supabase
+      .from('summaries')
+      .select('id, workspace_id, video_title')
+      .eq('id', summaryId)
+      .maybeSingle();
+
+    if (summaryError) throw summaryError;
+
+    const isMember = !!summary && (await hasWorkspaceRole(supabase, summary.workspace_id, user.id, 'viewer'));
+    const viaShare = !!summary && !isMember && (await shareGrantsAccess(supabase, summaryId, shareToken, sharePassword));
+
+    if (!summary || (!isMember && !viaShare)) {
+      return errorResponse('not_found', 'Summary not found', cors);
+    }
+
+    // Questions asked through a share link are billed to the summary's
+    // workspace, so each link gets a limit of its own on top of the user's
+    if (viaShare) {
+      const shareLimit = await hitRateLimit(supabase, { bucket: `chat:share:${shareToken}`, ...limits.chatPerShare });
+      if (!shareLimit.allowed) {
+        return rateLimitedResponse(
+          'Too many questions have been asked through this link. Try again later.',
+          shareLimit.retryAfterSeconds,
+          cors
+        );
+      }
+    }
+
+    const budget = await loadWorkspaceBudget(supabase, summary.workspace_id);
+    if (isOverBudget(budget)) {
+      return errorResponse('budget_exceeded', budgetExceededMessage(budget.budgetUsd!), cors);
+    }
+
+    const { data: transcript, error: transcriptError } = await supabase
+      .from('transcripts')
+      .select('segments')
+      .eq('summary_id', summaryId)
+      .maybeSingle();
+
+    if (transcriptError) throw transcriptError;
+
+    const segments = (transcript?.segments ?? []) as TranscriptSegment[];
+    if (segments.length === 0) {
+      return errorResponse('no_captions', 'This video has no stored transcript to answer questions from', cors);
+    }
+
+    // Continue the caller's thread, or start a new one for this summary
+    let thread: { id: string };
+    if (threadId) {
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .select('id')
+        .eq('id', threadId)
+        .eq('summary_id', summaryId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return errorResponse('not_found', 'Conversation not found', cors);
+      thread = data;
+    } else {
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .insert({ summary_id: summaryId, user_id: user.id, title: question.slice(0, 120) })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      thread = data;
+    }
+
+    const config = loadChatConfig();
+
+    const { data: previous, error: historyError } = await supabase
+      .from('chat_messages')
+      .select('role, content')
+      .eq('thread_id', thread.id)
+      .order('created_at', { ascending: false })
+      .limit(config.historyMessages);
+
+    if (historyError) throw historyError;
+    const history = ((previous ?? []) as ThreadMessage[]).reverse();
+
+    const { data: userMessage, error: userMessageError } = await supabase
+      .from('chat_messages')
+      .insert({ thread_id: thread.id, role: 'user', content: question })
+      .select()
+      .single();
+
+    if (userMessageError) throw userMessageError;
+
+    console.log('Answering question for summary:', summaryId, 'thread:', thread.id);
+
+    const usage = createUsageRecorder();
+    const answer = await answerQuestion(
+      question,
+      history,
+      summary.video_title || 'Unknown Video',
+      segments,
+      createChatCompletion({ model, onCompletion: usage.record }),
+      config
+    ).finally(() =>
+      usage.save(supabase, { workspaceId: summary.workspace_id, userId: user.id, summaryId, feature: 'chat' })
+    );
+
+    const { data: assistantMessage, error: assistantMessageError } = await supabase
+      .from('chat_messages')
+      .insert({
+        thread_id: thread.id,
+        role: 'assistant',
+        content: answer.content,
+        citations: answer.citations,
+        grounded: answer.grounded,
+      })
+      .select()
+      .single();
+
+    if (assistantMessageError) throw assistantMessageError;
+
+    await supabase
+      .from('chat_threads')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', thread.id);
+
+    return jsonResponse({ threadId: thread.id, messages: [userMessage, assistantMessage] });
+  } catch (error) {
+    console.error('Error in chat-with-video function:', error);
+    const failure = classifyError(error);
+    return errorResponse(failure.code, failure.message, cors);
+  }
+});
@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeadersFor, isOriginAllowed, loadAllowedOrigins } from '../_shared/cors.ts';
+import { createEmbeddingProvider, toVectorLiteral } from '../_shared/embeddings.ts';
+import { classifyError, errorResponse } from '../_shared/errors.ts';
+import { clientIp, hitRateLimit, loadRateLimitConfig, rateLimitedResponse } from '../_shared/rateLimit.ts';
+import { groupByVideo, type MatchRow } from './ranking.ts';
+
+const MAX_QUERY_LENGTH = 500;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+serve(async (req) => {
+  const allowedOrigins = loadAllowedOrigins();
+  const cors = corsHeadersFor(req, allowedOrigins);
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...cors, 'Content-Type': 'application/json' },
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: cors });
+  }
+
+  if (!isOriginAllowed(req, allowedOrigins)) {
+    return errorResponse('origin_not_allowed', 'Origin not allowed', cors);
+  }
+
+  try {
+    // Query as the caller so row level security limits matches to their workspaces
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    // The limiter's counters are only writable with the service role
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Every search embeds its query, so it is limited like the other paid endpoints
+    const limits = loadRateLimitConfig();
+
+    const ipLimit = await hitRateLimit(admin, { bucket: `ip:${clientIp(req)}`, ...limits.perIp });
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse('Too many requests from your network.', ipLimit.retryAfterSeconds, cors);
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return errorResponse('unauthenticated', 'Sign in to search your library', cors);
+    }
+
+    const userLimit = await hitRateLimit(admin, { bucket: `search:user:${user.id}`, ...limits.searchPerUser });
+    if (!userLimit.allowed) {
+      return rateLimitedResponse('You are searching too quickly.', userLimit.retryAfterSeconds, cors);
+    }
+
+    const { query: rawQuery, workspaceId, limit: rawLimit } = (await req.json().catch(() => null)) ?? {};
+    const query = typeof rawQuery === 'string' ? rawQuery.trim() : '';
+    const limit = Math.min(Math.max(Number(rawLimit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    if (!query) {
+      return errorResponse('invalid_request', 'Search query is required', cors);
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      return errorResponse('invalid_request', `Search queries are limited to ${MAX_QUERY_LENGTH} characters`, cors);
+    }
+
+    if (typeof workspaceId !== 'string' || !workspaceId) {
+      return errorResponse('invalid_request', 'Workspace ID is required', cors);
+    }
+
+    const embeddings = createEmbeddingProvider();
+    const [vector] = await embeddings.embed([query]);
+
+    const minSimilarity = Number(Deno.env.get('SEARCH_MIN_SIMILARITY')) || 0.25;
+
+    // Over-fetch rows since several usually belong to the same video
+    const { data, error } = await supabase.rpc('match_summary_embeddings', {
+      query_embedding: toVectorLiteral(vector),
+      embedding_model: embeddings.model,
+      target_workspace: workspaceId,
+      match_count: limit * 8,
+      min_similarity: minSimilarity,
+    });
+
+    if (error) throw error;
+
+    const results = groupByVideo((data ?? []) as MatchRow[], limit);
+    console.log('Semantic search:', JSON.stringify(query), 'model:', embeddings.model, 'videos:', results.length);
+
+    return jsonResponse({ results });
+  } catch (error) {
+    console.error('Error in semantic-search function:', error);
+    const failure = classifyError(error);
+    return errorResponse(failure.code, failure.message, cors);
+  }
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createLocalEmbeddings } from '../_shared/embeddings.ts';
+import { groupByVideo, type MatchRow } from './ranking.ts';
+
+const video = (summaryId: string) => ({
+  summary_id: summaryId,
+  video_title: `Video ${summaryId}`,
+  video_url: `https://www.youtube.com/watch?v=${summaryId}`,
+  channel_name: null,
+  created_at: '2025-01-01T00:00:00.000Z',
+});
+
+const passage = (summaryId: string, startMs: number, similarity: number): MatchRow => ({
+  ...video(summaryId),
+  kind: 'passage',
+  start_ms: startMs,
+  end_ms: startMs + 90_000,
+  content: `${summaryId} at ${startMs}`,
+  similarity,
+});
+
+const summary = (summaryId: string, similarity: number): MatchRow => ({
+  ...video(summaryId),
+  kind: 'summary',
+  start_ms: null,
+  end_ms: null,
+  content: `Summary of ${summaryId}`,
+  similarity,
+});
+
+describe('groupByVideo', () => {
+  it('orders videos by their best match and keeps their best passages in playback order', () => {
+    const results = groupByVideo(
+      [
+        passage('a', 270_000, 0.9),
+        summary('b', 0.8),
+        passage('a', 0, 0.7),
+        passage('a', 90_000, 0.6),
+        passage('b', 0, 0.55),
+        passage('a', 180_000, 0.5),
+      ],
+      10
+    );
+
+    expect(results.map(({ summaryId, score, summaryMatch }) => [summaryId, score, summaryMatch])).toEqual([
+      ['a', 0.9, false],
+      ['b', 0.8, true],
+    ]);
+    expect(results[0].passages.map(({ startMs }) => startMs)).toEqual([0, 90_000, 270_000]);
+    expect(results[1].passages).toEqual([{ startMs: 0, endMs: 90_000, content: 'b at 0', similarity: 0.55 }]);
+  });
+
+  it('returns at most the requested number of videos', () => {
+    const rows = ['a', 'b', 'c'].map((id, index) => summary(id, 0.9 - index / 10));
+    expect(groupByVideo(rows, 2).map(({ summaryId }) => summaryId)).toEqual(['a', 'b']);
+  });
+});
+
+describe('search with the local embeddings', () => {
+  const embeddings = createLocalEmbeddings();
+
+  // The cosine similarity match_summary_embeddings computes; local vectors are unit length
+  const similarity = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+  it('ranks the video that talks about the query first', async () => {
+    const documents = [
+      { ...passage('cooking', 0, 0), content: 'how to bake sourdough bread with a starter' },
+      { ...passage('rust', 0, 0), content: 'the borrow checker enforces ownership rules in rust' },
+      { ...passage('rust', 90_000, 0), content: 'lifetimes tell the borrow checker how long references live' },
+      { ...passage('gardening', 0, 0), content: 'planting tomatoes in spring' },
+    ];
+    const [query, ...vectors] = await embeddings.embed([
+      'rust borrow checker',
+      ...documents.map((document) => document.content),
+    ]);
+
+    const rows = documents
+      .map((document, index) => ({ ...document, similarity: similarity(query, vectors[index]) }))
+      .filter((row) => row.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const results = groupByVideo(rows, 10);
+    expect(results.map(({ summaryId }) => summaryId)).toEqual(['rust']);
+    expect(results[0].passages.map(({ startMs }) => startMs)).toEqual([0, 90_000]);
+  });
+
+  it('embeds the same text to the same vector', async () => {
+    const [first] = await embeddings.embed(['Rust ownership']);
+    const [second] = await embeddings.embed(['rust ownership']);
+    expect(first).toEqual(second);
+    expect(similarity(first, first)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,66 @@
+// Passages kept per video in the response
+const PASSAGES_PER_VIDEO = 3;
+
+export interface MatchRow {
+  summary_id: string;
+  kind: 'summary' | 'passage';
+  start_ms: number | null;
+  end_ms: number | null;
+  content: string;
+  similarity: number;
+  video_title: string | null;
+  video_url: string;
+  channel_name: string | null;
+  created_at: string;
+}
+
+export interface VideoResult {
+  summaryId: string;
+  videoTitle: string | null;
+  videoUrl: string;
+  channelName: string | null;
+  createdAt: string;
+  score: number;
+  summaryMatch: boolean;
+  passages: { startMs: number; endMs: number; content: string; similarity: number }[];
+}
+
+// Matches come back one row per summary or passage; the page shows one card
+// per video with its best passages, ordered by the video's best match.
+export function groupByVideo(rows: MatchRow[], limit: number): VideoResult[] {
+  const videos = new Map<string, VideoResult>();
+
+  for (const row of rows) {
+    let video = videos.get(row.summary_id);
+    if (!video) {
+      video = {
+        summaryId: row.summary_id,
+        videoTitle: row.video_title,
+        videoUrl: row.video_url,
+        channelName: row.channel_name,
+        createdAt: row.created_at,
+        score: row.similarity,
+        summaryMatch: false,
+        passages: [],
+      };
+      videos.set(row.summary_id, video);
+    }
+
+    video.score = Math.max(video.score, row.similarity);
+    if (row.kind === 'summary') {
+      video.summaryMatch = true;
+    } else if (video.passages.length < PASSAGES_PER_VIDEO && row.start_ms !== null) {
+      video.passages.push({
+        startMs: row.start_ms,
+        endMs: row.end_ms ?? row.start_ms,
+        content: row.content,
+        similarity: row.similarity,
+      });
+    }
+  }
+
+  return [...videos.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((video) => ({ ...video, passages: video.passages.sort((a, b) => a.startMs - b.startMs) }));
+}
@@ -0,0 +1,182 @@
+export type CollectionRef =
+  | { kind: 'playlist'; playlistId: string }
+  | { kind: 'channel'; channelId?: string; handle?: string; username?: string; customUrl?: string };
+
+export interface CollectionVideo {
+  id: string;
+  title: string | null;
+}
+
+export interface ExpandedCollection {
+  title: string;
+  videos: CollectionVideo[];
+  // More videos exist than were listed, because of the batch cap or the feed limit
+  truncated: boolean;
+}
+
+const API_BASE = 'https://www.googleapis.com/youtube/v3';
+
+// Titles the Data API reports for entries that can no longer be watched
+const UNAVAILABLE_TITLES = new Set(['Private video', 'Deleted video']);
+
+export function parseCollectionUrl(url: string): CollectionRef | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (!/(^|\.)youtube\.com$/.test(parsed.hostname)) return null;
+
+  const playlistId = parsed.searchParams.get('list');
+  if (parsed.pathname === '/playlist' && playlistId) {
+    return { kind: 'playlist', playlistId };
+  }
+
+  const [first, second] = parsed.pathname.split('/').filter(Boolean);
+  if (!first) return null;
+
+  if (first.startsWith('@')) return { kind: 'channel', handle: decodeURIComponent(first) };
+  if (first === 'channel' && second) return { kind: 'channel', channelId: second };
+  if (first === 'user' && second) return { kind: 'channel', username: second };
+  if (first === 'c' && second) return { kind: 'channel', customUrl: second };
+
+  return null;
+}
+
+// Lists the videos of a playlist or channel. With YOUTUBE_API_KEY the Data API
+// is used and up to `maxVideos` are returned; without it the public RSS feeds
+// are read instead, which only carry the latest 15 entries.
+export async function expandCollection(
+  ref: CollectionRef,
+  maxVideos: number,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key),
+  fetchFn: typeof fetch = fetch
+): Promise<ExpandedCollection> {
+  const apiKey = env('YOUTUBE_API_KEY');
+  return apiKey ? expandWithApi(ref, maxVideos, apiKey, fetchFn) : expandWithFeed(ref, maxVideos, fetchFn);
+}
+
+async function fetchApi(path: string, params: Record<string, string>, apiKey: string, fetchFn: typeof fetch) {
+  const query = new URLSearchParams({ ...params, key: apiKey });
+  const response = await fetchFn(`${API_BASE}/${path}?${query}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('YouTube Data API error:', response.status, errorText);
+    throw new Error(`YouTube Data API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+async function expandWithApi(
+  ref: CollectionRef,
+  maxVideos: number,
+  apiKey: string,
+  fetchFn: typeof fetch
+): Promise<ExpandedCollection> {
+  let playlistId: string;
+  let title: string;
+
+  if (ref.kind === 'playlist') {
+    const data = await fetchApi('playlists', { part: 'snippet', id: ref.playlistId }, apiKey, fetchFn);
+    if (!data.items?.length) throw new Error('Playlist not found or private');
+    playlistId = ref.playlistId;
+    title = data.items[0].snippet.title;
+  } else {
+    // Custom /c/ URLs have no API lookup; resolve them to a channel ID from the page
+    const channelId = ref.customUrl ? await scrapeChannelId(ref, fetchFn) : ref.channelId;
+    const lookup: Record<string, string> = channelId
+      ? { id: channelId }
+      : ref.handle
+        ? { forHandle: ref.handle }
+        : { forUsername: ref.username! };
+
+    const data = await fetchApi('channels', { part: 'snippet,contentDetails', ...lookup }, apiKey, fetchFn);
+    if (!data.items?.length) throw new Error('Channel not found');
+    playlistId = data.items[0].contentDetails.relatedPlaylists.uploads;
+    title = data.items[0].snippet.title;
+  }
+
+  const videos: CollectionVideo[] = [];
+  let pageToken: string | undefined;
+  let truncated = false;
+
+  do {
+    const data = await fetchApi(
+      'playlistItems',
+      { part: 'snippet', playlistId, maxResults: '50', ...(pageToken ? { pageToken } : {}) },
+      apiKey,
+      fetchFn
+    );
+
+    for (const item of data.items ?? []) {
+      const id = item.snippet?.resourceId?.videoId;
+      if (!id || UNAVAILABLE_TITLES.has(item.snippet.title)) continue;
+      if (videos.length >= maxVideos) {
+        truncated = true;
+        break;
+      }
+      videos.push({ id, title: item.snippet.title ?? null });
+    }
+
+    pageToken = data.nextPageToken;
+  } while (pageToken && !truncated);
+
+  return { title, videos, truncated };
+}
+
+async function expandWithFeed(ref: CollectionRef, maxVideos: number, fetchFn: typeof fetch): Promise<ExpandedCollection> {
+  const feedParam =
+    ref.kind === 'playlist'
+      ? `playlist_id=${encodeURIComponent(ref.playlistId)}`
+      : `channel_id=${encodeURIComponent(ref.channelId ?? (await scrapeChannelId(ref, fetchFn)))}`;
+
+  const response = await fetchFn(`https://www.youtube.com/feeds/videos.xml?${feedParam}`);
+  if (!response.ok) {
+    throw new Error(ref.kind === 'playlist' ? 'Playlist not found or private' : 'Channel not found');
+  }
+
+  const xml = await response.text();
+  const title = decodeXml(xml.match(/<title>([^<]*)<\/title>/)?.[1] ?? 'YouTube playlist');
+  const entries = [...xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g)].map(([, entry]) => ({
+    id: entry.match(/<yt:videoId>([^<]+)<\/yt:videoId>/)?.[1] ?? '',
+    title: decodeXml(entry.match(/<title>([^<]*)<\/title>/)?.[1] ?? '') || null,
+  }));
+  const videos = entries.filter((entry) => entry.id);
+
+  // Feeds list at most 15 entries, so a full feed probably means there are more
+  return { title, videos: videos.slice(0, maxVideos), truncated: videos.length >= 15 || videos.length > maxVideos };
+}
+
+// Channel pages embed their canonical channel ID
+async function scrapeChannelId(ref: CollectionRef, fetchFn: typeof fetch): Promise<string> {
+  if (ref.kind !== 'channel') throw new Error('Not a channel');
+
+  const path = ref.handle ? ref.handle : ref.username ? `user/${ref.username}` : `c/${ref.customUrl}`;
+  const response = await fetchFn(`https://www.youtube.com/${path}`, {
+    headers: { 'Accept-Language': 'en-US,en;q=0.9' },
+  });
+
+  if (response.ok) {
+    const html = await response.text();
+    const channelId =
+      html.match(/"externalId":"(UC[\w-]{22})"/)?.[1] ??
+      html.match(/<meta itemprop="(?:identifier|channelId)" content="(UC[\w-]{22})">/)?.[1];
+    if (channelId) return channelId;
+  }
+
+  throw new Error('Channel not found');
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
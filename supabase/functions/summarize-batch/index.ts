@@ -0,0 +1,318 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createChatCompletion, resolveModelTargets } from '../_shared/ai.ts';
+import { hasWorkspaceRole, resolveCallerId } from '../_shared/auth.ts';
+import { corsHeadersFor, isOriginAllowed, loadAllowedOrigins } from '../_shared/cors.ts';
+import { classifyError, errorResponse } from '../_shared/errors.ts';
+import { invokeInternal, isServiceRoleRequest } from '../_shared/internal.ts';
+import {
+  clientIp,
+  DAY_SECONDS,
+  hitRateLimit,
+  loadRateLimitConfig,
+  loadWorkspacePlan,
+  rateLimitedResponse,
+  takeRateLimit,
+} from '../_shared/rateLimit.ts';
+import { renderSummaryMarkdown, type StructuredSummary } from '../_shared/schema.ts';
+import { DEFAULT_STYLE, getSummaryStyle, SUMMARY_STYLES } from '../_shared/styles.ts';
+import {
+  assertWithinBudget,
+  budgetExceededMessage,
+  createUsageRecorder,
+  isOverBudget,
+  loadWorkspaceBudget,
+} from '../_shared/usage.ts';
+import { expandCollection, parseCollectionUrl } from './expand.ts';
+import { summarizeSeries } from './series.ts';
+
+interface BatchRow {
+  id: string;
+  user_id: string;
+  workspace_id: string | null;
+  title: string;
+  style: string;
+  requested_model: string | null;
+}
+
+serve(async (req) => {
+  const allowedOrigins = loadAllowedOrigins();
+  const cors = corsHeadersFor(req, allowedOrigins);
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...cors, 'Content-Type': 'application/json' },
+    });
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: cors });
+  }
+
+  if (!isOriginAllowed(req, allowedOrigins)) {
+    return errorResponse('origin_not_allowed', 'Origin not allowed', cors);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return errorResponse('invalid_request', 'Invalid request. body: expected a JSON object', cors);
+    }
+
+    // The job worker calls back once every video of a batch is done
+    if (body.action === 'finalize') {
+      if (!isServiceRoleRequest(req)) return errorResponse('forbidden', 'Forbidden', cors);
+
+      const { data: batch, error } = await supabase
+        .from('summary_batches')
+        .select('id, user_id, workspace_id, title, style, requested_model')
+        .eq('id', body.batchId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!batch) return errorResponse('not_found', 'Batch not found', cors);
+
+      EdgeRuntime.waitUntil(finalizeBatch(supabase, batch));
+      return jsonResponse({ batchId: batch.id }, 202);
+    }
+
+    // A playlist queues many summaries at once, so it passes the same limits
+    // as summarize-video and each of its videos counts towards the daily quota
+    const limits = loadRateLimitConfig();
+
+    const ipLimit = await hitRateLimit(supabase, { bucket: `ip:${clientIp(req)}`, ...limits.perIp });
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse('Too many requests from your network.', ipLimit.retryAfterSeconds, cors);
+    }
+
+    const callerId = await resolveCallerId(supabase, req);
+
+    if (!callerId) {
+      return errorResponse('unauthenticated', 'Sign in to summarize playlists', cors);
+    }
+
+    const userLimit = await hitRateLimit(supabase, { bucket: `user:${callerId}`, ...limits.perUser });
+    if (!userLimit.allowed) {
+      return rateLimitedResponse('You are sending requests too quickly.', userLimit.retryAfterSeconds, cors);
+    }
+
+    const { url, workspaceId, style: requestedStyle, model } = body;
+
+    if (typeof workspaceId !== 'string' || !workspaceId) {
+      return errorResponse('invalid_request', 'Invalid request. workspaceId: required', cors);
+    }
+
+    if (!(await hasWorkspaceRole(supabase, workspaceId, callerId, 'editor'))) {
+      return errorResponse('forbidden', 'You need editor access to add summaries to this workspace', cors);
+    }
+
+    const budget = await loadWorkspaceBudget(supabase, workspaceId);
+    if (isOverBudget(budget)) {
+      return errorResponse('budget_exceeded', budgetExceededMessage(budget.budgetUsd!), cors);
+    }
+
+    const ref = typeof url === 'string' ? parseCollectionUrl(url) : null;
+
+    if (!ref) {
+      return errorResponse('unsupported_source', 'Use a YouTube playlist URL or channel URL', cors);
+    }
+
+    const style = getSummaryStyle(requestedStyle);
+    if (!style) {
+      return errorResponse('unknown_style', `Unknown summary style: ${requestedStyle}`, cors);
+    }
+
+    if (model !== undefined && (typeof model !== 'string' || !resolveModelTargets(model))) {
+      return errorResponse('model_unavailable', `Model not available: ${model}`, cors);
+    }
+
+    const maxVideos = Number(Deno.env.get('BATCH_MAX_VIDEOS')) || 100;
+
+    let collection;
+    try {
+      collection = await expandCollection(ref, maxVideos);
+    } catch (error) {
+      console.error('Failed to expand collection:', error);
+      return errorResponse('not_found', error instanceof Error ? error.message : 'Could not list the videos', cors);
+    }
+
+    if (collection.videos.length === 0) {
+      return errorResponse('not_found', 'No videos found at that URL', cors);
+    }
+
+    // Queue as many videos as the workspace has left of today's quota
+    const plan = await loadWorkspacePlan(supabase, workspaceId);
+    const dailyQuota = limits.dailyQuotas[plan];
+    const quota = await takeRateLimit(
+      supabase,
+      { bucket: `quota:workspace:${workspaceId}`, windowSeconds: DAY_SECONDS, maxHits: dailyQuota },
+      collection.videos.length
+    );
+    if (quota.granted === 0) {
+      return rateLimitedResponse(
+        `This workspace has reached its daily limit of ${dailyQuota} summaries on the ${plan} plan. The limit resets at midnight UTC.`,
+        quota.retryAfterSeconds,
+        cors,
+        'quota_exceeded'
+      );
+    }
+
+    const videos = collection.videos.slice(0, quota.granted);
+    const truncated = collection.truncated || videos.length < collection.videos.length;
+
+    console.log('Expanded', ref.kind, collection.title, 'videos:', videos.length, 'truncated:', truncated);
+
+    const { data: batch, error: batchError } = await supabase
+      .from('summary_batches')
+      .insert({
+        user_id: callerId,
+        workspace_id: workspaceId,
+        source_url: url,
+        kind: ref.kind,
+        title: collection.title,
+        style: style.id,
+        truncated,
+        requested_model: model ?? null,
+      })
+      .select('id, user_id, workspace_id, title, style, requested_model')
+      .single();
+
+    if (batchError) throw batchError;
+
+    const { data: items, error: itemsError } = await supabase
+      .from('summary_batch_items')
+      .insert(
+        videos.map((video, position) => ({
+          batch_id: batch.id,
+          position,
+          video_id: video.id,
+          video_url: `https://www.youtube.com/watch?v=${video.id}`,
+          video_title: video.title,
+        }))
+      )
+      .select('id, video_url');
+
+    if (itemsError) throw itemsError;
+
+    // Each video is an ordinary summarize job; the worker reports back per item
+    const { error: jobsError } = await supabase.from('jobs').insert(
+      items.map((item) => ({
+        user_id: callerId,
+        kind: 'summarize_video',
+        batch_item_id: item.id,
+        payload: {
+          workspaceId,
+          videoUrl: item.video_url,
+          preferredLanguages: [],
+          style: style.id,
+          force: false,
+          ...(model ? { model } : {}),
+        },
+      }))
+    );
+
+    if (jobsError) throw jobsError;
+
+    EdgeRuntime.waitUntil(invokeInternal('summarize-video', { action: 'work' }));
+
+    return jsonResponse({
+      batchId: batch.id,
+      title: collection.title,
+      total: videos.length,
+      truncated,
+    });
+  } catch (error) {
+    console.error('Error in summarize-batch function:', error);
+    const failure = classifyError(error);
+    return errorResponse(failure.code, failure.message, cors);
+  }
+});
+
+// Once every video is done, rolls their summaries up into the series summary
+async function finalizeBatch(supabase: SupabaseClient, batch: BatchRow) {
+  const { data: claimed } = await supabase
+    .from('summary_batches')
+    .update({ status: 'summarizing', updated_at: new Date().toISOString() })
+    .eq('id', batch.id)
+    .eq('status', 'running')
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) return;
+
+  try {
+    const { data: items, error } = await supabase
+      .from('summary_batch_items')
+      .select('position, video_title, summaries(video_title, structured_summary)')
+      .eq('batch_id', batch.id)
+      .eq('status', 'succeeded')
+      .order('position');
+
+    if (error) throw error;
+
+    const episodes = (items ?? []).flatMap((item) => {
+      const summary = item.summaries as unknown as {
+        video_title: string | null;
+        structured_summary: StructuredSummary | null;
+      } | null;
+      if (!summary?.structured_summary) return [];
+      return [{
+        position: item.position,
+        title: summary.video_title ?? item.video_title ?? 'Untitled Video',
+        summary: summary.structured_summary,
+      }];
+    });
+
+    if (episodes.length === 0) {
+      throw new Error('None of the videos could be summarized');
+    }
+
+    if (batch.workspace_id) await assertWithinBudget(supabase, batch.workspace_id);
+
+    const style = getSummaryStyle(batch.style) ?? SUMMARY_STYLES[DEFAULT_STYLE];
+    const usage = createUsageRecorder();
+    const structured = await summarizeSeries(
+      batch.title,
+      episodes,
+      style,
+      createChatCompletion({ model: batch.requested_model ?? undefined, onCompletion: usage.record })
+    ).finally(async () => {
+      if (batch.workspace_id) {
+        await usage.save(supabase, {
+          workspaceId: batch.workspace_id,
+          userId: batch.user_id,
+          summaryId: null,
+          feature: 'series',
+        });
+      }
+    });
+
+    await supabase
+      .from('summary_batches')
+      .update({
+        status: 'succeeded',
+        series_summary: renderSummaryMarkdown(structured),
+        structured_series_summary: structured,
+        error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', batch.id);
+
+    console.log('Batch', batch.id, 'series summary saved from', episodes.length, 'videos');
+  } catch (error) {
+    console.error('Failed to summarize series:', batch.id, error);
+    await supabase
+      .from('summary_batches')
+      .update({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to summarize series',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', batch.id);
+  }
+}
@@ -0,0 +1,60 @@
+import type { ChatCompletionFn } from '../_shared/ai.ts';
+import { completeStructured, STRUCTURED_OUTPUT_INSTRUCTIONS, type StructuredSummary } from '../_shared/schema.ts';
+import type { SummaryStyle } from '../_shared/styles.ts';
+import { estimateTokens } from '../_shared/transcript.ts';
+
+export interface SeriesEpisode {
+  position: number;
+  title: string;
+  summary: StructuredSummary;
+}
+
+// Above this, episodes are described by their TL;DR alone to keep one prompt
+const SERIES_PROMPT_TOKENS = 24000;
+
+const SYSTEM_PROMPT =
+  'You are a helpful assistant that creates clear, concise summaries of video series such as courses and channels.';
+
+function describeEpisode(episode: SeriesEpisode, brief: boolean): string {
+  const header = `Video ${episode.position + 1}: ${episode.title}\nTL;DR: ${episode.summary.tldr}`;
+  if (brief) return header;
+  return `${header}\nKey points:\n${episode.summary.key_points.map((point) => `- ${point.text}`).join('\n')}`;
+}
+
+// Rolls the summaries of every video in a playlist or channel up into one
+// summary of the whole series, in the same structured format.
+export async function summarizeSeries(
+  seriesTitle: string,
+  episodes: SeriesEpisode[],
+  style: SummaryStyle,
+  complete: ChatCompletionFn
+): Promise<StructuredSummary> {
+  const ordered = [...episodes].sort((a, b) => a.position - b.position);
+  let outline = ordered.map((episode) => describeEpisode(episode, false)).join('\n\n');
+  if (estimateTokens(outline) > SERIES_PROMPT_TOKENS) {
+    outline = ordered.map((episode) => describeEpisode(episode, true)).join('\n\n');
+  }
+
+  return completeStructured(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Below are summaries of the videos in one series, in order.
+Write one summary of the whole series: what it covers, how the topics build on each other, and what a viewer comes away with.
+In key points, name the video a point comes from (e.g. "Video 3: ...") and set every timestamp to null.
+
+Write the content of each field in this style:
+${style.instructions}
+
+${STRUCTURED_OUTPUT_INSTRUCTIONS}
+
+Series Title: ${seriesTitle}
+
+${outline}`,
+      },
+    ],
+    complete,
+    { temperature: 0.5, maxTokens: style.maxTokens }
+  );
+}
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { invokeInternal } from '../_shared/internal.ts';
+import type { JobRow, SettledJob, WorkerHooks } from './jobs.ts';
+
+// Mirrors the state of jobs that belong to a playlist or channel batch onto
+// their batch item, and asks summarize-batch for the series summary once the
+// last video of the batch is done.
+export function createBatchHooks(supabase: SupabaseClient): WorkerHooks {
+  return {
+    onClaimed: async (job: JobRow) => {
+      if (!job.batch_item_id) return;
+      await supabase
+        .from('summary_batch_items')
+        .update({ status: 'running', updated_at: new Date().toISOString() })
+        .eq('id', job.batch_item_id);
+    },
+
+    onSettled: async (job: JobRow, settled: SettledJob) => {
+      if (!job.batch_item_id) return;
+
+      const { data: item, error } = await supabase
+        .from('summary_batch_items')
+        .update({
+          status: settled.status,
+          ...(settled.result ? { summary_id: settled.result.id, video_title: settled.result.videoTitle } : {}),
+          error: settled.status === 'succeeded' ? null : settled.error,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', job.batch_item_id)
+        .select('batch_id')
+        .single();
+
+      if (error) {
+        console.error('Failed to update batch item:', job.batch_item_id, error);
+        return;
+      }
+
+      if (settled.status === 'queued') return;
+
+      const { count: remaining } = await supabase
+        .from('summary_batch_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('batch_id', item.batch_id)
+        .in('status', ['queued', 'running']);
+
+      if (remaining === 0) {
+        console.log('Batch complete, requesting series summary:', item.batch_id);
+        await invokeInternal('summarize-batch', { action: 'finalize', batchId: item.batch_id });
+      }
+    },
+  };
+}
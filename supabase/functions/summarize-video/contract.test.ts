@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ENDPOINTS,
+  ERROR_CODES,
+  ERROR_STATUS,
+  errorBodySchema,
+  listTracksResponseSchema,
+  summarizeVideoAcceptedSchema,
+  type ErrorCode,
+} from '../_shared/contract.ts';
+import { errorBody } from '../_shared/errors.ts';
+import { buildOpenApiDocument } from '../_shared/openapi.ts';
+
+type Operation = { responses: Record<string, { description: string; headers?: Record<string, unknown> }> };
+
+describe('OpenAPI document', () => {
+  const document = buildOpenApiDocument('http://127.0.0.1:54321/functions/v1');
+  const paths = document.paths as unknown as Record<string, Record<string, Operation>>;
+
+  it('describes every endpoint of the contract and itself', () => {
+    expect(Object.keys(paths)).toEqual([
+      `/${ENDPOINTS.summarizeVideo}`,
+      `/${ENDPOINTS.listTracks}`,
+      `/${ENDPOINTS.summarizeVideo}/openapi.json`,
+    ]);
+    expect(paths[`/${ENDPOINTS.summarizeVideo}`].post.responses['202']).toBeDefined();
+    expect(paths[`/${ENDPOINTS.listTracks}`].post.responses['200']).toBeDefined();
+    expect(document.servers).toEqual([{ url: 'http://127.0.0.1:54321/functions/v1' }]);
+  });
+
+  it.each(ERROR_CODES)('lists %s under its status on every POST operation', (code) => {
+    for (const path of [`/${ENDPOINTS.summarizeVideo}`, `/${ENDPOINTS.listTracks}`]) {
+      const response = paths[path].post.responses[String(ERROR_STATUS[code])];
+      expect(response.description).toMatch(new RegExp(`\\b${code}\\b`));
+      if (ERROR_STATUS[code] === 429) expect(response.headers).toHaveProperty('Retry-After');
+    }
+  });
+
+  it('generates component schemas for every request and response', () => {
+    expect(Object.keys(document.components.schemas)).toEqual([
+      'SummarizeVideoRequest',
+      'SummarizeVideoAccepted',
+      'SummarizeResult',
+      'ListTracksRequest',
+      'ListTracksResponse',
+      'Error',
+    ]);
+    expect(document.components.schemas.SummarizeVideoRequest).toMatchObject({ required: ['workspaceId'] });
+  });
+});
+
+describe('error bodies', () => {
+  it.each(ERROR_CODES)('sends %s with its remediation', (code) => {
+    const body = errorBodySchema.parse(errorBody(code, 'Something happened', code === 'rate_limited' ? 30 : null));
+    expect(body.code).toBe(code);
+    expect(body.remediation).toBeTruthy();
+    expect(body.retryAfterSeconds).toBe(code === 'rate_limited' ? 30 : undefined);
+  });
+});
+
+// Runs against a function runner when CONTRACT_TEST_URL points at one, e.g.
+// http://127.0.0.1:54321/functions/v1 from `supabase start` plus
+// `supabase functions serve`. CONTRACT_TEST_ANON_KEY gets requests past the
+// gateway, and CONTRACT_TEST_ACCESS_TOKEN is the session of a user who can
+// edit the workspace CONTRACT_TEST_WORKSPACE_ID.
+const env = process.env;
+const baseUrl = env.CONTRACT_TEST_URL;
+
+describe.skipIf(!baseUrl)('served function', () => {
+  const workspaceId = env.CONTRACT_TEST_WORKSPACE_ID ?? '';
+  const videoUrl = env.CONTRACT_TEST_VIDEO_URL ?? 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+  const call = (path: string, { body, token, origin }: { body?: unknown; token?: string; origin?: string } = {}) =>
+    fetch(`${baseUrl}/${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        Authorization: `Bearer ${token ?? env.CONTRACT_TEST_ANON_KEY ?? ''}`,
+        'Content-Type': 'application/json',
+        ...(origin ? { Origin: origin } : {}),
+      },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    });
+
+  const asUser = (path: string, body: unknown) => call(path, { body, token: env.CONTRACT_TEST_ACCESS_TOKEN });
+
+  async function expectError(response: Response, code: ErrorCode) {
+    const body = errorBodySchema.parse(await response.json());
+    expect(body.code).toBe(code);
+    expect(response.status).toBe(ERROR_STATUS[code]);
+  }
+
+  it('serves the OpenAPI document', async () => {
+    const response = await call(`${ENDPOINTS.summarizeVideo}/openapi.json`);
+    expect(response.status).toBe(200);
+
+    const { paths, components } = await response.json();
+    const expected = JSON.parse(JSON.stringify(buildOpenApiDocument()));
+    expect({ paths, components }).toEqual({ paths: expected.paths, components: expected.components });
+  });
+
+  it('queues a summary and answers with its job', async () => {
+    const response = await asUser(ENDPOINTS.summarizeVideo, { workspaceId, videoUrl });
+    expect(response.status).toBe(202);
+    summarizeVideoAcceptedSchema.parse(await response.json());
+  });
+
+  it('lists the caption tracks of a video', async () => {
+    const response = await asUser(ENDPOINTS.listTracks, { workspaceId, videoUrl });
+    expect(response.status).toBe(200);
+    listTracksResponseSchema.parse(await response.json());
+  });
+
+  // The codes a request can be answered with and a request that causes each.
+  // Limits and budgets depend on the state of the database, and the codes
+  // about the video itself are reported by the job rather than the request.
+  const requests: [ErrorCode, () => Promise<Response>][] = [
+    ['unsupported_version', () => asUser('summarize-video/v0', { workspaceId, videoUrl })],
+    ['not_found', () => asUser(`${ENDPOINTS.summarizeVideo}/nothing`, { workspaceId, videoUrl })],
+    ['invalid_request', () => asUser(ENDPOINTS.summarizeVideo, { workspaceId: 'not-a-uuid', videoUrl })],
+    ['unauthenticated', () => call(ENDPOINTS.summarizeVideo, { body: { workspaceId, videoUrl } })],
+    [
+      'forbidden',
+      () => asUser(ENDPOINTS.summarizeVideo, { workspaceId: '00000000-0000-4000-8000-000000000000', videoUrl }),
+    ],
+    ['unknown_style', () => asUser(ENDPOINTS.summarizeVideo, { workspaceId, videoUrl, style: 'constructor' })],
+    ['model_unavailable', () => asUser(ENDPOINTS.summarizeVideo, { workspaceId, videoUrl, model: 'nobody:nothing' })],
+    ['invalid_url', () => asUser(ENDPOINTS.summarizeVideo, { workspaceId, videoUrl: 'not a link' })],
+    [
+      'unsupported_source',
+      () => asUser(ENDPOINTS.summarizeVideo, { workspaceId, videoUrl: 'https://example.com/talk.html' }),
+    ],
+  ];
+
+  it.each(requests)('answers with %s', async (code, request) => {
+    await expectError(await request(), code);
+  });
+
+  // Only enforced when the runner sets ALLOWED_ORIGINS
+  it.skipIf(!env.CONTRACT_TEST_BLOCKED_ORIGIN)('answers with origin_not_allowed', async () => {
+    const response = await call(ENDPOINTS.summarizeVideo, {
+      body: { workspaceId, videoUrl },
+      origin: env.CONTRACT_TEST_BLOCKED_ORIGIN,
+    });
+    await expectError(response, 'origin_not_allowed');
+  });
+});
@@ -0,0 +1,11 @@
+export type SummarizeStage = 'resolving' | 'fetching_captions' | 'summarizing' | 'reducing' | 'saving' | 'done';
+
+export type SummarizeEvent =
+  | { type: 'stage'; stage: SummarizeStage; progress: number; message: string }
+  // A slice of the final summary as the model writes it
+  | { type: 'token'; delta: string }
+  // The streamed text so far was discarded (e.g. it failed validation)
+  | { type: 'reset' };
+
+// Progress is written to the job row so clients can follow it by polling
+export type EmitFn = (event: SummarizeEvent) => void;
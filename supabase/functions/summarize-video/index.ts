@@ -1,271 +1,348 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { z } from 'https://esm.sh/zod@3.25.76/v4';
+import { hasWorkspaceRole, resolveCallerId } from '../_shared/auth.ts';
+import { resolveModelTargets } from '../_shared/ai.ts';
+import {
+  API_VERSION,
+  listTracksRequestSchema,
+  summarizeVideoRequestSchema,
+  type ListTracksResponse,
+  type SummarizeVideoAccepted,
+} from '../_shared/contract.ts';
+import { corsHeadersFor, isOriginAllowed, loadAllowedOrigins } from '../_shared/cors.ts';
+import { classifyError, errorResponse } from '../_shared/errors.ts';
+import { invokeInternal, isServiceRoleRequest } from '../_shared/internal.ts';
+import { createEmbeddingProvider } from '../_shared/embeddings.ts';
+import { buildOpenApiDocument } from '../_shared/openapi.ts';
+import {
+  clientIp,
+  DAY_SECONDS,
+  hitRateLimit,
+  loadRateLimitConfig,
+  loadWorkspacePlan,
+  rateLimitedResponse,
+  type RateLimitConfig,
+} from '../_shared/rateLimit.ts';
+import { getSummaryStyle } from '../_shared/styles.ts';
+import { budgetExceededMessage, isOverBudget, loadWorkspaceBudget } from '../_shared/usage.ts';
+import { createBatchHooks } from './batches.ts';
+import { reindexSummaries } from './indexing.ts';
+import { runWorker, type SummarizeJobPayload } from './jobs.ts';
+import {
+  createSourceProviders,
+  resolveSource,
+  resolveSummarySource,
+  type SummarySourceRow,
+} from './providers/index.ts';
 
 serve(async (req) => {
+  const allowedOrigins = loadAllowedOrigins();
+  const cors = corsHeadersFor(req, allowedOrigins);
+
   if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+    return new Response(null, { headers: cors });
+  }
+
+  if (!isOriginAllowed(req, allowedOrigins)) {
+    return errorResponse('origin_not_allowed', 'Origin not allowed', cors);
+  }
+
+  // Paths are /summarize-video[/<version>[/<resource>]]; unversioned calls get the current version
+  const [version = API_VERSION, resource] = routeOf(req);
+  if (version !== API_VERSION) {
+    return errorResponse('unsupported_version', `Unknown API version: ${version}`, cors);
+  }
+  if (resource === 'openapi.json' && req.method === 'GET') {
+    const functionsUrl = `${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1`;
+    return new Response(
+      JSON.stringify(buildOpenApiDocument(functionsUrl)),
+      { status: 200, headers: { ...cors, 'Content-Type': 'application/json' } }
+    );
+  }
+  if (resource !== undefined && !(resource === 'tracks' && req.method === 'POST')) {
+    return errorResponse('not_found', `Unknown endpoint: ${resource}`, cors);
   }
 
   try {
-    const { videoUrl } = await req.json();
-    
-    if (!videoUrl) {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json().catch(() => null);
+
+    // The scheduler and finished workers call in to process the queue
+    if (body?.action === 'work') {
+      if (!isServiceRoleRequest(req)) {
+        return errorResponse('forbidden', 'Forbidden', cors);
+      }
+
+      EdgeRuntime.waitUntil(work(supabase));
       return new Response(
-        JSON.stringify({ error: 'Video URL is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ ok: true }),
+        { status: 202, headers: { ...cors, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log('Processing video:', videoUrl);
+    // The scheduler calls in when summaries need (re-)indexing for search
+    if (body?.action === 'reindex') {
+      if (!isServiceRoleRequest(req)) {
+        return errorResponse('forbidden', 'Forbidden', cors);
+      }
 
-    // Extract video ID from YouTube URL
-    const videoId = extractVideoId(videoUrl);
-    if (!videoId) {
+      EdgeRuntime.waitUntil(reindex(supabase));
       return new Response(
-        JSON.stringify({ error: 'Invalid YouTube URL' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ ok: true }),
+        { status: 202, headers: { ...cors, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log('Extracted video ID:', videoId);
+    const limits = loadRateLimitConfig();
 
-    // Fetch transcript if available
-    const transcript = await fetchTranscript(videoId);
+    // Track lookups follow the URL field as people type, so they are counted
+    // apart from summaries and cannot use up the caller's summarize limits
+    if (resource === 'tracks') {
+      return await listTracks(supabase, req, body, limits, cors);
+    }
 
-    // Get video title (works even if transcript is missing)
-    const videoTitle = await fetchVideoTitle(videoId);
-    console.log('Video title:', videoTitle);
+    const ipLimit = await hitRateLimit(supabase, { bucket: `ip:${clientIp(req)}`, ...limits.perIp });
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse('Too many requests from your network.', ipLimit.retryAfterSeconds, cors);
+    }
 
-    let summary: string;
+    const parsed = summarizeVideoRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse('invalid_request', `Invalid request. ${describeIssues(parsed.error)}`, cors);
+    }
 
-    if (!transcript) {
-      console.log('No transcript available, using fallback instructions for DeepSeek');
-      const fallbackTranscript = `TRANSCRIPT NOT AVAILABLE.
+    const {
+      workspaceId,
+      videoUrl,
+      subtitlePath,
+      preferredLanguages,
+      style: requestedStyle,
+      force,
+      summaryId,
+      model,
+    } = parsed.data;
 
-The captions for this YouTube video could not be fetched. You do NOT know the exact content of the video.
+    const callerId = await resolveCallerId(supabase, req);
+    if (!callerId) {
+      return errorResponse('unauthenticated', 'Sign in to summarize videos', cors);
+    }
 
-Based ONLY on the title and URL, do the following:
-1. Clearly tell the user that the transcript is not available.
-2. Explain what this likely means (no subtitles or restricted video).
-3. If the title suggests a topic, give a very high-level, generic description of what such a video might cover.
-4. Warn the user that this is just a guess.
+    const userLimit = await hitRateLimit(supabase, { bucket: `user:${callerId}`, ...limits.perUser });
+    if (!userLimit.allowed) {
+      return rateLimitedResponse('You are sending requests too quickly.', userLimit.retryAfterSeconds, cors);
+    }
 
-Video URL: ${videoUrl}`;
-      summary = await summarizeWithAI(fallbackTranscript, videoTitle);
-    } else {
-      console.log('Transcript fetched, length:', transcript.length);
+    if (!(await hasWorkspaceRole(supabase, workspaceId, callerId, 'editor'))) {
+      return errorResponse('forbidden', 'You need editor access to add summaries to this workspace', cors);
+    }
 
-      // Summarize using DeepSeek API
-      summary = await summarizeWithAI(transcript, videoTitle);
-      console.log('Summary generated, length:', summary.length);
+    const budget = await loadWorkspaceBudget(supabase, workspaceId);
+    if (isOverBudget(budget)) {
+      return errorResponse('budget_exceeded', budgetExceededMessage(budget.budgetUsd!), cors);
     }
 
-    // Save to database
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+    const style = getSummaryStyle(requestedStyle);
+    if (!style) {
+      return errorResponse('unknown_style', `Unknown summary style: ${requestedStyle}`, cors);
+    }
 
-    const { data, error } = await supabase
-      .from('summaries')
-      .insert({
-        video_url: videoUrl,
-        video_title: videoTitle,
-        summary: summary,
-      })
-      .select()
-      .single();
+    // A named model must be one the deployment offers
+    if (model !== undefined && !resolveModelTargets(model)) {
+      return errorResponse('model_unavailable', `Model not available: ${model}`, cors);
+    }
+
+    // Regenerating rewrites an existing summary, which must belong to the
+    // workspace, from the source it was made from
+    let existing: SummarySourceRow | null = null;
+    if (summaryId) {
+      const { data, error: existingError } = await supabase
+        .from('summaries')
+        .select('source, video_id, video_url')
+        .eq('id', summaryId)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (!data) {
+        return errorResponse('not_found', 'Summary not found', cors);
+      }
+      existing = data;
+    }
+
+    console.log('Enqueueing source:', existing?.video_url ?? subtitlePath ?? videoUrl, 'style:', style.id);
+
+    // Work out which provider handles the input (YouTube, Vimeo, subtitle file...)
+    const providers = createSourceProviders(supabase);
+    const resolved = existing
+      ? resolveSummarySource(providers, existing, callerId)
+      : resolveSource(providers, { userId: callerId, videoUrl, subtitlePath });
+    if (!resolved && videoUrl && !looksLikeUrl(videoUrl)) {
+      return errorResponse('invalid_url', `Not a valid link: ${videoUrl}`, cors);
+    }
+    if (!resolved) {
+      return errorResponse(
+        'unsupported_source',
+        'Unsupported source. Use a YouTube or Vimeo URL, a link to a .vtt or .srt file, or upload a subtitle file.',
+        cors
+      );
+    }
 
-    if (error) {
-      console.error('Database error:', error);
-      throw error;
+    console.log('Resolved source:', resolved.source.kind, resolved.source.id);
+
+    // Only requests that would start work count towards the daily quota, whose
+    // window is aligned to the epoch and so resets at midnight UTC. The job
+    // gives the unit back if it finds the summary in the cache.
+    const plan = await loadWorkspacePlan(supabase, workspaceId);
+    const dailyQuota = limits.dailyQuotas[plan];
+    const quota = await hitRateLimit(supabase, {
+      bucket: `quota:workspace:${workspaceId}`,
+      windowSeconds: DAY_SECONDS,
+      maxHits: dailyQuota,
+    });
+    if (!quota.allowed) {
+      return rateLimitedResponse(
+        `This workspace has reached its daily limit of ${dailyQuota} summaries on the ${plan} plan. The limit resets at midnight UTC.`,
+        quota.retryAfterSeconds,
+        cors,
+        'quota_exceeded'
+      );
     }
 
-    console.log('Summary saved to database');
+    const payload: SummarizeJobPayload = {
+      workspaceId,
+      ...(subtitlePath ? { subtitlePath } : { videoUrl }),
+      preferredLanguages,
+      style: style.id,
+      force,
+      ...(summaryId ? { summaryId } : {}),
+      ...(model ? { model } : {}),
+    };
+
+    // The work happens in a job so a slow caption fetch or gateway call can be
+    // retried, and the client can leave and come back for the result
+    const { data: job, error: jobError } = await supabase
+      .from('jobs')
+      .insert({ user_id: callerId, kind: 'summarize_video', payload })
+      .select('id')
+      .single();
+
+    if (jobError) throw jobError;
+
+    console.log('Job enqueued:', job.id);
+    EdgeRuntime.waitUntil(work(supabase));
 
+    const accepted: SummarizeVideoAccepted = { jobId: job.id };
     return new Response(
-      JSON.stringify({ 
-        summary,
-        videoTitle,
-        id: data.id,
-        created_at: data.created_at
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      JSON.stringify(accepted),
+      { status: 202, headers: { ...cors, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error in summarize-video function:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Failed to process video';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    const failure = classifyError(error);
+    return errorResponse(failure.code, failure.message, cors);
   }
 });
 
-function extractVideoId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /^([a-zA-Z0-9_-]{11})$/
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
+// Lists a video's caption tracks so the caller can pick a language before
+// queueing a summary. Nothing is summarized, so the daily quota is left alone.
+async function listTracks(
+  supabase: SupabaseClient,
+  req: Request,
+  body: unknown,
+  limits: RateLimitConfig,
+  cors: Record<string, string>
+): Promise<Response> {
+  const ipLimit = await hitRateLimit(supabase, { bucket: `tracks:ip:${clientIp(req)}`, ...limits.tracksPerIp });
+  if (!ipLimit.allowed) {
+    return rateLimitedResponse('Too many requests from your network.', ipLimit.retryAfterSeconds, cors);
   }
-  
-  return null;
+
+  const parsed = listTracksRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse('invalid_request', `Invalid request. ${describeIssues(parsed.error)}`, cors);
+  }
+
+  const { workspaceId, videoUrl } = parsed.data;
+
+  const callerId = await resolveCallerId(supabase, req);
+  if (!callerId) {
+    return errorResponse('unauthenticated', 'Sign in to summarize videos', cors);
+  }
+
+  const userLimit = await hitRateLimit(supabase, { bucket: `tracks:user:${callerId}`, ...limits.tracksPerUser });
+  if (!userLimit.allowed) {
+    return rateLimitedResponse('You are looking up caption tracks too quickly.', userLimit.retryAfterSeconds, cors);
+  }
+
+  if (!(await hasWorkspaceRole(supabase, workspaceId, callerId, 'editor'))) {
+    return errorResponse('forbidden', 'You need editor access to add summaries to this workspace', cors);
+  }
+
+  const resolved = resolveSource(createSourceProviders(supabase), { userId: callerId, videoUrl });
+  if (!resolved) {
+    return errorResponse(
+      looksLikeUrl(videoUrl) ? 'unsupported_source' : 'invalid_url',
+      `Unsupported source: ${videoUrl}`,
+      cors
+    );
+  }
+
+  const tracks = await resolved.provider.listTracks(resolved.source);
+  const response: ListTracksResponse = {
+    tracks: tracks.map(({ languageCode, name, kind }) => ({ languageCode, name, kind })),
+  };
+  return new Response(
+    JSON.stringify(response),
+    { status: 200, headers: { ...cors, 'Content-Type': 'application/json' } }
+  );
 }
 
-async function fetchTranscript(videoId: string): Promise<string | null> {
+// "path: message" for each problem zod found in a request body
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+}
+
+// Bare YouTube video ids are accepted alongside full URLs
+function looksLikeUrl(value: string): boolean {
+  if (/^[a-zA-Z0-9_-]{11}$/.test(value.trim())) return true;
   try {
-    // Fetch the YouTube video page to extract caption data
-    const pageResponse = await fetch(`https://www.youtube.com/watch?v=${videoId}`);
-    
-    if (!pageResponse.ok) {
-      console.error('Failed to fetch YouTube page:', pageResponse.status);
-      return null;
-    }
-    
-    const pageHtml = await pageResponse.text();
-    
-    // Extract the player response JSON from the page
-    const playerResponseMatch = pageHtml.match(/"captions":(\{[^}]+captionTracks[^}]+\})/);
-    
-    if (!playerResponseMatch) {
-      console.error('No captions found in video page');
-      return null;
-    }
-    
-    // Parse the captions object
-    let captionsData;
-    try {
-      // Find the full captions object
-      const fullCaptionsMatch = pageHtml.match(/"captions":(\{"playerCaptionsTracklistRenderer":\{[^}]+?"captionTracks":\[[^\]]+\][^}]*\}\})/);
-      if (!fullCaptionsMatch) {
-        console.error('Could not parse captions structure');
-        return null;
-      }
-      
-      captionsData = JSON.parse(`{${fullCaptionsMatch[1]}}`);
-    } catch (e) {
-      console.error('Error parsing captions JSON:', e);
-      return null;
-    }
-    
-    const captionTracks = captionsData?.playerCaptionsTracklistRenderer?.captionTracks;
-    
-    if (!captionTracks || captionTracks.length === 0) {
-      console.error('No caption tracks available');
-      return null;
-    }
-    
-    // Get the first available caption track (usually English or auto-generated)
-    const captionUrl = captionTracks[0].baseUrl;
-    console.log('Fetching captions from:', captionUrl);
-    
-    // Fetch the actual transcript
-    const transcriptResponse = await fetch(captionUrl);
-    
-    if (!transcriptResponse.ok) {
-      console.error('Failed to fetch transcript:', transcriptResponse.status);
-      return null;
-    }
-    
-    const transcriptData = await transcriptResponse.json();
-    
-    // Extract text from the transcript events
-    if (!transcriptData.events || transcriptData.events.length === 0) {
-      console.error('No transcript events found');
-      return null;
-    }
-    
-    const fullTranscript = transcriptData.events
-      .filter((event: any) => event.segs) // Filter events with segments
-      .map((event: any) => 
-        event.segs.map((seg: any) => seg.utf8).join('')
-      )
-      .join(' ')
-      .replace(/\n/g, ' ')
-      .trim();
-    
-    return fullTranscript;
-  } catch (error) {
-    console.error('Error fetching transcript:', error);
-    return null;
+    return ['http:', 'https:'].includes(new URL(value.trim()).protocol);
+  } catch {
+    return false;
   }
 }
 
-async function fetchVideoTitle(videoId: string): Promise<string> {
+// Path segments after the function name
+function routeOf(req: Request): string[] {
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  return segments.slice(segments.indexOf('summarize-video') + 1);
+}
+
+// Works through the queue, then hands over to a fresh invocation if jobs are
+// still waiting when this one's time is up
+async function work(supabase: SupabaseClient) {
   try {
-    const response = await fetch(
-      `https://noembed.com/embed?url=https://www.youtube.com/watch?v=${videoId}`
-    );
-    
-    if (response.ok) {
-      const data = await response.json();
-      return data.title || 'Unknown Video';
-    }
+    const moreWaiting = await runWorker(supabase, createBatchHooks(supabase));
+    if (moreWaiting) await invokeInternal('summarize-video', { action: 'work' });
   } catch (error) {
-    console.error('Error fetching video title:', error);
+    console.error('Worker error:', error);
   }
-  
-  return 'Unknown Video';
 }
 
-async function summarizeWithAI(transcript: string, title: string): Promise<string> {
-  const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-  
-  if (!LOVABLE_API_KEY) {
-    throw new Error('LOVABLE_API_KEY not configured');
-  }
-
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'google/gemini-2.5-flash',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful assistant that creates clear, concise summaries of video content. Provide well-structured summaries with key points and main ideas.'
-        },
-        {
-          role: 'user',
-          content: `Please summarize the following video transcript. 
-
-Video Title: ${title}
-
-Transcript: ${transcript}
-
-Provide a comprehensive summary that includes:
-1. Main topic and purpose
-2. Key points discussed
-3. Important takeaways
-4. Any actionable insights
-
-Keep the summary clear and well-organized.`
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 1000,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('AI Gateway error:', response.status, errorText);
-    throw new Error(`AI Gateway error: ${response.status}`);
+// Re-indexes a batch of summaries for search, then hands over to a fresh
+// invocation if more are waiting
+async function reindex(supabase: SupabaseClient) {
+  try {
+    const { indexed, failed, moreWaiting } = await reindexSummaries(supabase, createEmbeddingProvider());
+    console.log('Re-indexed summaries for search:', indexed, 'failed:', failed);
+    if (moreWaiting) await invokeInternal('summarize-video', { action: 'reindex' });
+  } catch (error) {
+    console.error('Re-index error:', error);
   }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
-}
\ No newline at end of file
+}
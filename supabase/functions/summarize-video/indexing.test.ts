@@ -0,0 +1,152 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalEmbeddings, EMBEDDING_DIMENSIONS, toVectorLiteral } from '../_shared/embeddings.ts';
+import type { TranscriptSegment } from '../_shared/transcript.ts';
+import { indexSummary, reindexSummaries } from './indexing.ts';
+import { segments } from './testing.ts';
+
+interface Call {
+  table: string;
+  op: string;
+  values?: unknown;
+  filters: Record<string, unknown>;
+}
+
+interface FakeData {
+  stale?: { summary_id: string; version: number }[];
+  summaries?: Record<string, string>;
+  transcripts?: Record<string, TranscriptSegment[]>;
+  deleteError?: { message: string };
+}
+
+// Records the writes the indexer makes and answers its reads from `data`
+function fakeSupabase(data: FakeData = {}) {
+  const calls: Call[] = [];
+
+  const resolve = (call: Call) => {
+    const id = call.filters.id ?? call.filters.summary_id;
+    if (call.op === 'delete') return { data: null, error: data.deleteError ?? null };
+    if (call.op !== 'select') return { data: null, error: null };
+    if (call.table === 'summaries') {
+      const summary = data.summaries?.[id as string];
+      return summary === undefined
+        ? { data: null, error: { message: 'Summary not found' } }
+        : { data: { summary }, error: null };
+    }
+    const segments = data.transcripts?.[id as string];
+    return { data: segments ? { segments } : null, error: null };
+  };
+
+  const from = (table: string) => {
+    const call: Call = { table, op: 'select', filters: {} };
+    const builder = {
+      select: () => builder,
+      delete: () => ((call.op = 'delete'), calls.push(call), builder),
+      insert: (values: unknown) => ((call.op = 'insert'), (call.values = values), calls.push(call), builder),
+      upsert: (values: unknown) => ((call.op = 'upsert'), (call.values = values), calls.push(call), builder),
+      eq: (column: string, value: unknown) => ((call.filters[column] = value), builder),
+      single: () => builder,
+      maybeSingle: () => builder,
+      then: (onFulfilled: (result: unknown) => unknown, onRejected?: (error: unknown) => unknown) =>
+        Promise.resolve(resolve(call)).then(onFulfilled, onRejected),
+    };
+    return builder;
+  };
+
+  const rpc = vi.fn(async () => ({ data: data.stale ?? [], error: null }));
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, calls, rpc };
+}
+
+// Three segments fit in one 90 second passage
+const talk = (count: number) => segments(count, (index) => `part ${index} of the talk`);
+
+const embeddings = createLocalEmbeddings();
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('indexSummary', () => {
+  it('replaces the rows of the same model with the summary and its timed passages', async () => {
+    const { supabase, calls } = fakeSupabase();
+
+    const count = await indexSummary(supabase, embeddings, 'summary-1', 3, 'The summary', talk(7));
+
+    expect(count).toBe(4);
+    expect(calls.map(({ table, op }) => `${op} ${table}`)).toEqual([
+      'delete summary_embeddings',
+      'insert summary_embeddings',
+      'upsert summary_index_state',
+    ]);
+    expect(calls[0].filters).toEqual({ summary_id: 'summary-1', model: embeddings.model });
+
+    const rows = calls[1].values as { kind: string; start_ms: number | null; end_ms: number | null; content: string; embedding: string }[];
+    expect(rows.map(({ kind, start_ms, end_ms }) => [kind, start_ms, end_ms])).toEqual([
+      ['summary', null, null],
+      ['passage', 0, 90_000],
+      ['passage', 90_000, 180_000],
+      ['passage', 180_000, 210_000],
+    ]);
+    expect(rows[1].content).toBe('part 0 of the talk part 1 of the talk part 2 of the talk');
+    expect(rows.every((row) => row.embedding.split(',').length === EMBEDDING_DIMENSIONS)).toBe(true);
+
+    const [expected] = await embeddings.embed(['The summary']);
+    expect(rows[0]).toMatchObject({ summary_id: 'summary-1', model: embeddings.model, embedding: toVectorLiteral(expected) });
+
+    expect(calls[2].values).toMatchObject({ summary_id: 'summary-1', version: 3, model: embeddings.model, error: null });
+  });
+
+  it('indexes only the summary when there is no transcript', async () => {
+    const { supabase, calls } = fakeSupabase();
+
+    expect(await indexSummary(supabase, embeddings, 'summary-1', 1, 'The summary', null)).toBe(1);
+    expect((calls[1].values as unknown[]).length).toBe(1);
+  });
+
+  it('keeps the old rows and records nothing when they cannot be removed', async () => {
+    const { supabase, calls } = fakeSupabase({ deleteError: { message: 'permission denied' } });
+
+    await expect(indexSummary(supabase, embeddings, 'summary-1', 1, 'The summary', null)).rejects.toEqual({
+      message: 'permission denied',
+    });
+    expect(calls.map(({ op }) => op)).toEqual(['delete']);
+  });
+});
+
+describe('reindexSummaries', () => {
+  it('indexes stale summaries and records the ones that fail', async () => {
+    const { supabase, calls, rpc } = fakeSupabase({
+      stale: [
+        { summary_id: 'edited', version: 4 },
+        { summary_id: 'deleted', version: 2 },
+      ],
+      summaries: { edited: 'The edited summary' },
+      transcripts: { edited: talk(2) },
+    });
+
+    const result = await reindexSummaries(supabase, embeddings, 5);
+
+    expect(rpc).toHaveBeenCalledWith('summaries_to_index', { embedding_model: embeddings.model, max_count: 5 });
+    expect(result).toEqual({ indexed: 1, failed: 1, moreWaiting: false });
+
+    const states = calls.filter((call) => call.op === 'upsert').map((call) => call.values);
+    expect(states).toEqual([
+      expect.objectContaining({ summary_id: 'edited', version: 4, error: null }),
+      expect.objectContaining({ summary_id: 'deleted', version: 2, error: 'Indexing failed' }),
+    ]);
+  });
+
+  it('reports more waiting only after a full batch that indexed cleanly', async () => {
+    const { supabase } = fakeSupabase({
+      stale: [
+        { summary_id: 'a', version: 1 },
+        { summary_id: 'b', version: 1 },
+      ],
+      summaries: { a: 'First', b: 'Second' },
+    });
+
+    expect(await reindexSummaries(supabase, embeddings, 2)).toEqual({ indexed: 2, failed: 0, moreWaiting: true });
+    expect(await reindexSummaries(supabase, embeddings, 3)).toEqual({ indexed: 2, failed: 0, moreWaiting: false });
+  });
+});
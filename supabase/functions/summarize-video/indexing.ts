@@ -0,0 +1,121 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { toVectorLiteral, type EmbeddingProvider } from '../_shared/embeddings.ts';
+import type { TranscriptSegment } from '../_shared/transcript.ts';
+import { chunkTranscript } from './summarize.ts';
+
+// Passages are short so a search hit points at a specific moment in the video
+const PASSAGE_TOKENS = 250;
+const PASSAGE_SECONDS = 90;
+
+// Summaries re-indexed per invocation; the rest wait for the next one
+const REINDEX_BATCH_SIZE = 20;
+
+// Embeds the summary and its transcript passages for semantic search, and
+// records which version of the summary the index now holds. Re-indexing
+// replaces the rows previously written by the same model.
+export async function indexSummary(
+  supabase: SupabaseClient,
+  embeddings: EmbeddingProvider,
+  summaryId: string,
+  version: number,
+  summary: string,
+  segments: TranscriptSegment[] | null
+): Promise<number> {
+  const passages = segments
+    ? chunkTranscript(segments, { chunkTokens: PASSAGE_TOKENS, chunkSeconds: PASSAGE_SECONDS })
+    : [];
+
+  const entries = [
+    { kind: 'summary', start_ms: null, end_ms: null, content: summary },
+    ...passages.map((passage) => ({
+      kind: 'passage',
+      start_ms: passage.startMs,
+      end_ms: passage.endMs,
+      content: passage.text,
+    })),
+  ];
+
+  const vectors = await embeddings.embed(entries.map((entry) => entry.content));
+
+  const { error: deleteError } = await supabase
+    .from('summary_embeddings')
+    .delete()
+    .eq('summary_id', summaryId)
+    .eq('model', embeddings.model);
+
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase.from('summary_embeddings').insert(
+    entries.map((entry, index) => ({
+      ...entry,
+      summary_id: summaryId,
+      model: embeddings.model,
+      embedding: toVectorLiteral(vectors[index]),
+    }))
+  );
+
+  if (error) throw error;
+
+  await saveIndexState(supabase, summaryId, version, embeddings.model, null);
+  return entries.length;
+}
+
+// Indexes summaries that were edited or restored since they were last
+// indexed, that were never indexed, or that were indexed with another model.
+// Failed summaries come last, so more are only waiting behind a full batch
+// that indexed cleanly.
+export async function reindexSummaries(
+  supabase: SupabaseClient,
+  embeddings: EmbeddingProvider,
+  maxCount = REINDEX_BATCH_SIZE
+): Promise<{ indexed: number; failed: number; moreWaiting: boolean }> {
+  const { data: stale, error } = await supabase.rpc('summaries_to_index', {
+    embedding_model: embeddings.model,
+    max_count: maxCount,
+  });
+
+  if (error) throw error;
+
+  let failed = 0;
+  for (const { summary_id: summaryId, version } of (stale ?? []) as { summary_id: string; version: number }[]) {
+    try {
+      const [{ data: summary, error: summaryError }, { data: transcript, error: transcriptError }] = await Promise.all([
+        supabase.from('summaries').select('summary').eq('id', summaryId).single(),
+        supabase.from('transcripts').select('segments').eq('summary_id', summaryId).maybeSingle(),
+      ]);
+
+      if (summaryError) throw summaryError;
+      if (transcriptError) throw transcriptError;
+
+      const segments = (transcript?.segments ?? null) as TranscriptSegment[] | null;
+      await indexSummary(supabase, embeddings, summaryId, version, summary.summary, segments);
+    } catch (indexError) {
+      // Recorded so the summary is retried after the ones that have not failed
+      failed++;
+      console.error('Failed to re-index summary:', summaryId, indexError);
+      const message = indexError instanceof Error ? indexError.message : 'Indexing failed';
+      await saveIndexState(supabase, summaryId, version, embeddings.model, message);
+    }
+  }
+
+  const attempted = stale?.length ?? 0;
+  return { indexed: attempted - failed, failed, moreWaiting: attempted === maxCount && failed === 0 };
+}
+
+async function saveIndexState(
+  supabase: SupabaseClient,
+  summaryId: string,
+  version: number,
+  model: string,
+  indexError: string | null
+) {
+  const { error } = await supabase.from('summary_index_state').upsert({
+    summary_id: summaryId,
+    version,
+    model,
+    error: indexError,
+    indexed_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,287 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { ErrorCode } from '../_shared/contract.ts';
+import { classifyError, CodedError } from '../_shared/errors.ts';
+import { DAY_SECONDS, refundRateLimit } from '../_shared/rateLimit.ts';
+import { getSummaryStyle } from '../_shared/styles.ts';
+import type { EmitFn } from './events.ts';
+import { runSummarization } from './pipeline.ts';
+import { createSourceProviders, resolveSource, resolveSummarySource } from './providers/index.ts';
+
+// What the client asked for, stored on the job so any worker can run it later
+export interface SummarizeJobPayload {
+  workspaceId: string;
+  videoUrl?: string;
+  subtitlePath?: string;
+  preferredLanguages: string[];
+  style: string;
+  force: boolean;
+  summaryId?: string;
+  // "provider:model" to try before the configured provider chain
+  model?: string;
+}
+
+export interface JobRow {
+  id: string;
+  user_id: string;
+  payload: SummarizeJobPayload;
+  attempts: number;
+  max_attempts: number;
+  batch_item_id: string | null;
+  created_at: string;
+}
+
+export type JobOutcome = 'succeeded' | 'queued' | 'failed';
+
+export interface SettledJob {
+  status: JobOutcome;
+  result?: { id: string; videoTitle: string | null };
+  error: string | null;
+  errorCode: ErrorCode | null;
+}
+
+export interface WorkerHooks {
+  onClaimed?: (job: JobRow) => Promise<void>;
+  onSettled?: (job: JobRow, settled: SettledJob) => Promise<void>;
+}
+
+export interface WorkerConfig {
+  // Stop claiming new jobs after this long so the invocation can finish in time
+  claimBudgetMs: number;
+  // First retry delay; doubles with every failed attempt
+  retryBaseMs: number;
+  // A running job whose worker has been silent this long is claimed again
+  staleAfterSeconds: number;
+}
+
+// Streamed tokens are written at most this often
+const PARTIAL_FLUSH_MS = 1000;
+
+export function loadWorkerConfig(
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): WorkerConfig {
+  const numberFrom = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    claimBudgetMs: numberFrom('JOB_CLAIM_BUDGET_SECONDS', 60) * 1000,
+    retryBaseMs: numberFrom('JOB_RETRY_BASE_SECONDS', 30) * 1000,
+    staleAfterSeconds: numberFrom('JOB_STALE_AFTER_SECONDS', 900),
+  };
+}
+
+// Exponential backoff with jitter, so retries of a failing gateway spread out
+export function retryDelayMs(attempt: number, baseMs: number): number {
+  const delay = baseMs * 2 ** Math.max(0, attempt - 1);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Writes pipeline progress to the job row. Stage changes are written as they
+// happen; streamed tokens are batched. Writes are chained to keep their order.
+function createJobReporter(supabase: SupabaseClient, jobId: string) {
+  let partial = '';
+  let lastFlush = 0;
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const write = (values: Record<string, unknown>) => {
+    pending = pending
+      .then(() =>
+        supabase
+          .from('jobs')
+          .update({ ...values, locked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+          .eq('id', jobId)
+      )
+      .catch((error) => console.error('Failed to report job progress:', jobId, error));
+  };
+
+  const emit: EmitFn = (event) => {
+    switch (event.type) {
+      case 'stage':
+        write({ stage: event.stage, progress: event.progress, message: event.message, partial_output: partial || null });
+        lastFlush = Date.now();
+        break;
+      case 'token':
+        partial += event.delta;
+        if (Date.now() - lastFlush >= PARTIAL_FLUSH_MS) {
+          write({ partial_output: partial });
+          lastFlush = Date.now();
+        }
+        break;
+      case 'reset':
+        partial = '';
+        write({ partial_output: null });
+        break;
+    }
+  };
+
+  return { emit, flush: () => pending };
+}
+
+async function runJob(supabase: SupabaseClient, job: JobRow) {
+  const { payload } = job;
+  const style = getSummaryStyle(payload.style);
+  const resolved = await resolveJobSource(supabase, job);
+
+  // Validated when the job was enqueued; only a code change could get here
+  if (!style || !resolved || !payload.workspaceId) throw new Error('Job payload is no longer valid');
+
+  const reporter = createJobReporter(supabase, job.id);
+  try {
+    const result = await runSummarization(
+      supabase,
+      {
+        userId: job.user_id,
+        workspaceId: payload.workspaceId,
+        provider: resolved.provider,
+        source: resolved.source,
+        style,
+        preferredLanguages: payload.preferredLanguages ?? [],
+        force: payload.force,
+        summaryId: payload.summaryId,
+        model: payload.model,
+      },
+      reporter.emit
+    );
+
+    // The request took a unit of the daily quota when it was queued, but a
+    // summary the workspace already had costs nothing
+    if (result.cached) {
+      await refundRateLimit(
+        supabase,
+        { bucket: `quota:workspace:${payload.workspaceId}`, windowSeconds: DAY_SECONDS },
+        job.created_at
+      );
+    }
+    return result;
+  } finally {
+    await reporter.flush();
+  }
+}
+
+// A regeneration summarizes the summary's own source again, which may be a
+// file a teammate uploaded; anything else is resolved from the payload
+async function resolveJobSource(supabase: SupabaseClient, job: JobRow) {
+  const { payload } = job;
+  const providers = createSourceProviders(supabase);
+  if (!payload.summaryId) {
+    return resolveSource(providers, {
+      userId: job.user_id,
+      videoUrl: payload.videoUrl,
+      subtitlePath: payload.subtitlePath,
+    });
+  }
+
+  const { data: summary, error } = await supabase
+    .from('summaries')
+    .select('source, video_id, video_url')
+    .eq('id', payload.summaryId)
+    .eq('workspace_id', payload.workspaceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!summary) throw new CodedError('not_found', 'The summary to regenerate no longer exists');
+  return resolveSummarySource(providers, summary, job.user_id);
+}
+
+async function claimNextJob(supabase: SupabaseClient, config: WorkerConfig): Promise<JobRow | null> {
+  const { data, error } = await supabase.rpc('claim_next_job', { stale_after_seconds: config.staleAfterSeconds });
+  if (error) throw error;
+  return (data?.[0] as JobRow | undefined) ?? null;
+}
+
+// Records the outcome of an attempt: success, a scheduled retry, or failure
+// once the attempts are used up or the error would only happen again.
+async function settleJob(
+  supabase: SupabaseClient,
+  job: JobRow,
+  config: WorkerConfig,
+  outcome: { result?: SettledJob['result']; error?: unknown }
+): Promise<SettledJob> {
+  const now = new Date();
+  const failure = outcome.result ? null : classifyError(outcome.error);
+  const errorMessage = failure?.message ?? null;
+
+  let values: Record<string, unknown>;
+  if (outcome.result) {
+    values = {
+      status: 'succeeded',
+      result: outcome.result,
+      summary_id: outcome.result.id,
+      stage: 'done',
+      progress: 100,
+      partial_output: null,
+      error: null,
+      error_code: null,
+      retry_after_seconds: null,
+      finished_at: now.toISOString(),
+    };
+  } else if (failure!.retryable && job.attempts < job.max_attempts) {
+    // A provider that said when to come back is not asked again sooner
+    const delay = Math.max(retryDelayMs(job.attempts, config.retryBaseMs), (failure!.retryAfterSeconds ?? 0) * 1000);
+    values = {
+      status: 'queued',
+      error: errorMessage,
+      error_code: failure!.code,
+      run_after: new Date(now.getTime() + delay).toISOString(),
+      stage: null,
+      progress: 0,
+      partial_output: null,
+      message: `Attempt ${job.attempts} of ${job.max_attempts} failed, retrying in ${Math.round(delay / 1000)}s`,
+    };
+  } else {
+    values = {
+      status: 'failed',
+      error: errorMessage,
+      error_code: failure!.code,
+      retry_after_seconds: failure!.retryAfterSeconds,
+      partial_output: null,
+      finished_at: now.toISOString(),
+    };
+  }
+
+  const { error } = await supabase
+    .from('jobs')
+    .update({ ...values, locked_at: null, updated_at: now.toISOString() })
+    .eq('id', job.id);
+
+  if (error) console.error('Failed to record job outcome:', job.id, error);
+  return { status: values.status as JobOutcome, result: outcome.result, error: errorMessage, errorCode: failure?.code ?? null };
+}
+
+// Claims and runs queued jobs until the queue is empty or the claim budget is
+// spent. Returns true when it stopped early and jobs may still be waiting.
+export async function runWorker(
+  supabase: SupabaseClient,
+  hooks: WorkerHooks = {},
+  config: WorkerConfig = loadWorkerConfig()
+): Promise<boolean> {
+  const deadline = Date.now() + config.claimBudgetMs;
+
+  while (Date.now() < deadline) {
+    const job = await claimNextJob(supabase, config);
+    if (!job) return false;
+
+    console.log('Running job:', job.id, 'attempt:', job.attempts, 'of', job.max_attempts);
+
+    let settled: SettledJob;
+    if (job.attempts > job.max_attempts) {
+      // Reclaimed after its worker died on the last attempt
+      settled = await settleJob(supabase, job, config, { error: new Error('The worker stopped responding') });
+    } else {
+      await hooks.onClaimed?.(job);
+      try {
+        const result = await runJob(supabase, job);
+        settled = await settleJob(supabase, job, config, { result });
+      } catch (error) {
+        console.error('Job attempt failed:', job.id, error);
+        settled = await settleJob(supabase, job, config, { error });
+      }
+    }
+
+    console.log('Job', job.id, settled.status);
+    await hooks.onSettled?.(job, settled);
+  }
+
+  return true;
+}
@@ -0,0 +1,332 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createChatCompletion } from '../_shared/ai.ts';
+import type { SummarizeResult } from '../_shared/contract.ts';
+import { CodedError } from '../_shared/errors.ts';
+import { createEmbeddingProvider } from '../_shared/embeddings.ts';
+import { renderSummaryMarkdown, type StructuredSummary } from '../_shared/schema.ts';
+import type { SummaryStyle } from '../_shared/styles.ts';
+import { segmentsToText } from '../_shared/transcript.ts';
+import { assertWithinBudget, createUsageRecorder } from '../_shared/usage.ts';
+import type { EmitFn } from './events.ts';
+import { indexSummary } from './indexing.ts';
+import {
+  selectCaptionTrack,
+  UNKNOWN_LANGUAGE,
+  type CaptionTrack,
+  type CaptionTrackInfo,
+  type ResolvedSource,
+  type SourceKind,
+  type SourceProvider,
+} from './providers/index.ts';
+import { loadSummarizerConfig, summarizeTranscript, type SummarizeHooks } from './summarize.ts';
+import { suggestTags } from './tags.ts';
+import { humanSections, mergeRegeneratedSummary } from './versions.ts';
+
+export interface SummarizeRequest {
+  userId: string;
+  workspaceId: string;
+  provider: SourceProvider;
+  source: ResolvedSource;
+  style: SummaryStyle;
+  preferredLanguages: string[];
+  force: boolean;
+  // Regenerates this summary as a new version instead of adding another one
+  summaryId?: string;
+  // Tried before the configured provider chain
+  model?: string;
+}
+
+export async function runSummarization(
+  supabase: SupabaseClient,
+  request: SummarizeRequest,
+  emit: EmitFn
+): Promise<SummarizeResult> {
+  const { userId, workspaceId, provider, source, style, preferredLanguages, force, summaryId, model } = request;
+
+  emit({ type: 'stage', stage: 'resolving', progress: 5, message: 'Resolving video' });
+
+  // List the available caption tracks and pick the best one for the caller
+  const captionTracks = await provider.listTracks(source);
+  const availableTracks: CaptionTrackInfo[] = captionTracks.map(({ languageCode, name, kind }) => ({
+    languageCode,
+    name,
+    kind,
+  }));
+  const selectedTrack = selectCaptionTrack(captionTracks, preferredLanguages);
+  const trackLanguage = languageOf(selectedTrack);
+  console.log('Caption tracks:', availableTracks.length, 'selected:', selectedTrack?.languageCode, selectedTrack?.kind);
+
+  // The summary being regenerated, whose human-edited sections are kept
+  const previous = summaryId ? await loadRegenerated(supabase, summaryId, workspaceId) : null;
+
+  // Reuse the workspace's existing summary of this video in the same style and
+  // language unless the caller explicitly asks for a fresh one or a specific model
+  if (!force && !summaryId && !model) {
+    let cachedQuery = supabase
+      .from('summaries')
+      .select()
+      .eq('workspace_id', workspaceId)
+      .eq('source', source.kind)
+      .eq('video_id', source.id)
+      .eq('style', style.id);
+    cachedQuery = trackLanguage
+      ? cachedQuery.eq('transcript_language', trackLanguage)
+      : cachedQuery.is('transcript_language', null);
+
+    const { data: cached, error: cacheError } = await cachedQuery
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (cacheError) {
+      console.error('Cache lookup failed:', cacheError);
+    } else if (cached) {
+      console.log('Returning cached summary:', cached.id);
+      emit({ type: 'stage', stage: 'done', progress: 100, message: 'Loaded existing summary' });
+      return { ...toResponseBody(cached), availableTracks, cached: true };
+    }
+  }
+
+  emit({ type: 'stage', stage: 'fetching_captions', progress: 15, message: 'Fetching captions' });
+
+  // Fetch timed transcript segments; without them there is nothing to summarize
+  const segments = selectedTrack ? await provider.fetchTranscript(source, selectedTrack) : null;
+  const transcript = segments ? segmentsToText(segments) : null;
+  if (!segments || !transcript) {
+    throw new CodedError(
+      'no_captions',
+      captionTracks.length > 0 ? 'The captions of this video could not be read' : 'This video has no captions'
+    );
+  }
+  console.log('Transcript fetched, length:', transcript.length);
+
+  // Get video title and channel
+  const { title: videoTitle, channel } = await provider.fetchMetadata(source);
+  console.log('Video title:', videoTitle, 'channel:', channel);
+
+  // The job may have waited in the queue while other work spent the budget
+  await assertWithinBudget(supabase, workspaceId);
+
+  // Every model call is priced and later written to the usage ledger
+  const usage = createUsageRecorder();
+  const usageContext = { workspaceId, userId, feature: 'summary' as const };
+  const complete = createChatCompletion({ model, onCompletion: usage.record });
+  const hooks: SummarizeHooks = {
+    onChunksPlanned: (total) => {
+      if (total > 1) {
+        emit({ type: 'stage', stage: 'summarizing', progress: 20, message: `Summarizing ${total} sections` });
+      }
+    },
+    onChunkSummarized: (completed, total) =>
+      emit({
+        type: 'stage',
+        stage: 'summarizing',
+        progress: 20 + Math.round((50 * completed) / total),
+        message: `Summarized section ${completed} of ${total}`,
+      }),
+    onReduce: () => emit({ type: 'stage', stage: 'reducing', progress: 75, message: 'Writing the summary' }),
+    onToken: (delta) => emit({ type: 'token', delta }),
+    onRetry: () => emit({ type: 'reset' }),
+  };
+  let structuredSummary: StructuredSummary;
+
+  try {
+    // Long transcripts are summarized section by section, then combined
+    const result = await summarizeTranscript(segments, videoTitle, style, complete, loadSummarizerConfig(), hooks);
+    structuredSummary = result.structured;
+    console.log('Summary generated, key points:', structuredSummary.key_points.length, 'sections:', result.partials.length);
+  } catch (error) {
+    // The calls that did succeed were still paid for
+    await usage.save(supabase, { ...usageContext, summaryId: summaryId ?? null });
+    throw error;
+  }
+
+  emit({ type: 'stage', stage: 'saving', progress: 95, message: 'Saving summary' });
+
+  // Suggestions are a convenience; without the workspace's tags they are still useful
+  const { data: workspaceTags, error: tagsError } = await supabase
+    .from('tags')
+    .select('name')
+    .eq('workspace_id', workspaceId);
+  if (tagsError) console.error('Failed to load workspace tags:', tagsError);
+
+  const tagNames = (workspaceTags ?? []).map((tag: { name: string }) => tag.name);
+
+  // What this generation cost, kept with the summary; the ledger has each call
+  const totals = usage.totals();
+  const contentFor = (structured: StructuredSummary) => ({
+    video_title: videoTitle,
+    channel_name: channel,
+    summary: renderSummaryMarkdown(structured),
+    structured_summary: structured,
+    transcript_language: trackLanguage,
+    model: usage.lastModel(),
+    prompt_tokens: totals.promptTokens,
+    completion_tokens: totals.completionTokens,
+    latency_ms: totals.latencyMs,
+    cost_usd: totals.costUsd,
+    suggested_tags: suggestTags(structured.topics, tagNames),
+  });
+
+  // Save to database; a regeneration becomes the next version of its summary
+  const { data, error } = summaryId
+    ? await saveRegeneration(supabase, summaryId, workspaceId, previous!, structuredSummary, contentFor, userId)
+    : await supabase
+        .from('summaries')
+        .insert({
+          ...contentFor(structuredSummary),
+          user_id: userId,
+          workspace_id: workspaceId,
+          video_url: source.url,
+          video_id: source.id,
+          source: source.kind,
+          style: style.id,
+        })
+        .select()
+        .single();
+
+  if (error) {
+    console.error('Database error:', error);
+    await usage.save(supabase, { ...usageContext, summaryId: summaryId ?? null });
+    throw error;
+  }
+
+  console.log('Summary saved to database');
+  await usage.save(supabase, { ...usageContext, summaryId: data.id });
+
+  // The transcript is supplementary, so a failure here should not lose the summary
+  const { error: transcriptError } = await supabase
+    .from('transcripts')
+    .upsert({ summary_id: data.id, segments }, { onConflict: 'summary_id' });
+
+  if (transcriptError) {
+    console.error('Failed to save transcript:', transcriptError);
+  } else {
+    console.log('Transcript saved, segments:', segments.length);
+  }
+
+  // Search indexing is best effort as well; the summary is usable without it
+  try {
+    const indexed = await indexSummary(supabase, createEmbeddingProvider(), data.id, data.version, data.summary, segments);
+    console.log('Summary indexed for search, entries:', indexed);
+  } catch (indexError) {
+    console.error('Failed to index summary for search:', indexError);
+  }
+
+  emit({ type: 'stage', stage: 'done', progress: 100, message: 'Done' });
+  return { ...toResponseBody(data), availableTracks, cached: false };
+}
+
+type RegeneratedSummary = Pick<SummaryRow, 'structured_summary' | 'section_authors' | 'version'>;
+
+// A regeneration is re-merged this many times when people keep editing the summary
+const MAX_REGENERATION_SAVES = 3;
+
+async function loadRegenerated(
+  supabase: SupabaseClient,
+  summaryId: string,
+  workspaceId: string
+): Promise<RegeneratedSummary> {
+  const { data, error } = await supabase
+    .from('summaries')
+    .select('structured_summary, section_authors, version')
+    .eq('id', summaryId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new CodedError('not_found', 'The summary to regenerate no longer exists');
+  return data;
+}
+
+// Writes the regenerated summary over the version its human sections were
+// taken from. Generating takes minutes, so when someone saved an edit in the
+// meantime the update matches nothing; their sections are then merged in again,
+// the same way the editor turns a concurrent save into a conflict.
+async function saveRegeneration(
+  supabase: SupabaseClient,
+  summaryId: string,
+  workspaceId: string,
+  previous: RegeneratedSummary,
+  fresh: StructuredSummary,
+  contentFor: (structured: StructuredSummary) => Record<string, unknown>,
+  userId: string
+) {
+  let base = previous;
+  for (let attempt = 1; ; attempt++) {
+    const merged = mergeRegeneratedSummary(base.structured_summary, humanSections(base.section_authors), fresh);
+    console.log('Kept human-edited sections:', Object.keys(merged.authors).join(', ') || 'none');
+
+    const result = await supabase
+      .from('summaries')
+      .update({
+        ...contentFor(merged.structured),
+        section_authors: merged.authors,
+        revision_kind: 'regenerated',
+        updated_by: userId,
+      })
+      .eq('id', summaryId)
+      .eq('version', base.version)
+      .select()
+      .maybeSingle();
+
+    if (result.error || result.data) return result;
+    if (attempt >= MAX_REGENERATION_SAVES) {
+      throw new CodedError('database_error', 'The summary kept changing while it was being regenerated');
+    }
+
+    console.log('Summary was edited during regeneration, merging again:', summaryId);
+    base = await loadRegenerated(supabase, summaryId, workspaceId);
+  }
+}
+
+interface SummaryRow {
+  id: string;
+  source: SourceKind;
+  video_url: string;
+  video_id: string | null;
+  video_title: string | null;
+  summary: string;
+  structured_summary: StructuredSummary | null;
+  transcript_language: string | null;
+  style: string;
+  created_at: string;
+  version: number;
+  section_authors: unknown;
+  suggested_tags: string[] | null;
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  latency_ms: number | null;
+  cost_usd: number | null;
+}
+
+function toResponseBody(row: SummaryRow): Omit<SummarizeResult, 'availableTracks' | 'cached'> {
+  return {
+    summary: row.summary,
+    structuredSummary: row.structured_summary,
+    source: row.source,
+    videoUrl: row.video_url,
+    videoId: row.video_id,
+    videoTitle: row.video_title,
+    id: row.id,
+    created_at: row.created_at,
+    transcriptLanguage: row.transcript_language,
+    style: row.style,
+    version: row.version,
+    sectionAuthors: humanSections(row.section_authors),
+    suggestedTags: row.suggested_tags ?? [],
+    model: row.model,
+    usage: {
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      latencyMs: row.latency_ms,
+      costUsd: row.cost_usd,
+    },
+  };
+}
+
+// Subtitle files carry no language information, so they are stored without one
+function languageOf(track: CaptionTrack | null): string | null {
+  return track && track.languageCode !== UNKNOWN_LANGUAGE ? track.languageCode : null;
+}
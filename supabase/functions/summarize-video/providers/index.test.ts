@@ -0,0 +1,68 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { describe, expect, it, vi } from 'vitest';
+import { createSourceProviders, resolveSource, resolveSummarySource, type SummarySourceRow } from './index.ts';
+
+const UPLOADER = '11111111-1111-4111-8111-111111111111';
+const TEAMMATE = '22222222-2222-4222-8222-222222222222';
+const UPLOAD_PATH = `${UPLOADER}/33333333-3333-4333-8333-333333333333-talk.vtt`;
+
+// Serves every download from the subtitles bucket with a one-cue file
+function fakeSupabase() {
+  const download = vi.fn(async (_path: string) => ({
+    data: new Blob(['WEBVTT\n\n00:00:01.000 --> 00:00:04.000\nHello from the talk\n']),
+    error: null,
+  }));
+  const supabase = { storage: { from: () => ({ download }) } } as unknown as SupabaseClient;
+  return { supabase, download };
+}
+
+const uploadedSummary: SummarySourceRow = {
+  source: 'upload',
+  video_id: UPLOAD_PATH,
+  video_url: `upload://${UPLOAD_PATH}`,
+};
+
+describe('resolveSource', () => {
+  it("only accepts uploads from the caller's own folder", () => {
+    const providers = createSourceProviders(fakeSupabase().supabase);
+
+    expect(resolveSource(providers, { userId: UPLOADER, subtitlePath: UPLOAD_PATH })?.source.kind).toBe('upload');
+    expect(resolveSource(providers, { userId: TEAMMATE, subtitlePath: UPLOAD_PATH })).toBeNull();
+  });
+});
+
+describe('resolveSummarySource', () => {
+  it("lets an editor who did not upload the file regenerate from the uploader's file", async () => {
+    const { supabase, download } = fakeSupabase();
+
+    const resolved = resolveSummarySource(createSourceProviders(supabase), uploadedSummary, TEAMMATE);
+
+    expect(resolved?.source).toEqual({ kind: 'upload', id: UPLOAD_PATH, url: `upload://${UPLOAD_PATH}` });
+    const [track] = await resolved!.provider.listTracks(resolved!.source);
+    const segments = await resolved!.provider.fetchTranscript(resolved!.source, track);
+    expect(download).toHaveBeenCalledWith(UPLOAD_PATH);
+    expect(segments).toEqual([{ start_ms: 1000, duration_ms: 3000, text: 'Hello from the talk' }]);
+  });
+
+  it('rejects stored paths that leave the folder', () => {
+    const providers = createSourceProviders(fakeSupabase().supabase);
+    const summary = { ...uploadedSummary, video_id: `${UPLOADER}/../${TEAMMATE}/secret.vtt` };
+
+    expect(resolveSummarySource(providers, summary, TEAMMATE)).toBeNull();
+  });
+
+  it('resolves links again through their provider', () => {
+    const providers = createSourceProviders(fakeSupabase().supabase);
+    const summary: SummarySourceRow = {
+      source: 'youtube',
+      video_id: 'dQw4w9WgXcQ',
+      video_url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    };
+
+    expect(resolveSummarySource(providers, summary, TEAMMATE)?.source).toEqual({
+      kind: 'youtube',
+      id: 'dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    });
+  });
+});
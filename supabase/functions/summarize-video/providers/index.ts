@@ -0,0 +1,73 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { youtubeProvider } from './youtube.ts';
+import { vimeoProvider } from './vimeo.ts';
+import { subtitleUrlProvider } from './subtitleUrl.ts';
+import { createUploadProvider } from './upload.ts';
+import type { CaptionTrack, ResolvedSource, SourceInput, SourceKind, SourceProvider } from './types.ts';
+
+export * from './types.ts';
+
+// Tried in order; the first provider that recognises the input handles it
+export function createSourceProviders(supabase: SupabaseClient): SourceProvider[] {
+  return [createUploadProvider(supabase), youtubeProvider, vimeoProvider, subtitleUrlProvider];
+}
+
+export function resolveSource(
+  providers: SourceProvider[],
+  input: SourceInput
+): { provider: SourceProvider; source: ResolvedSource } | null {
+  for (const provider of providers) {
+    const source = provider.resolve(input);
+    if (source) return { provider, source };
+  }
+  return null;
+}
+
+// Where an existing summary was made from, as stored on its row
+export interface SummarySourceRow {
+  source: SourceKind;
+  video_id: string | null;
+  video_url: string;
+}
+
+// The source of a summary being regenerated. An uploaded file stays in its
+// uploader's folder, so it is authorized by the summary's workspace, which the
+// caller must be an editor of, rather than by the caller's own folder. Links
+// are resolved again so they still pass their provider's checks.
+export function resolveSummarySource(
+  providers: SourceProvider[],
+  summary: SummarySourceRow,
+  userId: string
+): { provider: SourceProvider; source: ResolvedSource } | null {
+  if (summary.source !== 'upload') {
+    return resolveSource(providers, { userId, videoUrl: summary.video_url });
+  }
+
+  const provider = providers.find((candidate) => candidate.kind === 'upload');
+  if (!provider || !summary.video_id || summary.video_id.includes('..')) return null;
+  return { provider, source: { kind: 'upload', id: summary.video_id, url: summary.video_url } };
+}
+
+// Picks the best track for the caller's language preferences. Within each
+// preferred language a manual track beats an auto-generated one; when nothing
+// matches, any manual track beats ASR.
+export function selectCaptionTrack(tracks: CaptionTrack[], preferredLanguages: string[]): CaptionTrack | null {
+  if (tracks.length === 0) return null;
+
+  const byKind = (candidates: CaptionTrack[]) =>
+    candidates.find((track) => track.kind === 'manual') ?? candidates[0] ?? null;
+
+  for (const language of preferredLanguages) {
+    const wanted = language.toLowerCase();
+    const exact = tracks.filter((track) => track.languageCode.toLowerCase() === wanted);
+    if (exact.length > 0) return byKind(exact);
+
+    // Fall back to the base language, so "en-US" still matches an "en" track
+    const base = wanted.split('-')[0];
+    const related = tracks.filter((track) => track.languageCode.toLowerCase().split('-')[0] === base);
+    if (related.length > 0) return byKind(related);
+  }
+
+  return byKind(tracks);
+}
+
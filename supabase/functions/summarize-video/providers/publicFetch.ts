@@ -0,0 +1,148 @@
+import { CodedError } from '../../_shared/errors.ts';
+
+// Caller-supplied links are fetched from inside the platform's network, so they
+// may only reach public hosts: never loopback, private, link-local or cloud
+// metadata addresses, not even by way of a redirect.
+
+export interface PublicFetchOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects: number;
+}
+
+const DEFAULT_OPTIONS: PublicFetchOptions = {
+  timeoutMs: 15_000,
+  maxBytes: 5 * 1024 * 1024,
+  maxRedirects: 3,
+};
+
+const BLOCKED_HOSTNAMES = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/i;
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPublicIPv4([a, b]: number[]): boolean {
+  return !(
+    a === 0 || // "this network"
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+function isPublicIPv6(address: string): boolean {
+  const host = address.toLowerCase();
+  if (host === '::' || host === '::1') return false;
+  // IPv4-mapped and -translated addresses are judged by their IPv4 part
+  const mapped = host.match(/^::(?:ffff:)?(?:0:)?(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    const octets = parseIPv4(mapped[1]);
+    return octets !== null && isPublicIPv4(octets);
+  }
+  if (/^::ffff:/.test(host)) return false;
+  // Unique local fc00::/7, link-local fe80::/10, site-local fec0::/10 and multicast ff00::/8
+  return !/^(f[cd]|fe[89ab]|fe[c-f]|ff)/.test(host);
+}
+
+// Whether an IP literal or host name may be fetched, judged without DNS
+export function isPublicHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (!host || BLOCKED_HOSTNAMES.test(host)) return false;
+  if (host.includes(':')) return isPublicIPv6(host);
+  const octets = parseIPv4(host);
+  if (octets) return isPublicIPv4(octets);
+  // Numeric forms such as "2130706433" or "0x7f.1" that URL parsing did not normalize
+  return !/^[\d.]+$|^0x/i.test(host);
+}
+
+// Every address the name resolves to must be public, so a DNS record pointing
+// at an internal address is refused as well
+async function resolvesToPublicAddresses(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (parseIPv4(host) || host.includes(':')) return true;
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+  return addresses.length > 0 && addresses.every(isPublicHost);
+}
+
+async function assertPublicUrl(url: URL) {
+  if (!/^https?:$/.test(url.protocol) || url.username || url.password) {
+    throw new CodedError('invalid_url', 'Only plain http and https links can be fetched');
+  }
+  if (!isPublicHost(url.hostname) || !(await resolvesToPublicAddresses(url.hostname))) {
+    throw new CodedError('invalid_url', 'Links must point to a public web address');
+  }
+}
+
+async function readTextWithLimit(response: Response, maxBytes: number): Promise<string> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) throw tooLarge(maxBytes);
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+const tooLarge = (maxBytes: number) =>
+  new CodedError('unsupported_source', `The file is larger than ${Math.round(maxBytes / (1024 * 1024))} MB`);
+
+// Fetches a caller-supplied link as text. Each redirect is checked like the
+// first URL, the whole exchange is aborted after the time limit, and the body
+// is read up to maxBytes. Throws CodedError for links that must not be fetched.
+export async function fetchPublicText(
+  rawUrl: string,
+  options: Partial<PublicFetchOptions> = {}
+): Promise<{ response: Response; text: string }> {
+  const { timeoutMs, maxBytes, maxRedirects } = { ...DEFAULT_OPTIONS, ...options };
+  const signal = AbortSignal.timeout(timeoutMs);
+  let url = new URL(rawUrl);
+
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(url);
+    const response = await fetch(url, { redirect: 'manual', signal });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (hop >= maxRedirects) throw new CodedError('invalid_url', 'The link redirects too many times');
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { response, text: '' };
+    }
+    return { response, text: await readTextWithLimit(response, maxBytes) };
+  }
+}
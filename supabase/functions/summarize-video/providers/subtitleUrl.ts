@@ -0,0 +1,29 @@
+import { isPublicHost } from './publicFetch.ts';
+import { fetchSubtitleFile } from './subtitles.ts';
+import { UNKNOWN_LANGUAGE, type SourceProvider } from './types.ts';
+
+function fileNameOf(url: URL): string {
+  return decodeURIComponent(url.pathname.split('/').pop() ?? '') || url.hostname;
+}
+
+// A direct link to a .vtt or .srt file; its single track has no known language
+export const subtitleUrlProvider: SourceProvider = {
+  kind: 'subtitle_url',
+  resolve({ videoUrl }) {
+    if (!videoUrl) return null;
+    try {
+      const url = new URL(videoUrl);
+      if (!/^https?:$/.test(url.protocol) || !/\.(vtt|srt)$/i.test(url.pathname)) return null;
+      // Internal addresses are refused here already; DNS is checked again when fetching
+      if (!isPublicHost(url.hostname)) return null;
+      return { kind: 'subtitle_url', id: url.toString(), url: url.toString() };
+    } catch {
+      return null;
+    }
+  },
+  listTracks: async (source) => [
+    { languageCode: UNKNOWN_LANGUAGE, name: 'Subtitle file', kind: 'manual', url: source.url },
+  ],
+  fetchTranscript: (_source, track) => fetchSubtitleFile(track.url),
+  fetchMetadata: async (source) => ({ title: fileNameOf(new URL(source.url)), channel: null }),
+};
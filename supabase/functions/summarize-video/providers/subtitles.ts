@@ -0,0 +1,74 @@
+import { CodedError } from '../../_shared/errors.ts';
+import type { TranscriptSegment } from '../../_shared/transcript.ts';
+import { fetchPublicText } from './publicFetch.ts';
+
+// Parses "hh:mm:ss.mmm", "mm:ss.mmm" or the SRT form "hh:mm:ss,mmm" into milliseconds
+function parseCueTime(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis.padEnd(3, '0'));
+}
+
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(' ')
+    .replace(/<[^>]+>/g, '') // inline styling and voice tags
+    .replace(/\{\\[^}]*\}/g, '') // SSA-style override tags some SRT files carry
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Handles both WebVTT and SRT, which share the "start --> end" cue layout
+export function parseSubtitles(text: string): TranscriptSegment[] {
+  const blocks = text.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '').split(/\n{2,}/);
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim().length > 0);
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue; // header, NOTE, STYLE or REGION blocks
+
+    const [rawStart, rawEndWithSettings] = lines[timingIndex].split('-->');
+    const start = parseCueTime(rawStart);
+    const end = parseCueTime(rawEndWithSettings.trim().split(/\s+/)[0]);
+    if (start === null || end === null) continue;
+
+    const cueText = cleanCueText(lines.slice(timingIndex + 1));
+    if (!cueText) continue;
+
+    // Rolling auto-captions repeat the previous line; keep each line once
+    const previous = segments[segments.length - 1];
+    if (previous && previous.text === cueText) {
+      previous.duration_ms = Math.max(previous.duration_ms, end - previous.start_ms);
+      continue;
+    }
+
+    segments.push({ start_ms: start, duration_ms: Math.max(0, end - start), text: cueText });
+  }
+
+  return segments;
+}
+
+export async function fetchSubtitleFile(url: string): Promise<TranscriptSegment[] | null> {
+  try {
+    console.log('Fetching subtitle file from:', url);
+    const { response, text } = await fetchPublicText(url);
+
+    if (!response.ok) {
+      console.error('Failed to fetch subtitle file:', response.status);
+      return null;
+    }
+
+    const segments = parseSubtitles(text);
+    return segments.length > 0 ? segments : null;
+  } catch (error) {
+    // Links that must not be fetched, or files too large to read, are the caller's to fix
+    if (error instanceof CodedError) throw error;
+    console.error('Error fetching subtitle file:', error);
+    return null;
+  }
+}
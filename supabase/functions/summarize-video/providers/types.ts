@@ -0,0 +1,47 @@
+import type { TranscriptSegment } from '../../_shared/transcript.ts';
+
+export type SourceKind = 'youtube' | 'vimeo' | 'subtitle_url' | 'upload';
+
+// What the caller asked to summarize
+export interface SourceInput {
+  userId: string;
+  videoUrl?: string;
+  // Path of a subtitle file the caller uploaded to the subtitles bucket
+  subtitlePath?: string;
+}
+
+export interface ResolvedSource {
+  kind: SourceKind;
+  // Provider-specific identifier used to find existing summaries of the same source
+  id: string;
+  // Stored as the summary's video_url and linked from the UI
+  url: string;
+}
+
+// A caption track as exposed to the client, minus where it is fetched from
+export interface CaptionTrackInfo {
+  languageCode: string;
+  name: string;
+  kind: 'asr' | 'manual';
+}
+
+export interface CaptionTrack extends CaptionTrackInfo {
+  url: string;
+}
+
+// Language code for tracks whose language is not known, such as subtitle files
+export const UNKNOWN_LANGUAGE = 'und';
+
+export interface SourceMetadata {
+  title: string;
+  // Uploader or channel name, when the source has one
+  channel: string | null;
+}
+
+export interface SourceProvider {
+  kind: SourceKind;
+  resolve(input: SourceInput): ResolvedSource | null;
+  listTracks(source: ResolvedSource): Promise<CaptionTrack[]>;
+  fetchTranscript(source: ResolvedSource, track: CaptionTrack): Promise<TranscriptSegment[] | null>;
+  fetchMetadata(source: ResolvedSource): Promise<SourceMetadata>;
+}
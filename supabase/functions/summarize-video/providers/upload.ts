@@ -0,0 +1,37 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { parseSubtitles } from './subtitles.ts';
+import { UNKNOWN_LANGUAGE, type SourceProvider } from './types.ts';
+
+export const SUBTITLES_BUCKET = 'subtitles';
+
+// Uploads are stored as "<user id>/<random id>-<original file name>"
+function displayNameOf(path: string): string {
+  const fileName = path.split('/').pop() ?? path;
+  return fileName.replace(/^[0-9a-f-]{36}-/i, '');
+}
+
+export function createUploadProvider(supabase: SupabaseClient): SourceProvider {
+  return {
+    kind: 'upload',
+    resolve({ subtitlePath, userId }) {
+      // Callers may only summarize files in their own folder
+      if (!subtitlePath || !subtitlePath.startsWith(`${userId}/`) || subtitlePath.includes('..')) return null;
+      return { kind: 'upload', id: subtitlePath, url: `upload://${subtitlePath}` };
+    },
+    listTracks: async (source) => [
+      { languageCode: UNKNOWN_LANGUAGE, name: displayNameOf(source.id), kind: 'manual', url: source.id },
+    ],
+    async fetchTranscript(source) {
+      const { data, error } = await supabase.storage.from(SUBTITLES_BUCKET).download(source.id);
+
+      if (error || !data) {
+        console.error('Failed to download uploaded subtitles:', error);
+        return null;
+      }
+
+      const segments = parseSubtitles(await data.text());
+      return segments.length > 0 ? segments : null;
+    },
+    fetchMetadata: async (source) => ({ title: displayNameOf(source.id), channel: null }),
+  };
+}
@@ -0,0 +1,72 @@
+import { CodedError } from '../../_shared/errors.ts';
+import { fetchSubtitleFile } from './subtitles.ts';
+import type { CaptionTrack, SourceMetadata, SourceProvider } from './types.ts';
+
+interface VimeoTextTrack {
+  lang?: string;
+  label?: string;
+  kind?: string;
+  url?: string;
+}
+
+export function extractVimeoId(url: string): string | null {
+  const match = url.match(/(?:vimeo\.com\/(?:video\/|channels\/[^/]+\/|groups\/[^/]+\/videos\/)?|player\.vimeo\.com\/video\/)(\d+)/);
+  return match ? match[1] : null;
+}
+
+async function fetchPlayerConfig(videoId: string) {
+  const response = await fetch(`https://player.vimeo.com/video/${videoId}/config`);
+  // Private, password-protected and deleted videos have no public player
+  if (response.status === 403 || response.status === 404) {
+    throw new CodedError('private_video', 'This Vimeo video is private or no longer available');
+  }
+  if (response.status === 429) {
+    throw new CodedError('captions_blocked', 'Vimeo refused to send the captions for this video', true);
+  }
+  if (!response.ok) {
+    console.error('Failed to fetch Vimeo player config:', response.status);
+    return null;
+  }
+  return response.json();
+}
+
+export const vimeoProvider: SourceProvider = {
+  kind: 'vimeo',
+  resolve({ videoUrl }) {
+    const videoId = videoUrl ? extractVimeoId(videoUrl) : null;
+    return videoId ? { kind: 'vimeo', id: videoId, url: `https://vimeo.com/${videoId}` } : null;
+  },
+  async listTracks(source) {
+    try {
+      const config = await fetchPlayerConfig(source.id);
+      const textTracks: VimeoTextTrack[] = config?.request?.text_tracks ?? [];
+
+      return textTracks
+        .filter((track) => track.url && track.lang)
+        .map((track): CaptionTrack => ({
+          languageCode: track.lang!,
+          name: track.label ?? track.lang!,
+          // Vimeo labels machine captions rather than exposing a kind for them
+          kind: /auto-?generated/i.test(track.label ?? '') ? 'asr' : 'manual',
+          url: new URL(track.url!, 'https://player.vimeo.com').toString(),
+        }));
+    } catch (error) {
+      if (error instanceof CodedError) throw error;
+      console.error('Error fetching Vimeo text tracks:', error);
+      return [];
+    }
+  },
+  fetchTranscript: (_source, track) => fetchSubtitleFile(track.url),
+  async fetchMetadata(source): Promise<SourceMetadata> {
+    try {
+      const response = await fetch(`https://vimeo.com/api/oembed.json?url=https://vimeo.com/${source.id}`);
+      if (response.ok) {
+        const data = await response.json();
+        return { title: data.title || 'Unknown Video', channel: data.author_name || null };
+      }
+    } catch (error) {
+      console.error('Error fetching Vimeo metadata:', error);
+    }
+    return { title: 'Unknown Video', channel: null };
+  },
+};
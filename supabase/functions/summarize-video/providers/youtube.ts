@@ -0,0 +1,189 @@
+import { CodedError } from '../../_shared/errors.ts';
+import type { TranscriptSegment } from '../../_shared/transcript.ts';
+import type { CaptionTrack, SourceMetadata, SourceProvider } from './types.ts';
+
+interface RawCaptionTrack {
+  baseUrl?: string;
+  languageCode?: string;
+  kind?: string;
+  name?: { simpleText?: string; runs?: { text: string }[] };
+}
+
+interface CaptionEvent {
+  tStartMs?: number;
+  dDurationMs?: number;
+  segs?: { utf8?: string }[];
+}
+
+export const youtubeProvider: SourceProvider = {
+  kind: 'youtube',
+  resolve({ videoUrl }) {
+    const videoId = videoUrl ? extractVideoId(videoUrl) : null;
+    return videoId ? { kind: 'youtube', id: videoId, url: videoUrl! } : null;
+  },
+  listTracks: (source) => fetchCaptionTracks(source.id),
+  fetchTranscript: (_source, track) => fetchTranscript(track),
+  fetchMetadata: (source) => fetchVideoMetadata(source.id),
+};
+
+export function extractVideoId(url: string): string | null {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
+    /^([a-zA-Z0-9_-]{11})$/
+  ];
+  
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) return match[1];
+  }
+  
+  return null;
+}
+
+// YouTube answers bots it does not trust with a 429 or a consent or captcha page
+const blockedError = () =>
+  new CodedError('captions_blocked', 'YouTube refused to send the captions for this video', true);
+
+// Reads the player's verdict on whether the video can be watched without signing in
+function checkPlayability(pageHtml: string): void {
+  const match = pageHtml.match(/"playabilityStatus":\{"status":"([A-Z_]+)"(?:,"reason":"([^"]*)")?/);
+  const status = match?.[1];
+  if (!status || status === 'OK' || status === 'LIVE_STREAM_OFFLINE') return;
+
+  const reason = match?.[2] ?? '';
+  if (status.startsWith('AGE_') || /confirm your age|age-restricted/i.test(reason)) {
+    throw new CodedError('age_restricted', 'This video is age-restricted');
+  }
+  if (status === 'LOGIN_REQUIRED' && /private/i.test(reason)) {
+    throw new CodedError('private_video', 'This video is private');
+  }
+  // "Sign in to confirm you're not a bot"
+  if (status === 'LOGIN_REQUIRED') {
+    throw blockedError();
+  }
+  throw new CodedError('private_video', reason ? `This video is unavailable: ${reason}` : 'This video is unavailable');
+}
+
+async function fetchCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+  try {
+    // Fetch the YouTube video page to extract caption data
+    const pageResponse = await fetch(`https://www.youtube.com/watch?v=${videoId}`);
+    
+    if (pageResponse.status === 429 || pageResponse.status === 403) {
+      console.error('YouTube refused the page request:', pageResponse.status);
+      throw blockedError();
+    }
+    if (!pageResponse.ok) {
+      console.error('Failed to fetch YouTube page:', pageResponse.status);
+      return [];
+    }
+    
+    const pageHtml = await pageResponse.text();
+    if (/consent\.youtube\.com|unusual traffic from your computer/i.test(pageHtml) && !pageHtml.includes('"captions":')) {
+      throw blockedError();
+    }
+    checkPlayability(pageHtml);
+    
+    // Extract the player response JSON from the page
+    const playerResponseMatch = pageHtml.match(/"captions":(\{[^}]+captionTracks[^}]+\})/);
+    
+    if (!playerResponseMatch) {
+      console.error('No captions found in video page');
+      return [];
+    }
+    
+    // Parse the captions object
+    let captionsData;
+    try {
+      // Find the full captions object
+      const fullCaptionsMatch = pageHtml.match(/"captions":(\{"playerCaptionsTracklistRenderer":\{[^}]+?"captionTracks":\[[^\]]+\][^}]*\}\})/);
+      if (!fullCaptionsMatch) {
+        console.error('Could not parse captions structure');
+        return [];
+      }
+      
+      captionsData = JSON.parse(`{${fullCaptionsMatch[1]}}`);
+    } catch (e) {
+      console.error('Error parsing captions JSON:', e);
+      return [];
+    }
+    
+    const captionTracks: RawCaptionTrack[] | undefined = captionsData?.playerCaptionsTracklistRenderer?.captionTracks;
+    
+    if (!captionTracks || captionTracks.length === 0) {
+      console.error('No caption tracks available');
+      return [];
+    }
+
+    return captionTracks
+      .filter((track) => track.baseUrl && track.languageCode)
+      .map((track): CaptionTrack => ({
+        languageCode: track.languageCode!,
+        name: track.name?.simpleText ?? track.name?.runs?.map((run) => run.text).join('') ?? track.languageCode!,
+        kind: track.kind === 'asr' ? 'asr' : 'manual',
+        url: track.baseUrl!,
+      }));
+  } catch (error) {
+    if (error instanceof CodedError) throw error;
+    console.error('Error fetching caption tracks:', error);
+    return [];
+  }
+}
+
+async function fetchTranscript(track: CaptionTrack): Promise<TranscriptSegment[] | null> {
+  try {
+    console.log('Fetching captions from:', track.url);
+    
+    // Fetch the actual transcript
+    const transcriptResponse = await fetch(track.url);
+    
+    if (transcriptResponse.status === 429 || transcriptResponse.status === 403) {
+      console.error('YouTube refused the transcript request:', transcriptResponse.status);
+      throw blockedError();
+    }
+    if (!transcriptResponse.ok) {
+      console.error('Failed to fetch transcript:', transcriptResponse.status);
+      return null;
+    }
+    
+    const transcriptData = await transcriptResponse.json();
+    
+    // Extract text from the transcript events
+    if (!transcriptData.events || transcriptData.events.length === 0) {
+      console.error('No transcript events found');
+      return null;
+    }
+    
+    const segments: TranscriptSegment[] = (transcriptData.events as CaptionEvent[])
+      .filter((event) => event.segs) // Filter events with segments
+      .map((event) => ({
+        start_ms: event.tStartMs ?? 0,
+        duration_ms: event.dDurationMs ?? 0,
+        text: event.segs!.map((seg) => seg.utf8 ?? '').join('').replace(/\n/g, ' ').trim(),
+      }))
+      .filter((segment) => segment.text.length > 0);
+    
+    return segments.length > 0 ? segments : null;
+  } catch (error) {
+    if (error instanceof CodedError) throw error;
+    console.error('Error fetching transcript:', error);
+    return null;
+  }
+}
+
+async function fetchVideoMetadata(videoId: string): Promise<SourceMetadata> {
+  try {
+    const response = await fetch(
+      `https://noembed.com/embed?url=https://www.youtube.com/watch?v=${videoId}`
+    );
+    
+    if (response.ok) {
+      const data = await response.json();
+      return { title: data.title || 'Unknown Video', channel: data.author_name || null };
+    }
+  } catch (error) {
+    console.error('Error fetching video metadata:', error);
+  }
+  
+  return { title: 'Unknown Video', channel: null };
+}
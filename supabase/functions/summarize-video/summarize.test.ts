@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatCompletionFn, ChatCompletionOptions, ChatMessage } from '../_shared/ai.ts';
+import type { StructuredSummary } from '../_shared/schema.ts';
+import { DEFAULT_STYLE, SUMMARY_STYLES } from '../_shared/styles.ts';
+import { chunkTranscript, summarizeTranscript, type SummarizerConfig } from './summarize.ts';
+import { segments } from './testing.ts';
+
+const style = SUMMARY_STYLES[DEFAULT_STYLE];
+
+const structured: StructuredSummary = {
+  title: 'Test video',
+  tldr: 'A video about testing.',
+  key_points: [{ text: 'Tests catch regressions', timestamp: '1:00' }],
+  takeaways: [],
+  action_items: [],
+  topics: ['testing'],
+};
+
+const config = (overrides: Partial<SummarizerConfig> = {}): SummarizerConfig => ({
+  chunkTokens: 25,
+  chunkSeconds: 0,
+  concurrency: 2,
+  mapPrompt: 'MAP PROMPT',
+  reducePrompt: 'REDUCE PROMPT',
+  ...overrides,
+});
+
+// Records every call and answers structured (JSON mode) requests with a valid
+// summary and everything else with a 40 character section summary
+function mockCompletion(reply?: (messages: ChatMessage[], options: ChatCompletionOptions) => string) {
+  const calls: { messages: ChatMessage[]; options: ChatCompletionOptions }[] = [];
+  const complete: ChatCompletionFn = async (messages, options = {}) => {
+    calls.push({ messages: [...messages], options });
+    if (reply) return reply(messages, options);
+    return options.jsonMode ? JSON.stringify(structured) : `section summary number ${calls.length}`.padEnd(40, '.');
+  };
+  return { complete, calls };
+}
+
+const userPrompt = (messages: ChatMessage[]) => messages.find((message) => message.role === 'user')!.content;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('chunkTranscript', () => {
+  it('splits on segment boundaries within the token budget', () => {
+    const chunks = chunkTranscript(segments(5), { chunkTokens: 25, chunkSeconds: 0 });
+
+    expect(chunks.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([
+      [0, 60_000],
+      [60_000, 120_000],
+      [120_000, 150_000],
+    ]);
+    expect(chunks[0].text).toBe(`segment 00 ${'x'.repeat(25)} segment 01 ${'x'.repeat(25)}`);
+  });
+
+  it('limits the playback time of a chunk when a window is set', () => {
+    const chunks = chunkTranscript(segments(7), { chunkTokens: 10_000, chunkSeconds: 90 });
+    expect(chunks.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([
+      [0, 90_000],
+      [90_000, 180_000],
+      [180_000, 210_000],
+    ]);
+  });
+
+  it('keeps a segment larger than the budget as a chunk of its own', () => {
+    const long = { start_ms: 30_000, duration_ms: 5_000, text: 'y'.repeat(400) };
+    const chunks = chunkTranscript([segments(1)[0], long, { ...segments(3)[2], start_ms: 35_000 }], {
+      chunkTokens: 25,
+      chunkSeconds: 0,
+    });
+    expect(chunks.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([
+      [0, 30_000],
+      [30_000, 35_000],
+      [35_000, 65_000],
+    ]);
+  });
+
+  it('returns no chunks for an empty transcript', () => {
+    expect(chunkTranscript([], { chunkTokens: 25, chunkSeconds: 0 })).toEqual([]);
+  });
+});
+
+describe('summarizeTranscript', () => {
+  it('summarizes a short transcript in a single structured call', async () => {
+    const { complete, calls } = mockCompletion();
+    const onReduce = vi.fn();
+
+    const result = await summarizeTranscript(segments(2), 'Test video', style, complete, config(), { onReduce });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].options.jsonMode).toBe(true);
+    expect(userPrompt(calls[0].messages)).toContain('[0:00] segment 00');
+    expect(userPrompt(calls[0].messages)).toContain('[0:30] segment 01');
+    expect(onReduce).toHaveBeenCalledOnce();
+    expect(result.structured).toEqual(structured);
+    expect(result.partials).toEqual([{ startMs: 0, endMs: 60_000, summary: structured.tldr }]);
+  });
+
+  it('summarizes each chunk, then reduces the partials labelled with their time ranges', async () => {
+    const { complete, calls } = mockCompletion();
+    const hooks = { onChunksPlanned: vi.fn(), onChunkSummarized: vi.fn(), onReduce: vi.fn() };
+
+    const result = await summarizeTranscript(segments(4), 'Test video', style, complete, config(), hooks);
+
+    // Two chunks of two segments fit in one reduce prompt
+    expect(calls).toHaveLength(3);
+    const [first, second, reduce] = calls;
+
+    expect(userPrompt(first.messages)).toContain('MAP PROMPT');
+    expect(userPrompt(first.messages)).toContain('Section 1 of 2 (0:00–1:00)');
+    expect(userPrompt(second.messages)).toContain('Section 2 of 2 (1:00–2:00)');
+    expect(first.options).toEqual({ temperature: 0.3, maxTokens: 600 });
+
+    expect(result.partials).toEqual([
+      { startMs: 0, endMs: 60_000, summary: 'section summary number 1'.padEnd(40, '.') },
+      { startMs: 60_000, endMs: 120_000, summary: 'section summary number 2'.padEnd(40, '.') },
+    ]);
+
+    expect(reduce.options.jsonMode).toBe(true);
+    expect(reduce.options.maxTokens).toBe(style.maxTokens);
+    const reducePrompt = userPrompt(reduce.messages);
+    expect(reducePrompt).toContain('REDUCE PROMPT');
+    expect(reducePrompt).toContain(`[0:00–1:00]\n${result.partials[0].summary}\n\n[1:00–2:00]\n${result.partials[1].summary}`);
+
+    expect(hooks.onChunksPlanned).toHaveBeenCalledWith(2);
+    expect(hooks.onChunkSummarized).toHaveBeenCalledTimes(2);
+    expect(hooks.onChunkSummarized).toHaveBeenLastCalledWith(2, 2);
+    expect(hooks.onReduce).toHaveBeenCalledOnce();
+    expect(result.structured).toEqual(structured);
+  });
+
+  it('merges neighbouring partials first when they do not fit in one reduce prompt', async () => {
+    const { complete, calls } = mockCompletion();
+
+    const result = await summarizeTranscript(segments(12), 'Test video', style, complete, config());
+
+    // Six chunks, merged into three, then two, then reduced into the summary
+    const merges = calls.filter((call) => !call.options.jsonMode && userPrompt(call.messages).includes('Section summaries'));
+    expect(result.partials).toHaveLength(6);
+    expect(merges).toHaveLength(5);
+    expect(userPrompt(merges[0].messages)).toContain('REDUCE PROMPT');
+    expect(userPrompt(merges[0].messages)).not.toContain('MAP PROMPT');
+    expect(userPrompt(merges[0].messages)).toContain('[0:00–1:00]');
+    expect(userPrompt(merges[0].messages)).toContain('[1:00–2:00]');
+
+    const final = calls[calls.length - 1];
+    expect(final.options.jsonMode).toBe(true);
+    expect(userPrompt(final.messages)).toContain('[0:00–4:00]');
+    expect(userPrompt(final.messages)).toContain('[4:00–6:00]');
+    expect(result.structured).toEqual(structured);
+  });
+
+  it('asks again when the reduce step returns an invalid summary', async () => {
+    let structuredCalls = 0;
+    const { complete, calls } = mockCompletion((_messages, options) => {
+      if (!options.jsonMode) return 'a section summary';
+      structuredCalls++;
+      return structuredCalls === 1 ? '{"title": "Missing fields"}' : `\`\`\`json\n${JSON.stringify(structured)}\n\`\`\``;
+    });
+    const onRetry = vi.fn();
+
+    const result = await summarizeTranscript(segments(4), 'Test video', style, complete, config(), { onRetry });
+
+    expect(calls).toHaveLength(4);
+    expect(onRetry).toHaveBeenCalledWith(1);
+    const retry = calls[calls.length - 1].messages;
+    expect(retry[retry.length - 2]).toEqual({ role: 'assistant', content: '{"title": "Missing fields"}' });
+    expect(retry[retry.length - 1].content).toMatch(/^That response was not valid: tldr:/);
+    expect(result.structured).toEqual(structured);
+  });
+});
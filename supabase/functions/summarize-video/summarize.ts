@@ -0,0 +1,277 @@
+import type { ChatCompletionFn, ChatMessage } from '../_shared/ai.ts';
+import {
+  estimateTokens,
+  formatTimestamp,
+  segmentsToText,
+  segmentsToTimedText,
+  type TranscriptChunk,
+  type TranscriptSegment,
+} from '../_shared/transcript.ts';
+import type { SummaryStyle } from '../_shared/styles.ts';
+import { completeStructured, STRUCTURED_OUTPUT_INSTRUCTIONS, type StructuredSummary } from '../_shared/schema.ts';
+
+// A summary of one slice of the video, tagged with the time range it covers
+export interface PartialSummary {
+  startMs: number;
+  endMs: number;
+  summary: string;
+}
+
+// Optional progress callbacks, used to stream the pipeline to the client
+export interface SummarizeHooks {
+  onChunksPlanned?: (total: number) => void;
+  onChunkSummarized?: (completed: number, total: number) => void;
+  onReduce?: () => void;
+  onToken?: (delta: string) => void;
+  // The final answer failed validation and is being generated again
+  onRetry?: (attempt: number) => void;
+}
+
+export interface SummarizerConfig {
+  // Upper bound on the estimated tokens of transcript text sent per map call
+  chunkTokens: number;
+  // Upper bound on the playback time covered by one chunk, 0 for no limit
+  chunkSeconds: number;
+  // How many map calls may run against the gateway at once
+  concurrency: number;
+  mapPrompt: string;
+  reducePrompt: string;
+}
+
+const SYSTEM_PROMPT =
+  'You are a helpful assistant that creates clear, concise summaries of video content. Provide well-structured summaries with key points and main ideas.';
+
+const DEFAULT_MAP_PROMPT = `You are reading one section of a longer video transcript.
+Summarize only this section: the topics covered, the key points and any concrete facts, numbers or recommendations.
+Be specific and keep it under 250 words. Do not add an introduction or conclusion.`;
+
+const DEFAULT_REDUCE_PROMPT = `Below are summaries of consecutive sections of one video, each labelled with the time range it covers.
+Combine them into one summary of the whole video, written as if from the full transcript.
+When a point comes from a specific section, cite its start time in square brackets, e.g. [12:30].`;
+
+export function loadSummarizerConfig(
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): SummarizerConfig {
+  const numberFrom = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    chunkTokens: numberFrom('SUMMARY_CHUNK_TOKENS', 6000),
+    chunkSeconds: numberFrom('SUMMARY_CHUNK_SECONDS', 0),
+    concurrency: numberFrom('SUMMARY_CONCURRENCY', 3),
+    mapPrompt: env('SUMMARY_MAP_PROMPT') || DEFAULT_MAP_PROMPT,
+    reducePrompt: env('SUMMARY_REDUCE_PROMPT') || DEFAULT_REDUCE_PROMPT,
+  };
+}
+
+function styleGuidance(style: SummaryStyle): string {
+  return `Write the content of each field in this style:
+${style.instructions}
+
+${STRUCTURED_OUTPUT_INSTRUCTIONS}`;
+}
+
+// Splits the transcript on segment boundaries so that no chunk exceeds the
+// token budget or, when configured, the time window.
+export function chunkTranscript(
+  segments: TranscriptSegment[],
+  { chunkTokens, chunkSeconds }: Pick<SummarizerConfig, 'chunkTokens' | 'chunkSeconds'>
+): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptSegment[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const last = current[current.length - 1];
+    chunks.push({
+      startMs: current[0].start_ms,
+      endMs: last.start_ms + last.duration_ms,
+      text: segmentsToText(current),
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const segment of segments) {
+    const tokens = estimateTokens(segment.text) + 1;
+    const exceedsTokens = currentTokens + tokens > chunkTokens;
+    const exceedsTime =
+      chunkSeconds > 0 &&
+      current.length > 0 &&
+      segment.start_ms + segment.duration_ms - current[0].start_ms > chunkSeconds * 1000;
+
+    if (current.length > 0 && (exceedsTokens || exceedsTime)) flush();
+
+    current.push(segment);
+    currentTokens += tokens;
+  }
+
+  flush();
+  return chunks;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function formatPartials(partials: PartialSummary[]): string {
+  return partials
+    .map((partial) => `[${formatTimestamp(partial.startMs)}–${formatTimestamp(partial.endMs)}]\n${partial.summary}`)
+    .join('\n\n');
+}
+
+// Groups partials so each group's combined text fits in one reduce prompt
+function groupPartials(partials: PartialSummary[], budget: number): PartialSummary[][] {
+  const groups: PartialSummary[][] = [];
+  let group: PartialSummary[] = [];
+  let tokens = 0;
+
+  for (const partial of partials) {
+    const partialTokens = estimateTokens(partial.summary) + 8;
+    if (group.length > 1 && tokens + partialTokens > budget) {
+      groups.push(group);
+      group = [];
+      tokens = 0;
+    }
+    group.push(partial);
+    tokens += partialTokens;
+  }
+
+  if (group.length > 0) groups.push(group);
+  return groups;
+}
+
+export async function summarizeTranscript(
+  segments: TranscriptSegment[],
+  title: string,
+  style: SummaryStyle,
+  complete: ChatCompletionFn,
+  config: SummarizerConfig,
+  hooks: SummarizeHooks = {}
+): Promise<{ structured: StructuredSummary; partials: PartialSummary[] }> {
+  const chunks = chunkTranscript(segments, config);
+  console.log('Transcript split into chunks:', chunks.length);
+  hooks.onChunksPlanned?.(chunks.length);
+
+  // Short transcripts fit in a single prompt and skip the map step entirely
+  if (chunks.length <= 1) {
+    hooks.onReduce?.();
+    const structured = await summarizeText(segmentsToTimedText(segments), title, style, complete, hooks);
+    const partials = chunks.map((chunk) => ({ startMs: chunk.startMs, endMs: chunk.endMs, summary: structured.tldr }));
+    return { structured, partials };
+  }
+
+  let completed = 0;
+  const partials = await mapWithConcurrency(chunks, config.concurrency, async (chunk, index) => {
+    const summary = await complete(
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `${config.mapPrompt}
+
+Video Title: ${title}
+Section ${index + 1} of ${chunks.length} (${formatTimestamp(chunk.startMs)}–${formatTimestamp(chunk.endMs)})
+
+Transcript: ${chunk.text}`,
+        },
+      ],
+      { temperature: 0.3, maxTokens: 600 }
+    );
+    console.log(`Chunk ${index + 1}/${chunks.length} summarized`);
+    hooks.onChunkSummarized?.(++completed, chunks.length);
+    return { startMs: chunk.startMs, endMs: chunk.endMs, summary };
+  });
+
+  hooks.onReduce?.();
+  const structured = await reducePartials(partials, title, style, complete, config, hooks);
+  return { structured, partials };
+}
+
+async function reducePartials(
+  partials: PartialSummary[],
+  title: string,
+  style: SummaryStyle,
+  complete: ChatCompletionFn,
+  config: SummarizerConfig,
+  hooks: SummarizeHooks
+): Promise<StructuredSummary> {
+  const groups = groupPartials(partials, config.chunkTokens);
+
+  // Too many partials for one prompt: merge neighbours first and reduce again.
+  // Merges combine summaries like the final reduce, but stay plain text.
+  if (groups.length > 1) {
+    const merged = await mapWithConcurrency(groups, config.concurrency, async (group) => ({
+      startMs: group[0].startMs,
+      endMs: group[group.length - 1].endMs,
+      summary: await complete(buildReduceMessages(group, title, config.reducePrompt), {
+        temperature: 0.3,
+        maxTokens: 800,
+      }),
+    }));
+    return reducePartials(merged, title, style, complete, config, hooks);
+  }
+
+  return completeStructured(
+    buildReduceMessages(partials, title, `${config.reducePrompt}\n\n${styleGuidance(style)}`),
+    complete,
+    { temperature: 0.5, maxTokens: style.maxTokens, onToken: hooks.onToken },
+    hooks.onRetry
+  );
+}
+
+function buildReduceMessages(partials: PartialSummary[], title: string, instructions: string): ChatMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `${instructions}
+
+Video Title: ${title}
+
+Section summaries:
+${formatPartials(partials)}`,
+    },
+  ];
+}
+
+export async function summarizeText(
+  transcript: string,
+  title: string,
+  style: SummaryStyle,
+  complete: ChatCompletionFn,
+  hooks: SummarizeHooks = {}
+): Promise<StructuredSummary> {
+  return completeStructured(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Please summarize the following video transcript. 
+
+Video Title: ${title}
+
+Transcript: ${transcript}
+
+${styleGuidance(style)}`,
+      },
+    ],
+    complete,
+    { maxTokens: style.maxTokens, onToken: hooks.onToken },
+    hooks.onRetry
+  );
+}
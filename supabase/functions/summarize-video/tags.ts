@@ -0,0 +1,18 @@
+// Tag suggestions come from the topics the model picked out of the video.
+// Topics that match an existing workspace tag reuse its spelling, so
+// accepting the suggestion does not create a near-duplicate tag.
+export function suggestTags(topics: string[], existingTags: string[], limit = 5): string[] {
+  const existing = new Map(existingTags.map((name) => [name.toLowerCase(), name]));
+  const suggestions = new Map<string, string>();
+
+  for (const topic of topics) {
+    const name = topic.trim().replace(/\s+/g, ' ');
+    if (!name || name.length > 50) continue;
+
+    const key = name.toLowerCase();
+    if (!suggestions.has(key)) suggestions.set(key, existing.get(key) ?? name);
+    if (suggestions.size === limit) break;
+  }
+
+  return [...suggestions.values()];
+}
@@ -0,0 +1,14 @@
+import type { TranscriptSegment } from '../_shared/transcript.ts';
+
+// Back-to-back transcript segments of 30 seconds each. The default text is
+// 10 estimated tokens per segment and carries its zero-padded index.
+export function segments(
+  count: number,
+  text: (index: number) => string = (index) => `segment ${String(index).padStart(2, '0')} ${'x'.repeat(25)}`
+): TranscriptSegment[] {
+  return Array.from({ length: count }, (_, index) => ({
+    start_ms: index * 30_000,
+    duration_ms: 30_000,
+    text: text(index),
+  }));
+}
@@ -0,0 +1,38 @@
+import type { StructuredSummary } from '../_shared/schema.ts';
+
+// Sections of a structured summary that are edited and regenerated as a unit.
+// Mirrored in src/lib/summaryVersions.ts.
+export const SUMMARY_SECTIONS = ['tldr', 'key_points', 'takeaways', 'action_items', 'topics'] as const;
+
+export type SummarySection = (typeof SUMMARY_SECTIONS)[number];
+
+// Only human-edited sections are listed; anything missing was written by the AI
+export type SectionAuthors = Partial<Record<SummarySection, 'human'>>;
+
+export function humanSections(value: unknown): SectionAuthors {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const authors: SectionAuthors = {};
+  for (const section of SUMMARY_SECTIONS) {
+    if ((value as Record<string, unknown>)[section] === 'human') authors[section] = 'human';
+  }
+  return authors;
+}
+
+// Takes the fresh summary but keeps every section a person has edited, so
+// regenerating does not undo their fixes. Summaries from before structured
+// output have no sections to keep and are replaced as a whole.
+export function mergeRegeneratedSummary(
+  previous: StructuredSummary | null,
+  authors: SectionAuthors,
+  fresh: StructuredSummary
+): { structured: StructuredSummary; authors: SectionAuthors } {
+  if (!previous) return { structured: fresh, authors: {} };
+
+  const structured = { ...fresh };
+  for (const section of SUMMARY_SECTIONS) {
+    if (authors[section] === 'human') {
+      (structured as Record<SummarySection, unknown>)[section] = previous[section];
+    }
+  }
+  return { structured, authors };
+}
@@ -0,0 +1,19 @@
+-- Create transcripts table for storing timed caption segments of each summary
+CREATE TABLE public.transcripts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id UUID NOT NULL REFERENCES public.summaries(id) ON DELETE CASCADE,
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transcripts ENABLE ROW LEVEL SECURITY;
+
+-- Transcripts are readable wherever their summary is (public app)
+CREATE POLICY "Anyone can view transcripts"
+  ON public.transcripts
+  FOR SELECT
+  USING (true);
+
+-- One transcript per summary, looked up by summary_id
+CREATE UNIQUE INDEX idx_transcripts_summary_id ON public.transcripts(summary_id);
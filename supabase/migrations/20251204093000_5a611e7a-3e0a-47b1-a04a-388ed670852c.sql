@@ -0,0 +1,3 @@
+-- Record which caption track language each summary was generated from
+ALTER TABLE public.summaries
+  ADD COLUMN transcript_language TEXT;
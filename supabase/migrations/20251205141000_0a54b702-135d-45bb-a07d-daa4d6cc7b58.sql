@@ -0,0 +1,6 @@
+-- Record which prompt template produced each summary
+ALTER TABLE public.summaries
+  ADD COLUMN style TEXT NOT NULL DEFAULT 'standard';
+
+-- Summaries of the same video are listed together to switch between styles
+CREATE INDEX idx_summaries_video_url_style ON public.summaries(video_url, style);
@@ -0,0 +1,4 @@
+-- Store the validated structured summary alongside the plain-text rendering.
+-- Rows created before this column existed keep NULL and fall back to summary.
+ALTER TABLE public.summaries
+  ADD COLUMN structured_summary JSONB;
@@ -0,0 +1,15 @@
+-- Normalized YouTube video ID, used to find existing summaries of the same video
+ALTER TABLE public.summaries
+  ADD COLUMN video_id TEXT;
+
+-- Backfill from the stored URLs using the same shapes extractVideoId accepts
+UPDATE public.summaries
+SET video_id = COALESCE(
+  substring(video_url FROM '(?:youtube\.com/watch\?v=|youtu\.be/|youtube\.com/embed/)([^&?#\s]+)'),
+  substring(video_url FROM '^([a-zA-Z0-9_-]{11})$')
+)
+WHERE video_id IS NULL;
+
+-- Cache lookups match on video, style and caption language
+CREATE INDEX idx_summaries_video_id_style_language
+  ON public.summaries(video_id, style, transcript_language, created_at DESC);
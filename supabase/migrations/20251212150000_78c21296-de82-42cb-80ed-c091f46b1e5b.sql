@@ -0,0 +1,43 @@
+-- Summaries belong to the user who created them and are private unless shared
+ALTER TABLE public.summaries
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  ADD COLUMN is_shared BOOLEAN NOT NULL DEFAULT false;
+
+-- Rows created before accounts existed have no owner; keep their share links working
+UPDATE public.summaries SET is_shared = true WHERE user_id IS NULL;
+
+CREATE INDEX idx_summaries_user_id_created_at ON public.summaries(user_id, created_at DESC);
+
+-- Replace the public policies with owner-based ones
+DROP POLICY "Anyone can view summaries" ON public.summaries;
+DROP POLICY "Anyone can create summaries" ON public.summaries;
+
+CREATE POLICY "Users can view their own summaries"
+  ON public.summaries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Anyone can view shared summaries"
+  ON public.summaries
+  FOR SELECT
+  USING (is_shared);
+
+-- Owners can share their summaries; inserts go through the edge function
+CREATE POLICY "Users can update their own summaries"
+  ON public.summaries
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Transcripts are readable exactly when their summary is
+DROP POLICY "Anyone can view transcripts" ON public.transcripts;
+
+CREATE POLICY "Transcripts follow summary visibility"
+  ON public.transcripts
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = transcripts.summary_id
+    )
+  );
@@ -0,0 +1,29 @@
+-- Which provider a summary's transcript came from; video_id is unique per provider
+ALTER TABLE public.summaries
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'youtube';
+
+DROP INDEX public.idx_summaries_video_id_style_language;
+
+CREATE INDEX idx_summaries_source_video_id_style_language
+  ON public.summaries(source, video_id, style, transcript_language, created_at DESC);
+
+-- Private bucket for subtitle files uploaded by users, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('subtitles', 'subtitles', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own subtitle files"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'subtitles'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can read their own subtitle files"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'subtitles'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
@@ -0,0 +1,31 @@
+-- Channel or uploader of the summarized video, used to filter the history page
+ALTER TABLE public.summaries
+  ADD COLUMN channel_name TEXT;
+
+CREATE INDEX idx_summaries_channel_name ON public.summaries(channel_name);
+
+-- Full-text search over title and summary; titles rank above body text
+ALTER TABLE public.summaries
+  ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(video_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(summary, '')), 'B')
+  ) STORED;
+
+CREATE INDEX idx_summaries_search_vector ON public.summaries USING GIN (search_vector);
+
+-- Distinct channels the caller can see, for the history filter. Runs with the
+-- caller's rights so RLS limits it to their own and shared summaries.
+CREATE OR REPLACE FUNCTION public.summary_channels()
+RETURNS TABLE (channel_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT DISTINCT s.channel_name
+  FROM public.summaries s
+  WHERE s.channel_name IS NOT NULL
+    AND s.user_id = auth.uid()
+  ORDER BY s.channel_name;
+$$;
@@ -0,0 +1,48 @@
+-- Follow-up question threads about a summary; each belongs to the user asking
+CREATE TABLE public.chat_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id UUID NOT NULL REFERENCES public.summaries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Questions and answers; citations are start offsets (ms) of transcript lines
+CREATE TABLE public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES public.chat_threads(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  grounded BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_chat_threads_summary_user ON public.chat_threads(summary_id, user_id, updated_at DESC);
+CREATE INDEX idx_chat_messages_thread_created ON public.chat_messages(thread_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Threads are private to their author; messages are written by the edge function
+CREATE POLICY "Users can view their own chat threads"
+  ON public.chat_threads
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat threads"
+  ON public.chat_threads
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Chat messages follow thread visibility"
+  ON public.chat_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chat_threads
+      WHERE chat_threads.id = chat_messages.thread_id
+    )
+  );
@@ -0,0 +1,80 @@
+-- Vector similarity search for summaries and transcript passages
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- One row per embedded summary or transcript passage. Passages carry the time
+-- range they cover; the model column keeps vectors of different models apart.
+CREATE TABLE public.summary_embeddings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id UUID NOT NULL REFERENCES public.summaries(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('summary', 'passage')),
+  start_ms INTEGER,
+  end_ms INTEGER,
+  content TEXT NOT NULL,
+  model TEXT NOT NULL,
+  embedding extensions.vector(768) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_summary_embeddings_summary_model ON public.summary_embeddings(summary_id, model);
+
+-- Approximate nearest-neighbour index for cosine distance
+CREATE INDEX idx_summary_embeddings_embedding
+  ON public.summary_embeddings USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Enable Row Level Security
+ALTER TABLE public.summary_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Embeddings are readable exactly when their summary is; the edge function writes them
+CREATE POLICY "Embeddings follow summary visibility"
+  ON public.summary_embeddings
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_embeddings.summary_id
+    )
+  );
+
+-- Closest summaries and passages in the caller's own library
+CREATE OR REPLACE FUNCTION public.match_summary_embeddings(
+  query_embedding extensions.vector(768),
+  embedding_model TEXT,
+  match_count INTEGER DEFAULT 50,
+  min_similarity DOUBLE PRECISION DEFAULT 0.25
+)
+RETURNS TABLE (
+  summary_id UUID,
+  kind TEXT,
+  start_ms INTEGER,
+  end_ms INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION,
+  video_title TEXT,
+  video_url TEXT,
+  channel_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    e.summary_id,
+    e.kind,
+    e.start_ms,
+    e.end_ms,
+    e.content,
+    1 - (e.embedding <=> query_embedding) AS similarity,
+    s.video_title,
+    s.video_url,
+    s.channel_name,
+    s.created_at
+  FROM public.summary_embeddings e
+  JOIN public.summaries s ON s.id = e.summary_id
+  WHERE e.model = embedding_model
+    AND s.user_id = auth.uid()
+    AND 1 - (e.embedding <=> query_embedding) >= min_similarity
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,60 @@
+-- A YouTube playlist or channel submitted for summarization as a whole
+CREATE TABLE public.summary_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_url TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('playlist', 'channel')),
+  title TEXT NOT NULL,
+  style TEXT NOT NULL DEFAULT 'standard',
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'summarizing', 'succeeded', 'failed')),
+  error TEXT,
+  -- The collection had more videos than were queued
+  truncated BOOLEAN NOT NULL DEFAULT false,
+  series_summary TEXT,
+  structured_series_summary JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- One row per video of a batch, worked through in playlist order
+CREATE TABLE public.summary_batch_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES public.summary_batches(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  video_id TEXT NOT NULL,
+  video_url TEXT NOT NULL,
+  video_title TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  summary_id UUID REFERENCES public.summaries(id) ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_summary_batches_user_created ON public.summary_batches(user_id, created_at DESC);
+CREATE INDEX idx_summary_batch_items_batch_status ON public.summary_batch_items(batch_id, status, position);
+
+-- Enable Row Level Security
+ALTER TABLE public.summary_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.summary_batch_items ENABLE ROW LEVEL SECURITY;
+
+-- Batches are private to their owner; the edge function creates and updates them
+CREATE POLICY "Users can view their own batches"
+  ON public.summary_batches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own batches"
+  ON public.summary_batches
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Batch items follow batch visibility"
+  ON public.summary_batch_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summary_batches
+      WHERE summary_batches.id = summary_batch_items.batch_id
+    )
+  );
@@ -0,0 +1,103 @@
+-- Durable queue for summarization work. Jobs outlive the request that created
+-- them; failed attempts are retried with backoff until max_attempts.
+CREATE TABLE public.jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'summarize_video',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  payload JSONB NOT NULL,
+  result JSONB,
+  summary_id UUID REFERENCES public.summaries(id) ON DELETE SET NULL,
+  batch_item_id UUID REFERENCES public.summary_batch_items(id) ON DELETE CASCADE,
+  -- Latest progress reported by the worker
+  stage TEXT,
+  progress INTEGER NOT NULL DEFAULT 0,
+  message TEXT,
+  partial_output TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  -- Not picked up before this time; pushed back after a failed attempt
+  run_after TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  -- Refreshed by the worker while it runs the job
+  locked_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_jobs_status_run_after ON public.jobs(status, run_after);
+CREATE INDEX idx_jobs_user_created ON public.jobs(user_id, created_at DESC);
+CREATE INDEX idx_jobs_batch_item ON public.jobs(batch_item_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users follow their own jobs; only the edge function creates and updates them
+CREATE POLICY "Users can view their own jobs"
+  ON public.jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Hands the next due job to a worker. SKIP LOCKED lets several workers poll
+-- at once without taking the same job; running jobs whose worker went silent
+-- are handed out again.
+CREATE OR REPLACE FUNCTION public.claim_next_job(stale_after_seconds INTEGER DEFAULT 900)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_id UUID;
+BEGIN
+  SELECT id INTO next_id
+  FROM public.jobs
+  WHERE (status = 'queued' AND run_after <= now())
+     OR (status = 'running' AND locked_at < now() - make_interval(secs => stale_after_seconds))
+  ORDER BY run_after
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF next_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  WHERE id = next_id
+  RETURNING *;
+END;
+$$;
+
+-- Only the service role runs workers
+REVOKE EXECUTE ON FUNCTION public.claim_next_job(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Wake the worker every minute so retries and jobs left behind by a crashed
+-- worker are picked up even when nobody is enqueueing. Reads the project URL
+-- and service role key from Vault secrets named project_url and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'summarize-video-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/summarize-video',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "work"}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE (status = 'queued' AND run_after <= now()) OR status = 'running'
+  );
+  $$
+);
@@ -0,0 +1,6 @@
+-- Broadcast row changes to subscribed clients. Realtime applies each table's
+-- RLS policies, so subscribers only receive rows they are allowed to read.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.summaries;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.summary_batches;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.summary_batch_items;
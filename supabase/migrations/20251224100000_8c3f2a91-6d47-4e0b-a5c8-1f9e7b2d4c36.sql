@@ -0,0 +1,326 @@
+-- Workspaces group summaries into a library shared by their members
+CREATE TABLE public.workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Owners manage the workspace, editors add and change summaries, viewers read
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- Links that add whoever opens them to a workspace with the given role
+CREATE TABLE public.workspace_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('editor', 'viewer')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT now() + INTERVAL '7 days' NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_workspace_members_user ON public.workspace_members(user_id);
+CREATE INDEX idx_workspace_invites_workspace ON public.workspace_invites(workspace_id, created_at DESC);
+
+-- Summaries and batches belong to a workspace
+ALTER TABLE public.summaries
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.summary_batches
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_summaries_workspace_created ON public.summaries(workspace_id, created_at DESC);
+CREATE INDEX idx_summary_batches_workspace_created ON public.summary_batches(workspace_id, created_at DESC);
+
+-- Whether the caller has at least the given role in a workspace. SECURITY
+-- DEFINER so policies on workspace_members can use it without recursing.
+CREATE OR REPLACE FUNCTION public.has_workspace_role(ws UUID, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members m
+    WHERE m.workspace_id = ws
+      AND m.user_id = auth.uid()
+      AND array_position(ARRAY['viewer', 'editor', 'owner'], m.role)
+        >= array_position(ARRAY['viewer', 'editor', 'owner'], min_role)
+  );
+$$;
+
+-- Every account starts with a personal workspace it owns
+CREATE OR REPLACE FUNCTION public.create_personal_workspace(owner_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO public.workspaces (name, created_by) VALUES ('Personal', owner_id) RETURNING id INTO new_id;
+  INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES (new_id, owner_id, 'owner');
+  RETURN new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_personal_workspace(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_personal_workspace(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_workspace
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user_workspace();
+
+-- Existing accounts get their personal workspace, which takes over their library
+DO $$
+DECLARE
+  account RECORD;
+  personal_id UUID;
+BEGIN
+  FOR account IN SELECT id FROM auth.users LOOP
+    personal_id := public.create_personal_workspace(account.id);
+    UPDATE public.summaries SET workspace_id = personal_id WHERE user_id = account.id;
+    UPDATE public.summary_batches SET workspace_id = personal_id WHERE user_id = account.id;
+  END LOOP;
+END;
+$$;
+
+-- Creates a workspace with the caller as its owner
+CREATE OR REPLACE FUNCTION public.create_workspace(workspace_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a workspace';
+  END IF;
+  IF coalesce(trim(workspace_name), '') = '' THEN
+    RAISE EXCEPTION 'Workspace name is required';
+  END IF;
+
+  INSERT INTO public.workspaces (name, created_by) VALUES (trim(workspace_name), auth.uid()) RETURNING id INTO new_id;
+  INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES (new_id, auth.uid(), 'owner');
+  RETURN new_id;
+END;
+$$;
+
+-- Joins the workspace of an unexpired invite. Existing members keep their role.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invite(invite_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept the invite';
+  END IF;
+
+  SELECT workspace_id, role, expires_at INTO invite
+  FROM public.workspace_invites
+  WHERE token = invite_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite link is invalid or was revoked';
+  END IF;
+  IF invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite link has expired';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invite.workspace_id, auth.uid(), invite.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  RETURN invite.workspace_id;
+END;
+$$;
+
+-- Members of a workspace with their email addresses, which only the auth
+-- schema holds. Returns nothing to callers outside the workspace.
+CREATE OR REPLACE FUNCTION public.workspace_member_list(target_workspace UUID)
+RETURNS TABLE (user_id UUID, email TEXT, role TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, u.email::TEXT, m.role, m.created_at
+  FROM public.workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.workspace_id = target_workspace
+    AND public.has_workspace_role(target_workspace)
+  ORDER BY m.created_at;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+  ON public.workspaces
+  FOR SELECT
+  USING (public.has_workspace_role(id));
+
+CREATE POLICY "Owners can update their workspaces"
+  ON public.workspaces
+  FOR UPDATE
+  USING (public.has_workspace_role(id, 'owner'))
+  WITH CHECK (public.has_workspace_role(id, 'owner'));
+
+CREATE POLICY "Owners can delete their workspaces"
+  ON public.workspaces
+  FOR DELETE
+  USING (public.has_workspace_role(id, 'owner'));
+
+CREATE POLICY "Members can view fellow members"
+  ON public.workspace_members
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+-- Owners cannot change or remove themselves, so a workspace always keeps one
+CREATE POLICY "Owners can change other members' roles"
+  ON public.workspace_members
+  FOR UPDATE
+  USING (public.has_workspace_role(workspace_id, 'owner') AND user_id <> auth.uid())
+  WITH CHECK (public.has_workspace_role(workspace_id, 'owner') AND user_id <> auth.uid());
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON public.workspace_members
+  FOR DELETE
+  USING (
+    (public.has_workspace_role(workspace_id, 'owner') AND user_id <> auth.uid())
+    OR (user_id = auth.uid() AND role <> 'owner')
+  );
+
+CREATE POLICY "Owners can view invites"
+  ON public.workspace_invites
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can create invites"
+  ON public.workspace_invites
+  FOR INSERT
+  WITH CHECK (public.has_workspace_role(workspace_id, 'owner') AND created_by = auth.uid());
+
+CREATE POLICY "Owners can revoke invites"
+  ON public.workspace_invites
+  FOR DELETE
+  USING (public.has_workspace_role(workspace_id, 'owner'));
+
+-- Summaries are visible to every member of their workspace and editable by editors
+DROP POLICY "Users can view their own summaries" ON public.summaries;
+DROP POLICY "Users can update their own summaries" ON public.summaries;
+
+CREATE POLICY "Members can view workspace summaries"
+  ON public.summaries
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can update workspace summaries"
+  ON public.summaries
+  FOR UPDATE
+  USING (public.has_workspace_role(workspace_id, 'editor'))
+  WITH CHECK (public.has_workspace_role(workspace_id, 'editor'));
+
+DROP POLICY "Users can view their own batches" ON public.summary_batches;
+DROP POLICY "Users can delete their own batches" ON public.summary_batches;
+
+CREATE POLICY "Members can view workspace batches"
+  ON public.summary_batches
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can delete workspace batches"
+  ON public.summary_batches
+  FOR DELETE
+  USING (public.has_workspace_role(workspace_id, 'editor'));
+
+-- Channels and semantic matches now come from one workspace's library
+DROP FUNCTION public.summary_channels();
+
+CREATE OR REPLACE FUNCTION public.summary_channels(target_workspace UUID)
+RETURNS TABLE (channel_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT DISTINCT s.channel_name
+  FROM public.summaries s
+  WHERE s.channel_name IS NOT NULL
+    AND s.workspace_id = target_workspace
+  ORDER BY s.channel_name;
+$$;
+
+DROP FUNCTION public.match_summary_embeddings(extensions.vector, TEXT, INTEGER, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.match_summary_embeddings(
+  query_embedding extensions.vector(768),
+  embedding_model TEXT,
+  target_workspace UUID,
+  match_count INTEGER DEFAULT 50,
+  min_similarity DOUBLE PRECISION DEFAULT 0.25
+)
+RETURNS TABLE (
+  summary_id UUID,
+  kind TEXT,
+  start_ms INTEGER,
+  end_ms INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION,
+  video_title TEXT,
+  video_url TEXT,
+  channel_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    e.summary_id,
+    e.kind,
+    e.start_ms,
+    e.end_ms,
+    e.content,
+    1 - (e.embedding <=> query_embedding) AS similarity,
+    s.video_title,
+    s.video_url,
+    s.channel_name,
+    s.created_at
+  FROM public.summary_embeddings e
+  JOIN public.summaries s ON s.id = e.summary_id
+  WHERE e.model = embedding_model
+    AND s.workspace_id = target_workspace
+    AND 1 - (e.embedding <=> query_embedding) >= min_similarity
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,177 @@
+-- Share links use their own random token instead of the summary ID, and each
+-- one carries its own visibility, expiry and revocation
+CREATE TABLE public.summary_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id UUID NOT NULL REFERENCES public.summaries(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(18), 'hex'),
+  -- public: anyone, indexable; unlisted: anyone with the link; workspace:
+  -- members only; password: anyone who knows the password
+  visibility TEXT NOT NULL DEFAULT 'unlisted' CHECK (visibility IN ('public', 'unlisted', 'workspace', 'password')),
+  password_hash TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  -- Shares migrated from ID-based links: until then the old /share/<summary id>
+  -- URL opens them as well. Null for every link created with a token.
+  legacy_until TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CHECK (visibility <> 'password' OR password_hash IS NOT NULL)
+);
+
+CREATE INDEX idx_summary_shares_summary ON public.summary_shares(summary_id, created_at DESC);
+
+-- Links handed out before tokens existed become unlisted shares with a random
+-- token. Their old ID-based URL keeps working for 30 days so the people who
+-- have it can ask for a new link; revoking the share ends it sooner.
+INSERT INTO public.summary_shares (summary_id, visibility, created_by, legacy_until)
+SELECT id, 'unlisted', user_id, now() + INTERVAL '30 days' FROM public.summaries WHERE is_shared;
+
+-- Shared summaries are no longer readable by anyone who knows their ID
+DROP POLICY "Anyone can view shared summaries" ON public.summaries;
+ALTER TABLE public.summaries DROP COLUMN is_shared;
+
+ALTER TABLE public.summary_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shares follow summary visibility"
+  ON public.summary_shares
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_shares.summary_id
+    )
+  );
+
+CREATE POLICY "Editors can revoke and extend shares"
+  ON public.summary_shares
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_shares.summary_id
+        AND public.has_workspace_role(summaries.workspace_id, 'editor')
+    )
+  );
+
+-- Password hashes never leave the database, and only expiry and revocation
+-- can change once a link exists
+REVOKE SELECT, UPDATE ON public.summary_shares FROM anon, authenticated;
+GRANT SELECT (id, summary_id, token, visibility, expires_at, revoked_at, view_count, last_viewed_at, legacy_until, created_by, created_at)
+  ON public.summary_shares TO authenticated;
+GRANT UPDATE (expires_at, revoked_at) ON public.summary_shares TO authenticated;
+
+-- Creates a share link, hashing its password. Returns the token.
+CREATE OR REPLACE FUNCTION public.create_summary_share(
+  target_summary UUID,
+  share_visibility TEXT,
+  share_password TEXT DEFAULT NULL,
+  share_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  target_workspace UUID;
+  new_token TEXT;
+BEGIN
+  SELECT workspace_id INTO target_workspace FROM public.summaries WHERE id = target_summary;
+
+  IF target_workspace IS NULL OR NOT public.has_workspace_role(target_workspace, 'editor') THEN
+    RAISE EXCEPTION 'You need editor access to share this summary';
+  END IF;
+  IF share_visibility = 'password' AND coalesce(share_password, '') = '' THEN
+    RAISE EXCEPTION 'Password-protected links need a password';
+  END IF;
+
+  INSERT INTO public.summary_shares (summary_id, visibility, password_hash, expires_at, created_by)
+  VALUES (
+    target_summary,
+    share_visibility,
+    CASE WHEN share_visibility = 'password' THEN crypt(share_password, gen_salt('bf')) END,
+    share_expires_at,
+    auth.uid()
+  )
+  RETURNING token INTO new_token;
+
+  RETURN new_token;
+END;
+$$;
+
+-- Looks up a share link for the share page. The status tells the page what to
+-- show: ok, not_found, revoked, expired, sign_in_required, forbidden,
+-- password_required or wrong_password. Successful views are counted unless
+-- count_view is false, as when the page checks an open link for changes.
+-- member tells the page whether the viewer can read the summary directly.
+CREATE OR REPLACE FUNCTION public.resolve_share(
+  share_token TEXT,
+  share_password TEXT DEFAULT NULL,
+  count_view BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  found_share RECORD;
+  shared_summary RECORD;
+BEGIN
+  SELECT * INTO found_share FROM public.summary_shares WHERE token = share_token;
+
+  -- Old /share/<summary id> URLs open the share migrated from them for a while
+  IF NOT FOUND THEN
+    SELECT * INTO found_share
+    FROM public.summary_shares
+    WHERE legacy_until > now() AND summary_id::TEXT = share_token;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+  IF found_share.revoked_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'revoked');
+  END IF;
+  IF found_share.expires_at IS NOT NULL AND found_share.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired', 'expires_at', found_share.expires_at);
+  END IF;
+
+  SELECT * INTO shared_summary FROM public.summaries WHERE id = found_share.summary_id;
+
+  IF found_share.visibility = 'workspace' AND NOT public.has_workspace_role(shared_summary.workspace_id) THEN
+    RETURN jsonb_build_object('status', CASE WHEN auth.uid() IS NULL THEN 'sign_in_required' ELSE 'forbidden' END);
+  END IF;
+  IF found_share.visibility = 'password' THEN
+    IF share_password IS NULL THEN
+      RETURN jsonb_build_object('status', 'password_required');
+    END IF;
+    IF crypt(share_password, found_share.password_hash) <> found_share.password_hash THEN
+      RETURN jsonb_build_object('status', 'wrong_password');
+    END IF;
+  END IF;
+
+  IF count_view THEN
+    UPDATE public.summary_shares
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = found_share.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'visibility', found_share.visibility,
+    'member', public.has_workspace_role(shared_summary.workspace_id),
+    'summary', jsonb_build_object(
+      'id', shared_summary.id,
+      'video_url', shared_summary.video_url,
+      'video_title', shared_summary.video_title,
+      'summary', shared_summary.summary,
+      'structured_summary', shared_summary.structured_summary,
+      'created_at', shared_summary.created_at
+    ),
+    'transcript', (SELECT t.segments FROM public.transcripts t WHERE t.summary_id = shared_summary.id)
+  );
+END;
+$$;
@@ -0,0 +1,104 @@
+-- Summaries can be edited after they are generated. Every change to the
+-- content is kept as a numbered version that can be compared and restored.
+ALTER TABLE public.summaries
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  -- Sections a person has edited, e.g. {"tldr": "human"}. Regenerating a
+  -- summary leaves these sections alone; everything else is written by the AI.
+  ADD COLUMN section_authors JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- How the current version came about
+  ADD COLUMN revision_kind TEXT NOT NULL DEFAULT 'generated'
+    CHECK (revision_kind IN ('generated', 'edited', 'regenerated', 'restored')),
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL;
+
+UPDATE public.summaries SET updated_at = created_at, updated_by = user_id;
+
+CREATE TABLE public.summary_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id UUID NOT NULL REFERENCES public.summaries(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('generated', 'edited', 'regenerated', 'restored')),
+  summary TEXT NOT NULL,
+  structured_summary JSONB,
+  section_authors JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (summary_id, version)
+);
+
+-- Existing summaries start their history at the version they were generated as
+INSERT INTO public.summary_versions (summary_id, version, kind, summary, structured_summary, created_by, created_at)
+SELECT id, 1, 'generated', summary, structured_summary, user_id, created_at FROM public.summaries;
+
+ALTER TABLE public.summary_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the trigger below, never directly
+CREATE POLICY "Versions follow summary visibility"
+  ON public.summary_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_versions.summary_id
+    )
+  );
+
+-- Numbers a content change as the next version. The version cannot be set by
+-- hand, so clients can use it to detect concurrent edits.
+CREATE OR REPLACE FUNCTION public.bump_summary_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.summary IS DISTINCT FROM OLD.summary
+    OR NEW.structured_summary IS DISTINCT FROM OLD.structured_summary
+    OR NEW.section_authors IS DISTINCT FROM OLD.section_authors THEN
+    NEW.version := OLD.version + 1;
+    NEW.updated_at := now();
+    NEW.updated_by := coalesce(auth.uid(), NEW.updated_by);
+  ELSE
+    NEW.version := OLD.version;
+    NEW.revision_kind := OLD.revision_kind;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_summary_version
+  BEFORE UPDATE ON public.summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_summary_version();
+
+-- Snapshots each version of a summary into its history
+CREATE OR REPLACE FUNCTION public.record_summary_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.summary_versions (summary_id, version, kind, summary, structured_summary, section_authors, created_by)
+  VALUES (
+    NEW.id,
+    NEW.version,
+    NEW.revision_kind,
+    NEW.summary,
+    NEW.structured_summary,
+    NEW.section_authors,
+    coalesce(NEW.updated_by, NEW.user_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_summary_version
+  AFTER INSERT OR UPDATE ON public.summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_summary_version();
+
+CREATE INDEX idx_summary_versions_summary ON public.summary_versions(summary_id, version DESC);
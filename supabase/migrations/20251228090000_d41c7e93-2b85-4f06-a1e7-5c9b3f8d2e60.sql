@@ -0,0 +1,363 @@
+-- Tags label summaries within a workspace; names are unique ignoring case
+CREATE TABLE public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 50),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_tags_workspace_name ON public.tags(workspace_id, lower(name));
+
+CREATE TABLE public.summary_tags (
+  summary_id UUID NOT NULL REFERENCES public.summaries(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  -- user: added by hand; ai: a suggestion from summarization that was accepted
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'ai')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (summary_id, tag_id)
+);
+
+CREATE INDEX idx_summary_tags_tag ON public.summary_tags(tag_id);
+
+-- Tags suggested by the AI while summarizing, offered to the user to accept
+ALTER TABLE public.summaries ADD COLUMN suggested_tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Collections nest like folders and hold any number of summaries
+CREATE TABLE public.collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.collections(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 100),
+  description TEXT,
+  -- Set while the collection has a public link, only by share_collection() and
+  -- unshare_collection() so the token is always random
+  share_token TEXT UNIQUE,
+  share_expires_at TIMESTAMP WITH TIME ZONE,
+  share_view_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX idx_collections_workspace ON public.collections(workspace_id, name);
+CREATE INDEX idx_collections_parent ON public.collections(parent_id);
+
+CREATE TABLE public.collection_summaries (
+  collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  summary_id UUID NOT NULL REFERENCES public.summaries(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (collection_id, summary_id)
+);
+
+CREATE INDEX idx_collection_summaries_summary ON public.collection_summaries(summary_id);
+
+-- A collection's parent must be in the same workspace, and moving a
+-- collection must not make it its own ancestor
+CREATE OR REPLACE FUNCTION public.check_collection_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.collections WHERE id = NEW.parent_id AND workspace_id = NEW.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'The parent collection belongs to another workspace';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.collections WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM public.collections c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A collection cannot be moved into itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_collection_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_collection_parent();
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.summary_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace tags"
+  ON public.tags
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can create workspace tags"
+  ON public.tags
+  FOR INSERT
+  WITH CHECK (public.has_workspace_role(workspace_id, 'editor') AND created_by = auth.uid());
+
+CREATE POLICY "Editors can rename workspace tags"
+  ON public.tags
+  FOR UPDATE
+  USING (public.has_workspace_role(workspace_id, 'editor'))
+  WITH CHECK (public.has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "Editors can delete workspace tags"
+  ON public.tags
+  FOR DELETE
+  USING (public.has_workspace_role(workspace_id, 'editor'));
+
+-- Tagging follows the summary: anyone who can see it sees its tags, and
+-- editors of its workspace can add tags from that same workspace
+CREATE POLICY "Summary tags follow summary visibility"
+  ON public.summary_tags
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_tags.summary_id
+    )
+  );
+
+CREATE POLICY "Editors can tag workspace summaries"
+  ON public.summary_tags
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      JOIN public.tags ON tags.id = summary_tags.tag_id AND tags.workspace_id = summaries.workspace_id
+      WHERE summaries.id = summary_tags.summary_id
+        AND public.has_workspace_role(summaries.workspace_id, 'editor')
+    )
+  );
+
+CREATE POLICY "Editors can untag workspace summaries"
+  ON public.summary_tags
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_tags.summary_id
+        AND public.has_workspace_role(summaries.workspace_id, 'editor')
+    )
+  );
+
+CREATE POLICY "Members can view workspace collections"
+  ON public.collections
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can create workspace collections"
+  ON public.collections
+  FOR INSERT
+  WITH CHECK (public.has_workspace_role(workspace_id, 'editor') AND created_by = auth.uid());
+
+CREATE POLICY "Editors can update workspace collections"
+  ON public.collections
+  FOR UPDATE
+  USING (public.has_workspace_role(workspace_id, 'editor'))
+  WITH CHECK (public.has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "Editors can delete workspace collections"
+  ON public.collections
+  FOR DELETE
+  USING (public.has_workspace_role(workspace_id, 'editor'));
+
+-- Editors change collections through these columns; the share link columns
+-- belong to the functions below
+REVOKE INSERT, UPDATE ON public.collections FROM anon, authenticated;
+GRANT INSERT (workspace_id, parent_id, name, description, created_by) ON public.collections TO authenticated;
+GRANT UPDATE (parent_id, name, description, updated_at) ON public.collections TO authenticated;
+
+CREATE POLICY "Members can view collection contents"
+  ON public.collection_summaries
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.collections
+      WHERE collections.id = collection_summaries.collection_id
+    )
+  );
+
+CREATE POLICY "Editors can add summaries to collections"
+  ON public.collection_summaries
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.collections
+      JOIN public.summaries ON summaries.id = collection_summaries.summary_id
+        AND summaries.workspace_id = collections.workspace_id
+      WHERE collections.id = collection_summaries.collection_id
+        AND public.has_workspace_role(collections.workspace_id, 'editor')
+    )
+  );
+
+CREATE POLICY "Editors can remove summaries from collections"
+  ON public.collection_summaries
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.collections
+      WHERE collections.id = collection_summaries.collection_id
+        AND public.has_workspace_role(collections.workspace_id, 'editor')
+    )
+  );
+
+-- Tags a summary by name, creating the tag in the summary's workspace the
+-- first time the name is used. Returns the tag ID.
+CREATE OR REPLACE FUNCTION public.tag_summary(target_summary UUID, tag_name TEXT, tag_source TEXT DEFAULT 'user')
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_workspace UUID;
+  found_tag UUID;
+BEGIN
+  SELECT workspace_id INTO target_workspace FROM public.summaries WHERE id = target_summary;
+
+  IF target_workspace IS NULL OR NOT public.has_workspace_role(target_workspace, 'editor') THEN
+    RAISE EXCEPTION 'You need editor access to tag this summary';
+  END IF;
+
+  INSERT INTO public.tags (workspace_id, name, created_by)
+  VALUES (target_workspace, trim(tag_name), auth.uid())
+  ON CONFLICT (workspace_id, lower(name)) DO NOTHING;
+
+  SELECT id INTO found_tag FROM public.tags
+  WHERE workspace_id = target_workspace AND lower(name) = lower(trim(tag_name));
+
+  INSERT INTO public.summary_tags (summary_id, tag_id, source, created_by)
+  VALUES (target_summary, found_tag, tag_source, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  RETURN found_tag;
+END;
+$$;
+
+-- Turns on a collection's public link, keeping the existing one if it has
+-- one, and sets when it expires. Returns the token.
+CREATE OR REPLACE FUNCTION public.share_collection(
+  target_collection UUID,
+  share_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  found_collection RECORD;
+  new_token TEXT;
+BEGIN
+  SELECT * INTO found_collection FROM public.collections WHERE id = target_collection;
+
+  IF NOT FOUND OR NOT public.has_workspace_role(found_collection.workspace_id, 'editor') THEN
+    RAISE EXCEPTION 'You need editor access to share this collection';
+  END IF;
+
+  UPDATE public.collections c
+  SET share_token = coalesce(c.share_token, encode(gen_random_bytes(18), 'hex')),
+    share_expires_at = share_collection.share_expires_at,
+    updated_at = now()
+  WHERE c.id = target_collection
+  RETURNING c.share_token INTO new_token;
+
+  RETURN new_token;
+END;
+$$;
+
+-- Turns a collection's public link off; sharing it again makes a new link
+CREATE OR REPLACE FUNCTION public.unshare_collection(target_collection UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE id = target_collection AND public.has_workspace_role(workspace_id, 'editor')
+  ) THEN
+    RAISE EXCEPTION 'You need editor access to change this collection';
+  END IF;
+
+  UPDATE public.collections
+  SET share_token = NULL, share_expires_at = NULL, share_view_count = 0, updated_at = now()
+  WHERE id = target_collection;
+END;
+$$;
+
+-- Everything the public collection page shows for a share link, or NULL when
+-- the link is unknown, turned off or expired. Views are counted. Only the
+-- summaries that have a live public or unlisted link of their own are listed,
+-- so workspace-only and password-protected summaries stay private; hidden_count
+-- says how many were left out. Nested collections are not included; each one
+-- has its own link.
+CREATE OR REPLACE FUNCTION public.resolve_collection_share(share_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found_collection RECORD;
+BEGIN
+  SELECT * INTO found_collection FROM public.collections c WHERE c.share_token = resolve_collection_share.share_token;
+
+  IF NOT FOUND OR (found_collection.share_expires_at IS NOT NULL AND found_collection.share_expires_at < now()) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.collections SET share_view_count = share_view_count + 1 WHERE id = found_collection.id;
+
+  RETURN (
+    WITH listed AS (
+      SELECT s.*, cs.created_at AS added_at,
+        EXISTS (
+          SELECT 1 FROM public.summary_shares ss
+          WHERE ss.summary_id = s.id
+            AND ss.visibility IN ('public', 'unlisted')
+            AND ss.revoked_at IS NULL
+            AND (ss.expires_at IS NULL OR ss.expires_at > now())
+        ) AS is_public
+      FROM public.collection_summaries cs
+      JOIN public.summaries s ON s.id = cs.summary_id
+      WHERE cs.collection_id = found_collection.id
+    )
+    SELECT jsonb_build_object(
+      'name', found_collection.name,
+      'description', found_collection.description,
+      'summaries', coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'id', listed.id,
+            'video_url', listed.video_url,
+            'video_title', listed.video_title,
+            'summary', listed.summary,
+            'structured_summary', listed.structured_summary,
+            'created_at', listed.created_at
+          )
+          ORDER BY listed.added_at
+        ) FILTER (WHERE listed.is_public),
+        '[]'::jsonb
+      ),
+      'hidden_count', count(*) FILTER (WHERE NOT listed.is_public)
+    )
+    FROM listed
+  );
+END;
+$$;
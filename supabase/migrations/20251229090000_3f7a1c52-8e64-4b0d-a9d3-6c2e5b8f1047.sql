@@ -0,0 +1,6 @@
+-- The provider and model that wrote each summary, as "provider:model", so a
+-- fallback to another vendor is visible afterwards
+ALTER TABLE public.summaries ADD COLUMN model TEXT;
+
+-- The model a batch was started with; its videos and its series summary use it
+ALTER TABLE public.summary_batches ADD COLUMN requested_model TEXT;
@@ -0,0 +1,90 @@
+-- One row per model call, priced when it was made so later price changes do
+-- not rewrite history. Written by the edge functions with the service role.
+CREATE TABLE public.ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  summary_id UUID REFERENCES public.summaries(id) ON DELETE SET NULL,
+  -- summary: summarizing a video; chat: answering a question; series: a batch's series summary
+  feature TEXT NOT NULL CHECK (feature IN ('summary', 'chat', 'series')),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  -- Null when the model has no entry in the price table
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_ai_usage_workspace_created ON public.ai_usage(workspace_id, created_at);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspace's usage"
+  ON public.ai_usage
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+-- Totals of the generation that wrote the summary's current content
+ALTER TABLE public.summaries
+  ADD COLUMN prompt_tokens INTEGER,
+  ADD COLUMN completion_tokens INTEGER,
+  ADD COLUMN latency_ms INTEGER,
+  ADD COLUMN cost_usd NUMERIC(12, 6);
+
+-- New jobs are refused once a month's spend reaches the budget; null means no limit
+ALTER TABLE public.workspaces
+  ADD COLUMN monthly_budget_usd NUMERIC(12, 2) CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0);
+
+-- Spend in the current calendar month (UTC). Runs with the caller's rights,
+-- so members only ever see their own workspaces' spend.
+CREATE OR REPLACE FUNCTION public.workspace_month_spend(target_workspace UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM public.ai_usage
+  WHERE workspace_id = target_workspace
+    AND created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$;
+
+-- Usage grouped by UTC day, user and model, for the usage dashboard. Grouping
+-- here keeps the result small however many calls a workspace makes.
+CREATE OR REPLACE FUNCTION public.workspace_usage(
+  target_workspace UUID,
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  day DATE,
+  user_id UUID,
+  provider TEXT,
+  model TEXT,
+  calls BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::DATE,
+    user_id,
+    provider,
+    model,
+    COUNT(*),
+    SUM(prompt_tokens),
+    SUM(completion_tokens),
+    COALESCE(SUM(cost_usd), 0)
+  FROM public.ai_usage
+  WHERE workspace_id = target_workspace
+    AND created_at >= period_start
+    AND created_at < period_end
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1;
+$$;
@@ -0,0 +1,75 @@
+-- Fixed-window counters behind the edge functions' rate limits and daily
+-- quotas. Buckets look like "ip:203.0.113.7" or "quota:workspace:<id>".
+CREATE TABLE public.rate_limit_counters (
+  bucket TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket, window_start)
+);
+
+-- Only the service role reads or writes counters
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- Counts one hit against a bucket's current window and says whether it is
+-- within the limit. Windows are aligned to the epoch, so a 86400-second
+-- window is a UTC day. The upsert makes concurrent hits count exactly once each.
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(bucket TEXT, window_seconds INTEGER, max_hits INTEGER)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_window TIMESTAMP WITH TIME ZONE;
+  current_hits INTEGER;
+BEGIN
+  current_window := to_timestamp(floor(extract(epoch FROM now()) / window_seconds) * window_seconds);
+
+  INSERT INTO public.rate_limit_counters AS counters (bucket, window_start, hits)
+  VALUES (hit_rate_limit.bucket, current_window, 1)
+  ON CONFLICT ON CONSTRAINT rate_limit_counters_pkey
+  DO UPDATE SET hits = counters.hits + 1
+  RETURNING counters.hits INTO current_hits;
+
+  RETURN QUERY SELECT
+    current_hits <= max_hits,
+    GREATEST(max_hits - current_hits, 0),
+    CASE
+      WHEN current_hits <= max_hits THEN 0
+      ELSE CEIL(extract(epoch FROM current_window + make_interval(secs => window_seconds) - now()))::INTEGER
+    END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Each workspace's plan sets its daily summary quota; the quotas themselves
+-- are configured in the edge functions
+ALTER TABLE public.workspaces
+  ADD COLUMN plan TEXT NOT NULL DEFAULT 'free' CHECK (plan IN ('free', 'pro', 'team'));
+
+-- Plans are changed by billing with the service role, not by workspace owners
+CREATE OR REPLACE FUNCTION public.protect_workspace_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.plan IS DISTINCT FROM OLD.plan AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'A workspace''s plan can only be changed through billing';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_workspace_plan
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_workspace_plan();
+
+-- Expired windows are only clutter; clear them out hourly
+SELECT cron.schedule(
+  'rate-limit-cleanup',
+  '17 * * * *',
+  $$ DELETE FROM public.rate_limit_counters WHERE window_start < now() - INTERVAL '2 days' $$
+);
@@ -0,0 +1,5 @@
+-- Failed and retrying jobs say what went wrong as an error code from the API
+-- contract, so the client can suggest a fix instead of showing raw messages
+ALTER TABLE public.jobs
+  ADD COLUMN error_code TEXT,
+  ADD COLUMN retry_after_seconds INTEGER;
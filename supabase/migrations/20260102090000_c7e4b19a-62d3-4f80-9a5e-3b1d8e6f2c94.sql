@@ -0,0 +1,42 @@
+-- Takes up to `wanted` hits from a bucket's current window at once, granting
+-- only what is left under the limit. Playlists use it to count each queued
+-- video against the workspace's daily quota and queue only as many as fit.
+CREATE OR REPLACE FUNCTION public.take_rate_limit(bucket TEXT, window_seconds INTEGER, max_hits INTEGER, wanted INTEGER)
+RETURNS TABLE (granted INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_window TIMESTAMP WITH TIME ZONE;
+  current_hits INTEGER;
+  taken INTEGER;
+BEGIN
+  current_window := to_timestamp(floor(extract(epoch FROM now()) / window_seconds) * window_seconds);
+
+  INSERT INTO public.rate_limit_counters (bucket, window_start, hits)
+  VALUES (take_rate_limit.bucket, current_window, 0)
+  ON CONFLICT ON CONSTRAINT rate_limit_counters_pkey DO NOTHING;
+
+  -- The row lock keeps concurrent requests from granting the same hits twice
+  SELECT counters.hits INTO current_hits
+  FROM public.rate_limit_counters AS counters
+  WHERE counters.bucket = take_rate_limit.bucket AND counters.window_start = current_window
+  FOR UPDATE;
+
+  taken := LEAST(GREATEST(wanted, 0), GREATEST(max_hits - current_hits, 0));
+
+  UPDATE public.rate_limit_counters AS counters
+  SET hits = counters.hits + taken
+  WHERE counters.bucket = take_rate_limit.bucket AND counters.window_start = current_window;
+
+  RETURN QUERY SELECT
+    taken,
+    CASE
+      WHEN taken > 0 THEN 0
+      ELSE CEIL(extract(epoch FROM current_window + make_interval(secs => window_seconds) - now()))::INTEGER
+    END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,61 @@
+-- Which version of each summary is in the search index, and with which
+-- embedding model. A summary whose row is missing or older than its current
+-- version, or was indexed with another model, gets indexed again.
+CREATE TABLE public.summary_index_state (
+  summary_id UUID PRIMARY KEY REFERENCES public.summaries(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  model TEXT NOT NULL,
+  -- Set when indexing this version failed; cleared by the next success
+  error TEXT,
+  indexed_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Only the service role reads or writes index state
+ALTER TABLE public.summary_index_state ENABLE ROW LEVEL SECURITY;
+
+-- Summaries whose search entries are missing, out of date or from another
+-- model. Failed ones come last so they cannot hold up the rest.
+CREATE OR REPLACE FUNCTION public.summaries_to_index(embedding_model TEXT, max_count INTEGER DEFAULT 20)
+RETURNS TABLE (summary_id UUID, version INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id, s.version
+  FROM public.summaries s
+  LEFT JOIN public.summary_index_state i ON i.summary_id = s.id
+  WHERE i.summary_id IS NULL
+    OR i.version < s.version
+    OR i.model <> embedding_model
+    OR i.error IS NOT NULL
+  ORDER BY i.error IS NOT NULL, s.updated_at DESC
+  LIMIT max_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.summaries_to_index(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Edits and restores happen in the browser, so pick them up from here: wake
+-- the indexer whenever a summary has a version that is not indexed yet. This
+-- also indexes summaries written before index state was kept. Failed versions
+-- and model changes are retried by calling summarize-video with
+-- {"action": "reindex"} as the service role.
+SELECT cron.schedule(
+  'summary-search-reindex',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/summarize-video',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "reindex"}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.summaries s
+    LEFT JOIN public.summary_index_state i ON i.summary_id = s.id
+    WHERE i.summary_id IS NULL OR i.version < s.version
+  );
+  $$
+);
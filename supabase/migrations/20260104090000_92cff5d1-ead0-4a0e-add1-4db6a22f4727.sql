@@ -0,0 +1,146 @@
+-- Revoking a share link is final, and an existing link's token, password and
+-- visibility never change: editors may only set its expiry or revoke it.
+-- The trigger applies to every role, so it holds whatever grants say.
+CREATE OR REPLACE FUNCTION public.protect_summary_share()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at THEN
+    RAISE EXCEPTION 'A revoked share link cannot be restored';
+  END IF;
+  IF NEW.token IS DISTINCT FROM OLD.token
+    OR NEW.password_hash IS DISTINCT FROM OLD.password_hash
+    OR NEW.visibility IS DISTINCT FROM OLD.visibility
+    OR NEW.summary_id IS DISTINCT FROM OLD.summary_id
+    OR NEW.legacy_until IS DISTINCT FROM OLD.legacy_until
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the expiry and revocation of a share link can change';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_summary_share
+  BEFORE UPDATE ON public.summary_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_summary_share();
+
+-- Updated rows must still belong to a summary the editor can share
+DROP POLICY "Editors can revoke and extend shares" ON public.summary_shares;
+
+CREATE POLICY "Editors can revoke and extend shares"
+  ON public.summary_shares
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_shares.summary_id
+        AND public.has_workspace_role(summaries.workspace_id, 'editor')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.summaries
+      WHERE summaries.id = summary_shares.summary_id
+        AND public.has_workspace_role(summaries.workspace_id, 'editor')
+    )
+  );
+
+-- Looks up a share link for the share page. The status tells the page what to
+-- show: ok, not_found, revoked, expired, sign_in_required, forbidden,
+-- password_required, wrong_password or too_many_attempts. After
+-- 10 wrong passwords a link takes none for the rest of a 15-minute window, so
+-- its password cannot be guessed by trying. Successful views are counted unless
+-- count_view is false, as when the page checks an open link for changes.
+-- member tells the page whether the viewer can read the summary directly.
+CREATE OR REPLACE FUNCTION public.resolve_share(
+  share_token TEXT,
+  share_password TEXT DEFAULT NULL,
+  count_view BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  found_share RECORD;
+  shared_summary RECORD;
+  attempts_bucket TEXT;
+  attempts_window TIMESTAMP WITH TIME ZONE;
+  failed_attempts INTEGER;
+BEGIN
+  SELECT * INTO found_share FROM public.summary_shares WHERE token = share_token;
+
+  -- Old /share/<summary id> URLs open the share migrated from them for a while
+  IF NOT FOUND THEN
+    SELECT * INTO found_share
+    FROM public.summary_shares
+    WHERE legacy_until > now() AND summary_id::TEXT = share_token;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+  IF found_share.revoked_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'revoked');
+  END IF;
+  IF found_share.expires_at IS NOT NULL AND found_share.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired', 'expires_at', found_share.expires_at);
+  END IF;
+
+  SELECT * INTO shared_summary FROM public.summaries WHERE id = found_share.summary_id;
+
+  IF found_share.visibility = 'workspace' AND NOT public.has_workspace_role(shared_summary.workspace_id) THEN
+    RETURN jsonb_build_object('status', CASE WHEN auth.uid() IS NULL THEN 'sign_in_required' ELSE 'forbidden' END);
+  END IF;
+  IF found_share.visibility = 'password' THEN
+    IF share_password IS NULL THEN
+      RETURN jsonb_build_object('status', 'password_required');
+    END IF;
+
+    -- Wrong passwords are counted in the edge functions' rate limit counters
+    attempts_bucket := 'share-password:' || found_share.id;
+    attempts_window := to_timestamp(floor(extract(epoch FROM now()) / 900) * 900);
+    SELECT hits INTO failed_attempts
+    FROM public.rate_limit_counters
+    WHERE bucket = attempts_bucket AND window_start = attempts_window;
+
+    IF coalesce(failed_attempts, 0) >= 10 THEN
+      RETURN jsonb_build_object(
+        'status', 'too_many_attempts',
+        'retry_after_seconds', CEIL(extract(epoch FROM attempts_window + INTERVAL '900 seconds' - now()))::INTEGER
+      );
+    END IF;
+    IF crypt(share_password, found_share.password_hash) <> found_share.password_hash THEN
+      PERFORM public.hit_rate_limit(attempts_bucket, 900, 10);
+      RETURN jsonb_build_object('status', 'wrong_password');
+    END IF;
+  END IF;
+
+  IF count_view THEN
+    UPDATE public.summary_shares
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = found_share.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'visibility', found_share.visibility,
+    'member', public.has_workspace_role(shared_summary.workspace_id),
+    'summary', jsonb_build_object(
+      'id', shared_summary.id,
+      'video_url', shared_summary.video_url,
+      'video_title', shared_summary.video_title,
+      'summary', shared_summary.summary,
+      'structured_summary', shared_summary.structured_summary,
+      'created_at', shared_summary.created_at
+    ),
+    'transcript', (SELECT t.segments FROM public.transcripts t WHERE t.summary_id = shared_summary.id)
+  );
+END;
+$$;
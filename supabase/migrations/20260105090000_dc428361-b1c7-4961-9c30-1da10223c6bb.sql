@@ -0,0 +1,15 @@
+-- Plans are changed by billing, which may run with the service role, from the
+-- dashboard or in scheduled jobs. Only requests made with a user's session or
+-- the anon key are kept from changing them.
+CREATE OR REPLACE FUNCTION public.protect_workspace_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.plan IS DISTINCT FROM OLD.plan AND auth.role() IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'A workspace''s plan can only be changed through billing';
+  END IF;
+  RETURN NEW;
+END;
+$$;
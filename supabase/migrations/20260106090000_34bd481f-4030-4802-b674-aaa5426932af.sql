@@ -0,0 +1,22 @@
+-- Gives back a hit counted in the window that contained hit_at, e.g. the
+-- quota unit of a summary request that was answered from the cache. A window
+-- that has already been cleaned up is left alone.
+CREATE OR REPLACE FUNCTION public.refund_rate_limit(
+  bucket TEXT,
+  window_seconds INTEGER,
+  hit_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.rate_limit_counters AS counters
+  SET hits = GREATEST(counters.hits - 1, 0)
+  WHERE counters.bucket = refund_rate_limit.bucket
+    AND counters.window_start = to_timestamp(floor(extract(epoch FROM hit_at) / window_seconds) * window_seconds);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_rate_limit(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
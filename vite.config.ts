@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -13,6 +14,14 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // supabase/functions/_shared/contract.ts imports zod the way Deno does
+      "https://esm.sh/zod@3.25.76": "zod",
+      "https://esm.sh/@supabase/supabase-js@2.39.3": "@supabase/supabase-js",
     },
   },
+  test: {
+    // Edge function modules are tested under Node too, as long as they are
+    // given their environment instead of reading Deno.env
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+  },
 }));